@@ -1,6 +1,7 @@
 import type { BiomeType, ArenaConfig, ObstacleData, TerrainData, Vec2 } from '../engine/types';
-import { ARENA_SIZE, ARENA_HALF, TERRAIN_RESOLUTION, TERRAIN_MAX_HEIGHT } from '../utils/constants';
+import { ARENA_SIZE, ARENA_HALF, TERRAIN_RESOLUTION, TERRAIN_MAX_HEIGHT, SPAWN_RING_RADIUS } from '../utils/constants';
 import { NoiseGenerator } from './NoiseGenerator';
+import { SeededRandom, deriveSeed, randomSeed, SEED_STREAM_ARENA } from '../utils/random';
 
 const BIOMES: BiomeType[] = ['volcanic', 'ice', 'cyber', 'forest', 'desert'];
 
@@ -28,16 +29,19 @@ const BIOME_OBSTACLE_TYPES: Record<BiomeType, ObstacleData['type'][]> = {
   desert:   ['rock', 'wall', 'crate'],
 };
 
-export function generateArena(biome?: BiomeType): ArenaConfig {
-  const selectedBiome = biome ?? BIOMES[Math.floor(Math.random() * BIOMES.length)];
-  const seed = (Math.random() * 2147483647) | 0;
-  const noise = new NoiseGenerator(seed);
+/** Same match seed, biome and bot count always produce the same arena */
+export function generateArena(biome?: BiomeType, seed: number = randomSeed(), botCount = 2): ArenaConfig {
+  const rng = new SeededRandom(deriveSeed(seed, SEED_STREAM_ARENA));
+  const selectedBiome = biome ?? BIOMES[rng.int(BIOMES.length)];
+  const noise = new NoiseGenerator(rng.int(2147483647));
 
+  const spawnBases = Array.from({ length: botCount }, (_, i) => spawnRingPoint(i, botCount, SPAWN_RING_RADIUS));
   const terrain = generateTerrain(noise, selectedBiome);
-  const obstacles = generateObstacles(noise, selectedBiome, terrain);
-  const spawnPoints = findSpawnPoints(terrain);
+  const obstacles = generateObstacles(rng, selectedBiome, terrain, spawnBases);
+  const spawnPoints = spawnBases.map(p => nudgeToFlat(terrain, p.x, p.y));
 
   return {
+    seed,
     biome: selectedBiome,
     obstacles,
     terrain,
@@ -101,21 +105,25 @@ function generateTerrain(noise: NoiseGenerator, biome: BiomeType): TerrainData {
   return { heightmap, resolution: res, arenaSize: size };
 }
 
-function generateObstacles(noise: NoiseGenerator, biome: BiomeType, terrain: TerrainData): ObstacleData[] {
+function generateObstacles(
+  rng: SeededRandom,
+  biome: BiomeType,
+  terrain: TerrainData,
+  spawnBases: Vec2[],
+): ObstacleData[] {
   const obstacles: ObstacleData[] = [];
   const types = BIOME_OBSTACLE_TYPES[biome];
-  const count = 8 + Math.floor(Math.random() * 8); // 8-15
+  const count = 8 + rng.int(8); // 8-15
 
   const spawnExclusion = 5; // no obstacles within 5u of spawn areas
   const minGap = 3.5;
 
   for (let attempt = 0; attempt < count * 10 && obstacles.length < count; attempt++) {
-    const x = (Math.random() - 0.5) * (ARENA_SIZE - 8);
-    const y = (Math.random() - 0.5) * (ARENA_SIZE - 8);
+    const x = (rng.next() - 0.5) * (ARENA_SIZE - 8);
+    const y = (rng.next() - 0.5) * (ARENA_SIZE - 8);
 
-    // Spawn exclusion zones (at roughly +-12, 0)
-    if (Math.abs(x - (-12)) < spawnExclusion && Math.abs(y) < spawnExclusion) continue;
-    if (Math.abs(x - 12) < spawnExclusion && Math.abs(y) < spawnExclusion) continue;
+    // Spawn exclusion zones
+    if (spawnBases.some(p => Math.abs(x - p.x) < spawnExclusion && Math.abs(y - p.y) < spawnExclusion)) continue;
 
     // Min gap between obstacles
     let tooClose = false;
@@ -129,9 +137,9 @@ function generateObstacles(noise: NoiseGenerator, biome: BiomeType, terrain: Ter
     }
     if (tooClose) continue;
 
-    const type = types[Math.floor(Math.random() * types.length)];
-    const radius = type === 'wall' ? 0.8 : (1.0 + Math.random() * 1.2);
-    const height = type === 'platform' ? 1.0 : (2.0 + Math.random() * 2.0);
+    const type = types[rng.int(types.length)];
+    const radius = type === 'wall' ? 0.8 : (1.0 + rng.next() * 1.2);
+    const height = type === 'platform' ? 1.0 : (2.0 + rng.next() * 2.0);
 
     obstacles.push({
       position: { x, y },
@@ -146,11 +154,17 @@ function generateObstacles(noise: NoiseGenerator, biome: BiomeType, terrain: Ter
   return obstacles;
 }
 
-function findSpawnPoints(terrain: TerrainData): [Vec2, Vec2] {
-  // Spawn at +-12, 0 baseline, nudge to flattest nearby cell
-  const p1 = nudgeToFlat(terrain, -12, 0);
-  const p2 = nudgeToFlat(terrain, 12, 0);
-  return [p1, p2];
+/**
+ * Evenly spaced spawn on a ring, bot 0 on the left (-radius, 0).
+ * Two bots land at (-radius, 0) and (radius, 0), facing each other.
+ */
+export function spawnRingPoint(index: number, count: number, radius: number): Vec2 {
+  const theta = Math.PI + (2 * Math.PI * index) / count;
+  // Round away float noise so 2-bot spawns stay exactly on the x axis
+  return {
+    x: Math.round(Math.cos(theta) * radius * 1e6) / 1e6,
+    y: Math.round(Math.sin(theta) * radius * 1e6) / 1e6,
+  };
 }
 
 function nudgeToFlat(terrain: TerrainData, baseX: number, baseY: number): Vec2 {
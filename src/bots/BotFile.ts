@@ -0,0 +1,291 @@
+import type { BotStyle } from '../engine/types';
+import { validateCode } from './sandbox';
+import { BOT_NAME_MAX_LENGTH } from '../utils/constants';
+import { BOT_VERSION_SOURCES } from './BotLibrary';
+import type { BotVersionSource, LibraryBot } from './BotLibrary';
+
+// Portable bot file format (.bot.json)
+//
+// One bot — name, personality, look and think() source — plus, optionally, the
+// provider/model that generated it and its evolution lineage (every saved brain,
+// with parents). `hash` is a SHA-256 over the bot itself (name, personality,
+// style, code — see `contentHash`) so edited or corrupted files are caught.
+// Plain, pretty-printed JSON so it can be read and diffed; the format is
+// documented in the README.
+
+export const BOT_FILE_FORMAT = 'botwars-bot';
+export const BOT_FILE_VERSION = 1;
+export const BOT_FILE_EXTENSION = '.bot.json';
+
+const MAX_PERSONALITY_LENGTH = 2000;
+const MAX_CODE_LENGTH = 100_000;
+const MAX_LINEAGE = 200;
+const MAX_GENERATOR_FIELD_LENGTH = 100;
+// Provider ids and model names: letters, digits and . _ : / @ -
+const GENERATOR_FIELD = /^[A-Za-z0-9._:/@-]+$/;
+
+const BODY_SHAPES: readonly BotStyle['bodyShape'][] = ['dodecahedron', 'icosahedron', 'octahedron', 'tetrahedron', 'cube'];
+const EYE_SIZES: readonly BotStyle['eyeSize'][] = ['small', 'normal', 'large'];
+const EYE_STYLES: readonly BotStyle['eyeStyle'][] = ['normal', 'angry', 'sleepy', 'wide'];
+
+export interface BotFileVersion {
+  version: number;
+  /** Version it was derived from, null for the first brain */
+  parent: number | null;
+  source: BotVersionSource;
+  /** ISO timestamp */
+  savedAt: string;
+  code: string;
+}
+
+export interface BotFile {
+  format: typeof BOT_FILE_FORMAT;
+  version: number;
+  name: string;
+  personality: string;
+  /** null = default look */
+  style: BotStyle | null;
+  /** think() source */
+  code: string;
+  /** Who wrote the code; null for hand-written or unknown */
+  generator: { provider: string; model: string } | null;
+  /** Saved brains oldest first; `head` is the one in `code`. null when the bot has no history */
+  lineage: { head: number; versions: BotFileVersion[] } | null;
+  /** "sha256:<hex>" of the content — optional on import so hand-written files load */
+  hash?: string;
+  exportedAt: string;
+}
+
+/** The fields a bot file is built from */
+export interface BotFileContent {
+  name: string;
+  personality: string;
+  style: BotStyle | null;
+  code: string;
+  provider: string | null;
+  model: string | null;
+}
+
+export async function createBotFile(
+  content: BotFileContent,
+  lineage: BotFile['lineage'] = null,
+): Promise<BotFile> {
+  const file: BotFile = {
+    format: BOT_FILE_FORMAT,
+    version: BOT_FILE_VERSION,
+    name: content.name,
+    personality: content.personality,
+    style: content.style,
+    code: content.code,
+    generator: content.provider ? { provider: content.provider, model: content.model ?? '' } : null,
+    lineage,
+    exportedAt: new Date().toISOString(),
+  };
+  file.hash = await contentHash(file);
+  return file;
+}
+
+/** A library bot with every saved brain; `version` picks the one in `code` */
+export function botFileFromLibrary(bot: LibraryBot, version = bot.head): Promise<BotFile> {
+  const head = bot.versions.find(v => v.version === version) ?? bot.versions[bot.versions.length - 1];
+  return createBotFile(
+    { name: bot.name, personality: bot.personality, style: head.style, code: head.code, provider: bot.provider, model: bot.model },
+    bot.versions.length > 1
+      ? {
+          head: head.version,
+          versions: bot.versions.map(v => ({
+            version: v.version,
+            parent: v.parent,
+            source: v.source,
+            savedAt: new Date(v.savedAt).toISOString(),
+            code: v.code,
+          })),
+        }
+      : null,
+  );
+}
+
+/**
+ * "sha256:<hex>" over name, personality, style and code. Generator, lineage and
+ * timestamps are left out so re-exporting the same bot gives the same hash.
+ */
+export async function contentHash(file: Pick<BotFile, 'name' | 'personality' | 'style' | 'code'>): Promise<string> {
+  const canonical = canonicalJSON({ name: file.name, personality: file.personality, style: file.style, code: file.code });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return `sha256:${Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** JSON with object keys sorted, so the hash doesn't depend on key order */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .map(k => `${JSON.stringify(k)}:${canonicalJSON((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// --- Serialization ---
+
+export function serializeBotFile(file: BotFile): string {
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/** "Ghost Sniper" → "ghost-sniper.bot.json" */
+export function botFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'bot'}${BOT_FILE_EXTENSION}`;
+}
+
+/** Parse and validate a bot file; throws one Error listing every problem found */
+export async function parseBotFile(text: string): Promise<BotFile> {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Bot file is not valid JSON');
+  }
+  if (data?.format !== BOT_FILE_FORMAT) {
+    throw new Error('Not a BOTWARS bot file (expected "format": "botwars-bot")');
+  }
+  if (typeof data.version !== 'number' || data.version > BOT_FILE_VERSION) {
+    throw new Error(`Unsupported bot file version ${data.version} (this build reads up to ${BOT_FILE_VERSION})`);
+  }
+
+  const problems = botFileProblems(data);
+  if (problems.length) {
+    throw new Error(`Invalid bot file:\n${problems.map(p => `- ${p}`).join('\n')}`);
+  }
+
+  const file: BotFile = {
+    format: BOT_FILE_FORMAT,
+    version: data.version,
+    name: data.name.trim(),
+    personality: data.personality,
+    style: data.style ?? null,
+    code: data.code,
+    generator: data.generator ?? null,
+    lineage: data.lineage ?? null,
+    hash: data.hash,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+  };
+  if (file.hash !== undefined && file.hash !== await contentHash(file)) {
+    throw new Error('Bot file hash does not match its content — it was edited or corrupted. Remove the "hash" field to import it anyway.');
+  }
+  return file;
+}
+
+export async function decodeBotFile(file: Blob): Promise<BotFile> {
+  return parseBotFile(await file.text());
+}
+
+/** Schema check — every problem, with the field it's in */
+function botFileProblems(data: any): string[] {
+  const problems: string[] = [];
+  const isString = (value: unknown, max: number) => typeof value === 'string' && value.length <= max;
+
+  if (!isString(data.name, BOT_NAME_MAX_LENGTH) || !data.name.trim()) {
+    problems.push(`name must be a non-empty string of at most ${BOT_NAME_MAX_LENGTH} characters`);
+  }
+  if (!isString(data.personality, MAX_PERSONALITY_LENGTH)) {
+    problems.push(`personality must be a string of at most ${MAX_PERSONALITY_LENGTH} characters`);
+  }
+  if (data.style != null) problems.push(...styleProblems(data.style));
+  problems.push(...codeProblems('code', data.code));
+
+  if (data.generator != null) {
+    if (typeof data.generator !== 'object' || typeof data.generator.provider !== 'string' || typeof data.generator.model !== 'string') {
+      problems.push('generator must be null or { provider: string, model: string }');
+    } else {
+      for (const key of ['provider', 'model']) {
+        const value: string = data.generator[key];
+        if (value.length > MAX_GENERATOR_FIELD_LENGTH || !GENERATOR_FIELD.test(value)) {
+          problems.push(`generator.${key} must be 1-${MAX_GENERATOR_FIELD_LENGTH} letters, digits or . _ : / @ -`);
+        }
+      }
+    }
+  }
+  if (data.hash !== undefined && (typeof data.hash !== 'string' || !/^sha256:[0-9a-f]{64}$/.test(data.hash))) {
+    problems.push('hash must be "sha256:" followed by 64 lowercase hex digits');
+  }
+  if (data.lineage != null) problems.push(...lineageProblems(data.lineage, data.code));
+  return problems;
+}
+
+function codeProblems(field: string, code: unknown): string[] {
+  if (typeof code !== 'string' || !code.trim()) return [`${field} must be a non-empty string`];
+  if (code.length > MAX_CODE_LENGTH) return [`${field} is longer than ${MAX_CODE_LENGTH} characters`];
+  if (!/function\s+think\s*\(/.test(code)) return [`${field} must define function think(me, enemies, arena, memory)`];
+  // Same check the worker runs before compiling
+  const blocked = validateCode(code);
+  return blocked ? [`${field}: ${blocked}`] : [];
+}
+
+function styleProblems(style: any): string[] {
+  if (typeof style !== 'object' || Array.isArray(style)) return ['style must be null or an object'];
+  const problems: string[] = [];
+  const oneOf = (key: string, options: readonly string[]) => {
+    if (!options.includes(style[key])) problems.push(`style.${key} must be one of ${options.map(o => `"${o}"`).join(', ')}`);
+  };
+  const color = (key: string) => {
+    if (typeof style[key] !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(style[key])) problems.push(`style.${key} must be a "#rrggbb" color`);
+  };
+  // The ranges the generation prompt gives the model
+  const inRange = (key: string, min: number, max: number, value: unknown = style[key]) => {
+    if (typeof value !== 'number' || !(value >= min && value <= max)) problems.push(`style.${key} must be a number from ${min} to ${max}`);
+  };
+  const boolean = (key: string) => {
+    if (typeof style[key] !== 'boolean') problems.push(`style.${key} must be true or false`);
+  };
+
+  oneOf('bodyShape', BODY_SHAPES);
+  if (typeof style.bodyScale !== 'object' || !style.bodyScale) {
+    problems.push('style.bodyScale must be { x, y, z }');
+  } else {
+    for (const axis of ['x', 'y', 'z']) inRange(`bodyScale.${axis}`, 0.7, 1.3, style.bodyScale[axis]);
+  }
+  color('accentColor');
+  oneOf('eyeSize', EYE_SIZES);
+  oneOf('eyeStyle', EYE_STYLES);
+  color('pupilColor');
+  boolean('aura');
+  color('auraColor');
+  inRange('bobSpeed', 1, 5);
+  inRange('bobAmount', 0.5, 2);
+  boolean('spiky');
+  return problems;
+}
+
+function lineageProblems(lineage: any, code: unknown): string[] {
+  if (typeof lineage !== 'object' || !Array.isArray(lineage.versions) || !lineage.versions.length) {
+    return ['lineage must be null or { head: number, versions: [...] } with at least one version'];
+  }
+  if (lineage.versions.length > MAX_LINEAGE) return [`lineage has more than ${MAX_LINEAGE} versions`];
+
+  const problems: string[] = [];
+  const seen = new Set<number>();
+  lineage.versions.forEach((v: any, i: number) => {
+    const at = `lineage.versions[${i}]`;
+    if (!Number.isInteger(v?.version) || v.version < 1 || seen.has(v.version)) {
+      problems.push(`${at}.version must be a unique positive integer`);
+      return;
+    }
+    if (v.parent !== null && !seen.has(v.parent)) {
+      problems.push(`${at}.parent must be null or an earlier version`);
+    }
+    if (!BOT_VERSION_SOURCES.includes(v.source)) {
+      problems.push(`${at}.source must be one of ${BOT_VERSION_SOURCES.map(s => `"${s}"`).join(', ')}`);
+    }
+    if (typeof v.savedAt !== 'string' || Number.isNaN(Date.parse(v.savedAt))) {
+      problems.push(`${at}.savedAt must be an ISO date`);
+    }
+    problems.push(...codeProblems(`${at}.code`, v.code));
+    seen.add(v.version);
+  });
+
+  const head = lineage.versions.find((v: any) => v?.version === lineage.head);
+  if (!head) problems.push('lineage.head must be one of the listed versions');
+  else if (head.code !== code) problems.push('lineage.head version\'s code must match code');
+  return problems;
+}
@@ -0,0 +1,265 @@
+// Persistent bot library in IndexedDB — bots survive reloads so they don't have to be regenerated.
+// Each library bot keeps every brain it was saved with; `head` is the version loaded by default,
+// so rolling back is just moving it.
+
+import type { BotStyle } from '../engine/types';
+import type { BotFile } from './BotFile';
+
+/** Where a version's code came from */
+export const BOT_VERSION_SOURCES = ['generated', 'preset', 'evolved', 'edited', 'imported'] as const;
+export type BotVersionSource = typeof BOT_VERSION_SOURCES[number];
+
+export interface BotRecord {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface LibraryBotVersion {
+  /** 1-based, in save order */
+  version: number;
+  code: string;
+  style: BotStyle | null;
+  source: BotVersionSource;
+  /** Version this one was derived from (evolved or edited from), null for a fresh bot */
+  parent: number | null;
+  savedAt: number;
+  /** Matches this brain played while loaded from the library */
+  record: BotRecord;
+}
+
+export interface LibraryBot {
+  id: string;
+  name: string;
+  personality: string;
+  provider: string;
+  model: string;
+  tags: string[];
+  /** Version loaded by default */
+  head: number;
+  versions: LibraryBotVersion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A bot as it sits in a creation-screen slot, ready to be saved */
+export interface BotDraft {
+  name: string;
+  personality: string;
+  provider: string;
+  model: string;
+  code: string;
+  style: BotStyle | null;
+  source: BotVersionSource;
+}
+
+/** Which library version a slot was loaded from or saved to */
+export interface LibraryRef {
+  botId: string;
+  version: number;
+}
+
+const DB_NAME = 'botwars';
+const DB_VERSION = 1;
+const STORE = 'bots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('updatedAt', 'updatedAt');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('Could not open the bot library'));
+  });
+  // Let a later call retry after a failed open (e.g. storage blocked in private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('Bot library request failed'));
+  });
+}
+
+async function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  return (await openDB()).transaction(STORE, mode).objectStore(STORE);
+}
+
+async function put(bot: LibraryBot): Promise<LibraryBot> {
+  await request((await store('readwrite')).put(bot));
+  return bot;
+}
+
+/**
+ * Read-modify-write one bot inside a single readwrite transaction, so concurrent
+ * updates of the same bot queue up instead of overwriting each other. Throws if
+ * the bot was deleted meanwhile; a throwing `change` aborts without writing.
+ */
+async function update(id: string, change: (bot: LibraryBot) => void): Promise<LibraryBot> {
+  const bots = await store('readwrite');
+  const bot = await request(bots.get(id) as IDBRequest<LibraryBot | undefined>);
+  if (!bot) throw new Error('Bot is no longer in the library');
+  try {
+    change(bot);
+  } catch (err) {
+    bots.transaction.abort();
+    throw err;
+  }
+  bot.updatedAt = Date.now();
+  await request(bots.put(bot));
+  return bot;
+}
+
+/** Every library bot, most recently changed first */
+export async function listLibraryBots(): Promise<LibraryBot[]> {
+  const bots = await request((await store('readonly')).getAll() as IDBRequest<LibraryBot[]>);
+  return bots.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getLibraryBot(id: string): Promise<LibraryBot | null> {
+  return (await request((await store('readonly')).get(id) as IDBRequest<LibraryBot | undefined>)) ?? null;
+}
+
+export function getVersion(bot: LibraryBot, version: number = bot.head): LibraryBotVersion | undefined {
+  return bot.versions.find(v => v.version === version);
+}
+
+/**
+ * Save a slot's bot. With a `ref` the code becomes a new version of that library bot
+ * (parented on the ref's version) and the new version becomes head; without one a new
+ * library bot is created. Saving code identical to the ref's version changes nothing.
+ */
+export async function saveToLibrary(draft: BotDraft, ref: LibraryRef | null): Promise<LibraryRef> {
+  const existing = ref ? await getLibraryBot(ref.botId) : null;
+  const now = Date.now();
+  if (!existing) {
+    const bot = await put({
+      id: crypto.randomUUID(),
+      name: draft.name,
+      personality: draft.personality,
+      provider: draft.provider,
+      model: draft.model,
+      tags: [],
+      head: 1,
+      versions: [newVersion(1, draft, null, now)],
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { botId: bot.id, version: 1 };
+  }
+
+  const parent = getVersion(existing, ref!.version);
+  if (parent?.code === draft.code) return { botId: existing.id, version: parent.version };
+
+  let version = 0;
+  await update(existing.id, (bot) => {
+    version = Math.max(...bot.versions.map(v => v.version)) + 1;
+    bot.name = draft.name;
+    bot.personality = draft.personality;
+    bot.provider = draft.provider;
+    bot.model = draft.model;
+    bot.versions.push(newVersion(version, draft, parent?.version ?? null, now));
+    bot.head = version;
+  });
+  return { botId: existing.id, version };
+}
+
+function newVersion(version: number, draft: BotDraft, parent: number | null, savedAt: number): LibraryBotVersion {
+  return {
+    version,
+    code: draft.code,
+    style: draft.style,
+    source: draft.source,
+    parent,
+    savedAt,
+    record: { wins: 0, losses: 0, draws: 0 },
+  };
+}
+
+/** Add an imported bot file as a new library bot, keeping its lineage when it has one */
+export async function importToLibrary(file: BotFile): Promise<LibraryRef> {
+  const now = Date.now();
+  const versions: LibraryBotVersion[] = file.lineage
+    ? file.lineage.versions.map(v => ({
+        version: v.version,
+        code: v.code,
+        style: file.style,
+        source: v.source,
+        parent: v.parent,
+        savedAt: Date.parse(v.savedAt),
+        record: { wins: 0, losses: 0, draws: 0 },
+      }))
+    : [{ version: 1, code: file.code, style: file.style, source: 'imported', parent: null, savedAt: now, record: { wins: 0, losses: 0, draws: 0 } }];
+  const head = file.lineage?.head ?? 1;
+  const bot = await put({
+    id: crypto.randomUUID(),
+    name: file.name,
+    personality: file.personality,
+    provider: file.generator?.provider ?? '',
+    model: file.generator?.model ?? '',
+    tags: [],
+    head,
+    versions,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return { botId: bot.id, version: head };
+}
+
+/** Roll back (or forward) to an earlier brain — versions are never deleted */
+export function setLibraryHead(id: string, version: number): Promise<LibraryBot> {
+  return update(id, (bot) => {
+    if (!getVersion(bot, version)) throw new Error(`Version ${version} not found`);
+    bot.head = version;
+  });
+}
+
+/** Comma-separated tags → trimmed, lowercased, de-duplicated */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function setLibraryTags(id: string, tags: string[]): Promise<LibraryBot> {
+  return update(id, (bot) => { bot.tags = tags; });
+}
+
+export async function deleteLibraryBot(id: string): Promise<void> {
+  await request((await store('readwrite')).delete(id));
+}
+
+export function recordLibraryResult(ref: LibraryRef, result: keyof BotRecord): Promise<LibraryBot> {
+  return update(ref.botId, (bot) => {
+    const version = getVersion(bot, ref.version);
+    if (version) version.record[result]++;
+  });
+}
+
+/** Sum of every version's record */
+export function totalRecord(bot: LibraryBot): BotRecord {
+  return bot.versions.reduce(
+    (sum, v) => ({ wins: sum.wins + v.record.wins, losses: sum.losses + v.record.losses, draws: sum.draws + v.record.draws }),
+    { wins: 0, losses: 0, draws: 0 },
+  );
+}
+
+/** Case-insensitive match of every word in `query` against name, personality, provider, model and tags */
+export function searchLibrary(bots: LibraryBot[], query: string): LibraryBot[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return bots;
+  return bots.filter((bot) => {
+    const haystack = [bot.name, bot.personality, bot.provider, bot.model, ...bot.tags.map(t => `#${t}`)]
+      .join(' ')
+      .toLowerCase();
+    return words.every(w => haystack.includes(w));
+  });
+}
@@ -1,19 +1,45 @@
-import type { BotAction, BotState, EnemyState, ArenaState } from '../engine/types';
+import type { BotAction, BotState, EnemyState, ArenaTickState, BotController, BotMemory, HotSwapResult, NavGrid } from '../engine/types';
+import { idleAction } from './sandbox';
+import { runnerDebugOutput } from './debugChannel';
+import type { DebugListener } from './debugChannel';
+import { CLASSIC_RULES } from '../engine/GameRules';
+import { ThinkProfiler } from './ThinkProfiler';
+import { THINK_DEADLINE_MS } from '../utils/constants';
 import BotWorker from './bot-worker.ts?worker';
 
-export class BotRunner {
+export class BotRunner implements BotController {
   private workers: Worker[] = [];
   private pendingActions: Map<number, (action: BotAction) => void> = new Map();
   private ready: boolean[] = [false, false];
   private currentCode: Map<number, string> = new Map();
+  private seeds: Map<number, number | undefined> = new Map();
+  private navs: Map<number, Readonly<NavGrid>> = new Map();
+  /** Mirror of each worker's memory, refreshed with every action — lets respawns and evolution requests see it */
+  private memory: Map<number, BotMemory> = new Map();
+  /** When the tick a worker is still working on was posted — cleared when it answers, even late */
+  private busySince: Map<number, number> = new Map();
+  private hangMs: number;
+  /** Gets each bot's debug output as its actions come in, and hung-worker reports */
+  onDebug: DebugListener | null = null;
+  /** Every bot's think() timings, deadline misses, hangs and exceptions this match */
+  readonly profiler = new ThinkProfiler();
+
+  /** @param hangMs a worker still busy this long after a tick was posted is killed and respawned */
+  constructor(hangMs = CLASSIC_RULES.cpu.hangMs) {
+    this.hangMs = hangMs;
+  }
 
-  async initBot(botId: number, code: string): Promise<void> {
+  async initBot(botId: number, code: string, seed: number | undefined, nav: Readonly<NavGrid>, memory: BotMemory = {}): Promise<void> {
     // Terminate existing worker if any
     if (this.workers[botId]) {
       this.workers[botId].terminate();
     }
 
     this.currentCode.set(botId, code);
+    this.seeds.set(botId, seed);
+    this.navs.set(botId, nav);
+    this.memory.set(botId, memory);
+    this.busySince.delete(botId);
 
     return new Promise((resolve, reject) => {
       const worker = new BotWorker();
@@ -33,6 +59,17 @@ export class BotRunner {
           // Set up tick handler (also handles recompile responses)
           worker.onmessage = (e2: MessageEvent) => {
             if (e2.data.type === 'action') {
+              const postedAt = this.busySince.get(botId);
+              if (postedAt !== undefined && typeof e2.data.thinkMs === 'number') {
+                this.profiler.record(botId, {
+                  thinkMs: e2.data.thinkMs,
+                  roundTripMs: performance.now() - postedAt,
+                  threw: !!e2.data.threw,
+                });
+              }
+              this.busySince.delete(botId);
+              if (e2.data.memory) this.memory.set(botId, e2.data.memory);
+              if (e2.data.debug) this.onDebug?.(botId, e2.data.debug);
               const resolve = this.pendingActions.get(botId);
               if (resolve) {
                 this.pendingActions.delete(botId);
@@ -54,7 +91,7 @@ export class BotRunner {
         reject(new Error(`Worker error: ${err.message}`));
       };
 
-      worker.postMessage({ type: 'init', data: { code } });
+      worker.postMessage({ type: 'init', data: { code, seed, memory, nav } });
     });
   }
 
@@ -62,16 +99,21 @@ export class BotRunner {
     return this.currentCode.get(botId) ?? null;
   }
 
-  hotSwapCode(botId: number, code: string): Promise<boolean> {
+  getMemory(botId: number): BotMemory {
+    return this.memory.get(botId) ?? {};
+  }
+
+  /** Swap in new think() code; memory carries over unless `resetMemory` is set */
+  hotSwapCode(botId: number, code: string, resetMemory = false): Promise<HotSwapResult> {
     return new Promise((resolve) => {
       const worker = this.workers[botId];
       if (!worker || !this.ready[botId]) {
-        resolve(false);
+        resolve({ ok: false, error: 'Bot is not running' });
         return;
       }
 
       const timeout = setTimeout(() => {
-        resolve(false);
+        resolve({ ok: false, error: 'Worker did not answer the recompile within 5s' });
       }, 5000);
 
       // Temporarily intercept onmessage to catch recompile response
@@ -80,13 +122,14 @@ export class BotRunner {
         if (e.data.type === 'recompiled') {
           clearTimeout(timeout);
           this.currentCode.set(botId, code);
+          if (resetMemory) this.memory.set(botId, {});
           worker.onmessage = originalHandler;
-          resolve(true);
+          resolve({ ok: true, error: null });
         } else if (e.data.type === 'recompile_error') {
           clearTimeout(timeout);
           console.warn(`Hot-swap failed for bot ${botId}: ${e.data.error}`);
           worker.onmessage = originalHandler;
-          resolve(false);
+          resolve({ ok: false, error: e.data.error });
         } else {
           // Forward tick actions to original handler
           if (originalHandler) {
@@ -95,29 +138,45 @@ export class BotRunner {
         }
       };
 
-      worker.postMessage({ type: 'recompile', data: { code } });
+      worker.postMessage({ type: 'recompile', data: { code, resetMemory } });
     });
   }
 
-  getAction(botId: number, me: BotState, enemies: EnemyState[], arena: ArenaState): Promise<BotAction> {
+  async getAction(botId: number, me: BotState, enemies: EnemyState[], arena: ArenaTickState): Promise<BotAction> {
+    this.profiler.recordTick(botId);
+    const busySince = this.busySince.get(botId);
+    if (busySince !== undefined) {
+      // Still stuck on an earlier tick — don't queue more work behind it
+      if (performance.now() - busySince < this.hangMs) {
+        this.profiler.recordSkipped(botId);
+        return idleAction();
+      }
+      this.profiler.recordHang(botId);
+      this.onDebug?.(botId, runnerDebugOutput('error', `think() still running after ${this.hangMs} ms — worker restarted`));
+      await this.respawn(botId);
+      return { ...idleAction(), fault: 'cpu_timeout' };
+    }
+
     return new Promise((resolve) => {
       const worker = this.workers[botId];
       if (!worker || !this.ready[botId]) {
-        resolve({ move: { x: 0, y: 0 }, aim: { x: 0, y: 0 }, action: null });
+        resolve(idleAction());
         return;
       }
 
-      // Timeout after 50ms
+      // Missed the deadline: idle this tick (a late answer still counts in the profile)
       const timeout = setTimeout(() => {
         this.pendingActions.delete(botId);
-        resolve({ move: { x: 0, y: 0 }, aim: { x: 0, y: 0 }, action: null });
-      }, 50);
+        this.profiler.recordTimeout(botId);
+        resolve(idleAction());
+      }, THINK_DEADLINE_MS);
 
       this.pendingActions.set(botId, (action) => {
         clearTimeout(timeout);
         resolve(action);
       });
 
+      this.busySince.set(botId, performance.now());
       worker.postMessage({
         type: 'tick',
         data: { me, enemies, arena },
@@ -125,6 +184,26 @@ export class BotRunner {
     });
   }
 
+  /**
+   * Replace a hung worker with a fresh one running the same code. The seeded
+   * Math.random stream restarts from the bot's seed.
+   */
+  private async respawn(botId: number) {
+    this.workers[botId]?.terminate();
+    this.ready[botId] = false;
+    this.pendingActions.delete(botId);
+    this.busySince.delete(botId);
+
+    const code = this.currentCode.get(botId);
+    const nav = this.navs.get(botId);
+    if (code === undefined || nav === undefined) return;
+    try {
+      await this.initBot(botId, code, this.seeds.get(botId), nav, this.getMemory(botId));
+    } catch (err: any) {
+      console.warn(`Respawn failed for bot ${botId}: ${err.message}`);
+    }
+  }
+
   terminate() {
     for (const worker of this.workers) {
       if (worker) worker.terminate();
@@ -132,5 +211,11 @@ export class BotRunner {
     this.workers = [];
     this.ready = [false, false];
     this.currentCode.clear();
+    this.seeds.clear();
+    this.navs.clear();
+    this.memory.clear();
+    this.busySince.clear();
+    this.pendingActions.clear();
+    this.profiler.clear();
   }
 }
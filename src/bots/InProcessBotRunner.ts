@@ -0,0 +1,89 @@
+import type { BotAction, BotState, EnemyState, ArenaTickState, BotController, BotMemory, HotSwapResult, NavGrid } from '../engine/types';
+import { validateCode, compileThinkFn, runThink, idleAction, createSandboxMath } from './sandbox';
+import type { ThinkFn } from './sandbox';
+import { DebugChannel } from './debugChannel';
+import type { DebugListener } from './debugChannel';
+import { ThinkProfiler } from './ThinkProfiler';
+
+/**
+ * Runs think() on the calling thread. Applies the same validation as the
+ * worker but has no timeout or global lockdown — meant for headless batch
+ * runs and tests with trusted code, not for live matches. NodeBotRunner adds
+ * the hang limit for batch runs of code that might loop forever.
+ */
+export class InProcessBotRunner implements BotController {
+  private thinkFns: Map<number, ThinkFn> = new Map();
+  private currentCode: Map<number, string> = new Map();
+  private sandboxMath: Map<number, Math> = new Map();
+  private navs: Map<number, Readonly<NavGrid>> = new Map();
+  private memory: Map<number, BotMemory> = new Map();
+  private debugChannels: Map<number, DebugChannel> = new Map();
+  /** Gets each bot's debug output after every think() call */
+  onDebug: DebugListener | null = null;
+  /** think() timings — no messaging here, so the round trip is the think time */
+  readonly profiler = new ThinkProfiler();
+
+  async initBot(botId: number, code: string, seed: number | undefined, nav: Readonly<NavGrid>): Promise<void> {
+    const validationError = validateCode(code);
+    if (validationError) {
+      throw new Error(`Init error: ${validationError}`);
+    }
+    const math = seed === undefined ? Math : createSandboxMath(seed);
+    const debug = new DebugChannel();
+    try {
+      this.thinkFns.set(botId, compileThinkFn(code, math, debug));
+    } catch (err: any) {
+      throw new Error(`Init error: ${err.message}`);
+    }
+    this.currentCode.set(botId, code);
+    this.sandboxMath.set(botId, math);
+    this.navs.set(botId, nav);
+    this.debugChannels.set(botId, debug);
+    this.memory.set(botId, {});
+  }
+
+  getCode(botId: number): string | null {
+    return this.currentCode.get(botId) ?? null;
+  }
+
+  getMemory(botId: number): BotMemory {
+    return this.memory.get(botId) ?? {};
+  }
+
+  async hotSwapCode(botId: number, code: string, resetMemory = false): Promise<HotSwapResult> {
+    if (!this.thinkFns.has(botId)) return { ok: false, error: 'Bot is not running' };
+    const validationError = validateCode(code);
+    if (validationError) return { ok: false, error: validationError };
+    try {
+      this.thinkFns.set(botId, compileThinkFn(code, this.sandboxMath.get(botId), this.debugChannels.get(botId)));
+      this.currentCode.set(botId, code);
+      if (resetMemory) this.memory.set(botId, {});
+      return { ok: true, error: null };
+    } catch (err: any) {
+      return { ok: false, error: `Compile error: ${err.message}` };
+    }
+  }
+
+  async getAction(botId: number, me: BotState, enemies: EnemyState[], arena: ArenaTickState): Promise<BotAction> {
+    const thinkFn = this.thinkFns.get(botId);
+    if (!thinkFn) return idleAction();
+    this.profiler.recordTick(botId);
+    const start = performance.now();
+    const result = runThink(thinkFn, me, enemies, { ...arena, nav: this.navs.get(botId)! }, this.getMemory(botId), this.debugChannels.get(botId)!);
+    const thinkMs = performance.now() - start;
+    this.profiler.record(botId, { thinkMs, roundTripMs: thinkMs, threw: result.threw });
+    this.memory.set(botId, result.memory);
+    this.onDebug?.(botId, result.debug);
+    return result.action;
+  }
+
+  terminate() {
+    this.thinkFns.clear();
+    this.currentCode.clear();
+    this.sandboxMath.clear();
+    this.navs.clear();
+    this.debugChannels.clear();
+    this.memory.clear();
+    this.profiler.clear();
+  }
+}
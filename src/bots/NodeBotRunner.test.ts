@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { NodeBotRunner } from './NodeBotRunner';
+import { InProcessBotRunner } from './InProcessBotRunner';
+import { presetCode } from './presets';
+import { runHeadlessMatch } from '../engine/HeadlessMatch';
+import type { HeadlessMatchOptions } from '../engine/HeadlessMatch';
+import { GameState } from '../engine/GameState';
+import { generateArena } from '../arena/ArenaGenerator';
+
+const spinner = 'function think() { while (true) {} }';
+
+describe('NodeBotRunner', () => {
+  let runner: NodeBotRunner;
+  afterEach(() => runner?.terminate());
+
+  it('plays the same match as the in-process runner', async () => {
+    runner = new NodeBotRunner();
+    const options: HeadlessMatchOptions = {
+      bots: [{ name: 'A', code: presetCode.berserker }, { name: 'B', code: presetCode.sniper }],
+      seed: 3,
+      maxTicks: 200,
+    };
+    const threaded = await runHeadlessMatch({ ...options, controller: runner });
+    const inProcess = await runHeadlessMatch({ ...options, controller: new InProcessBotRunner() });
+    expect(threaded.state.bots.map(bot => bot.hp)).toEqual(inProcess.state.bots.map(bot => bot.hp));
+    expect(threaded.state.bots.map(bot => bot.position)).toEqual(inProcess.state.bots.map(bot => bot.position));
+  });
+
+  it('kills a hung think() and respawns the worker', async () => {
+    runner = new NodeBotRunner(200);
+    const state = new GameState();
+    state.arenaConfig = generateArena(undefined, 1, 2);
+    state.init(['Spinner', 'Berserker'], 1);
+    await runner.initBot(0, spinner, 1, state.nav);
+    await runner.initBot(1, presetCode.berserker, 2, state.nav);
+
+    const [hung, answered] = await Promise.all([0, 1].map(id =>
+      runner.getAction(id, state.getBotState(id), state.getEnemyStates(id), state.getArenaState())));
+    expect(hung.fault).toBe('cpu_timeout');
+    expect(answered.fault).toBeUndefined();
+    expect(runner.profiler.stats(0).hangs).toBe(1);
+
+    // The respawned worker runs the same code, and hangs again
+    expect(runner.getCode(0)).toBe(spinner);
+    const again = await runner.getAction(0, state.getBotState(0), state.getEnemyStates(0), state.getArenaState());
+    expect(again.fault).toBe('cpu_timeout');
+  });
+
+  it('sends the nav grid once at init and adds it to every tick', async () => {
+    runner = new NodeBotRunner();
+    const state = new GameState();
+    state.arenaConfig = generateArena(undefined, 1, 2);
+    state.init(['Mapper', 'Berserker'], 1);
+    const mapper = `function think(me, enemies, arena, memory) {
+      memory.cols = arena.nav.cols;
+      memory.frozen = Object.isFrozen(arena.nav.costs);
+      return { move: { x: 0, y: 0 }, aim: { x: 1, y: 0 }, action: null };
+    }`;
+    await runner.initBot(0, mapper, 1, state.nav);
+
+    const arena = state.getArenaState();
+    expect(arena).not.toHaveProperty('nav');
+    await runner.getAction(0, state.getBotState(0), state.getEnemyStates(0), arena);
+    expect(runner.getMemory(0)).toEqual({ cols: state.nav.cols, frozen: true });
+  });
+
+  it('rejects code that fails validation', async () => {
+    runner = new NodeBotRunner();
+    await expect(runner.initBot(0, 'function think() { setTimeout(think, 0); }', 1, new GameState().nav)).rejects.toThrow(/Init error/);
+  });
+});
@@ -0,0 +1,172 @@
+import { Worker } from 'node:worker_threads';
+import type { BotAction, BotState, EnemyState, ArenaTickState, BotController, BotMemory, NavGrid } from '../engine/types';
+import { idleAction } from './sandbox';
+import { runnerDebugOutput } from './debugChannel';
+import type { DebugListener } from './debugChannel';
+import { CLASSIC_RULES } from '../engine/GameRules';
+import { ThinkProfiler } from './ThinkProfiler';
+
+const WORKER_URL = new URL('./node-bot-worker.mjs', import.meta.url);
+const INIT_TIMEOUT_MS = 5000;
+
+/**
+ * Runs each bot's think() in its own Node worker thread, for command-line
+ * batch runs. A worker still busy `hangMs` after a tick was posted is killed
+ * and respawned and the bot gets a `cpu_timeout` fault, as with BotRunner —
+ * so a `while (true)` bot costs one hang, not the whole batch.
+ *
+ * Headless ticks aren't paced, so there is no 50 ms deadline: each tick waits
+ * for the answer up to the hang limit. Worker threads bound CPU time only;
+ * Node's own modules stay reachable from bot code, so run code you trust.
+ */
+export class NodeBotRunner implements BotController {
+  private workers: Worker[] = [];
+  private pendingActions: Map<number, (action: BotAction) => void> = new Map();
+  private currentCode: Map<number, string> = new Map();
+  private seeds: Map<number, number | undefined> = new Map();
+  private navs: Map<number, Readonly<NavGrid>> = new Map();
+  /** Mirror of each worker's memory, refreshed with every action — lets respawns carry it over */
+  private memory: Map<number, BotMemory> = new Map();
+  /** When the tick a worker is working on was posted — cleared when it answers */
+  private busySince: Map<number, number> = new Map();
+  private hangMs: number;
+  /** Gets each bot's debug output as its actions come in, and hung-worker reports */
+  onDebug: DebugListener | null = null;
+  /** Every bot's think() timings, hangs and exceptions this match */
+  readonly profiler = new ThinkProfiler();
+
+  /** @param hangMs a worker still busy this long after a tick was posted is killed and respawned */
+  constructor(hangMs = CLASSIC_RULES.cpu.hangMs) {
+    this.hangMs = hangMs;
+  }
+
+  async initBot(botId: number, code: string, seed: number | undefined, nav: Readonly<NavGrid>, memory: BotMemory = {}): Promise<void> {
+    this.workers[botId]?.terminate();
+
+    this.currentCode.set(botId, code);
+    this.seeds.set(botId, seed);
+    this.navs.set(botId, nav);
+    this.memory.set(botId, memory);
+    this.busySince.delete(botId);
+
+    const worker = new Worker(WORKER_URL);
+    this.workers[botId] = worker;
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        worker.terminate();
+        reject(new Error('Worker init timeout'));
+      }, INIT_TIMEOUT_MS);
+
+      worker.once('message', (message) => {
+        clearTimeout(timeout);
+        if (message.type === 'ready') resolve();
+        else reject(new Error(message.error));
+      });
+      worker.once('error', (err) => {
+        clearTimeout(timeout);
+        reject(new Error(`Worker error: ${err.message}`));
+      });
+      worker.postMessage({ type: 'init', data: { code, seed, memory, nav } });
+    });
+
+    worker.on('message', (message) => {
+      if (message.type !== 'action') return;
+      const postedAt = this.busySince.get(botId);
+      if (postedAt !== undefined && typeof message.thinkMs === 'number') {
+        this.profiler.record(botId, {
+          thinkMs: message.thinkMs,
+          roundTripMs: performance.now() - postedAt,
+          threw: !!message.threw,
+        });
+      }
+      this.busySince.delete(botId);
+      if (message.memory) this.memory.set(botId, message.memory);
+      if (message.debug) this.onDebug?.(botId, message.debug);
+      this.settle(botId, message.action);
+    });
+    // A worker that dies mid-tick (process.exit in bot code, out of memory) idles that tick
+    worker.on('exit', () => {
+      if (this.workers[botId] === worker) this.settle(botId, idleAction());
+    });
+  }
+
+  getCode(botId: number): string | null {
+    return this.currentCode.get(botId) ?? null;
+  }
+
+  getMemory(botId: number): BotMemory {
+    return this.memory.get(botId) ?? {};
+  }
+
+  async getAction(botId: number, me: BotState, enemies: EnemyState[], arena: ArenaTickState): Promise<BotAction> {
+    const worker = this.workers[botId];
+    if (!worker) return idleAction();
+    this.profiler.recordTick(botId);
+
+    const action = await new Promise<BotAction | null>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingActions.delete(botId);
+        resolve(null);
+      }, this.hangMs);
+
+      this.pendingActions.set(botId, (answer) => {
+        clearTimeout(timeout);
+        resolve(answer);
+      });
+
+      this.busySince.set(botId, performance.now());
+      worker.postMessage({ type: 'tick', data: { me, enemies, arena } });
+    });
+    if (action) return action;
+
+    this.profiler.recordHang(botId);
+    this.onDebug?.(botId, runnerDebugOutput('error', `think() still running after ${this.hangMs} ms — worker restarted`));
+    await this.respawn(botId);
+    return { ...idleAction(), fault: 'cpu_timeout' };
+  }
+
+  private settle(botId: number, action: BotAction) {
+    const resolve = this.pendingActions.get(botId);
+    if (resolve) {
+      this.pendingActions.delete(botId);
+      resolve(action);
+    }
+  }
+
+  /**
+   * Replace a hung worker with a fresh one running the same code. The seeded
+   * Math.random stream restarts from the bot's seed.
+   */
+  private async respawn(botId: number) {
+    const worker = this.workers[botId];
+    delete this.workers[botId];
+    worker?.terminate();
+    this.pendingActions.delete(botId);
+    this.busySince.delete(botId);
+
+    const code = this.currentCode.get(botId);
+    const nav = this.navs.get(botId);
+    if (code === undefined || nav === undefined) return;
+    try {
+      await this.initBot(botId, code, this.seeds.get(botId), nav, this.getMemory(botId));
+    } catch (err: any) {
+      console.warn(`Respawn failed for bot ${botId}: ${err.message}`);
+    }
+  }
+
+  terminate() {
+    const workers = this.workers;
+    this.workers = [];
+    for (const worker of workers) {
+      if (worker) worker.terminate();
+    }
+    this.currentCode.clear();
+    this.seeds.clear();
+    this.navs.clear();
+    this.memory.clear();
+    this.busySince.clear();
+    this.pendingActions.clear();
+    this.profiler.clear();
+  }
+}
@@ -0,0 +1,126 @@
+// Per-bot think() timings for the debug HUD and the post-match report: how long
+// each think() ran, what the worker message round trip added on top, and how
+// often a bot missed its deadline, hung its worker or threw.
+
+import { THINK_HISTOGRAM_EDGES } from '../utils/constants';
+
+/** One answered think() call */
+export interface ThinkSample {
+  /** Time inside think(), measured where it ran */
+  thinkMs: number;
+  /** Tick posted to answer received — think time plus messaging */
+  roundTripMs: number;
+  threw: boolean;
+}
+
+export interface ThinkStats {
+  /** Ticks the bot was asked for an action */
+  ticks: number;
+  /** Answered think() calls, late ones included */
+  samples: number;
+  /** Ticks idled because the answer missed the deadline */
+  timeouts: number;
+  /** Ticks idled because the worker was still busy with an earlier one */
+  skipped: number;
+  /** Workers killed for running past the CPU limit */
+  hangs: number;
+  exceptions: number;
+  /** null before the first answer */
+  lastMs: number | null;
+  meanMs: number;
+  p50Ms: number;
+  p90Ms: number;
+  p99Ms: number;
+  maxMs: number;
+  /** Mean round trip minus think time */
+  overheadMs: number;
+  /** Calls per THINK_HISTOGRAM_EDGES bucket, plus one for anything slower */
+  histogram: number[];
+}
+
+interface BotProfile {
+  ticks: number;
+  thinkMs: number[];
+  overheadMs: number;
+  timeouts: number;
+  skipped: number;
+  hangs: number;
+  exceptions: number;
+}
+
+function emptyProfile(): BotProfile {
+  return { ticks: 0, thinkMs: [], overheadMs: 0, timeouts: 0, skipped: 0, hangs: 0, exceptions: 0 };
+}
+
+/** Nearest-rank percentile of an ascending list */
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+export class ThinkProfiler {
+  private bots: Map<number, BotProfile> = new Map();
+
+  record(botId: number, sample: ThinkSample) {
+    const profile = this.profile(botId);
+    profile.thinkMs.push(sample.thinkMs);
+    profile.overheadMs += Math.max(0, sample.roundTripMs - sample.thinkMs);
+    if (sample.threw) profile.exceptions++;
+  }
+
+  recordTick(botId: number) {
+    this.profile(botId).ticks++;
+  }
+
+  recordTimeout(botId: number) {
+    this.profile(botId).timeouts++;
+  }
+
+  recordSkipped(botId: number) {
+    this.profile(botId).skipped++;
+  }
+
+  recordHang(botId: number) {
+    this.profile(botId).hangs++;
+  }
+
+  stats(botId: number): ThinkStats {
+    const profile = this.bots.get(botId) ?? emptyProfile();
+    const samples = profile.thinkMs.length;
+    const sorted = [...profile.thinkMs].sort((a, b) => a - b);
+    const histogram = new Array(THINK_HISTOGRAM_EDGES.length + 1).fill(0);
+    for (const ms of profile.thinkMs) {
+      const bucket = THINK_HISTOGRAM_EDGES.findIndex(edge => ms <= edge);
+      histogram[bucket === -1 ? THINK_HISTOGRAM_EDGES.length : bucket]++;
+    }
+    return {
+      ticks: profile.ticks,
+      samples,
+      timeouts: profile.timeouts,
+      skipped: profile.skipped,
+      hangs: profile.hangs,
+      exceptions: profile.exceptions,
+      lastMs: samples ? profile.thinkMs[samples - 1] : null,
+      meanMs: samples ? profile.thinkMs.reduce((sum, ms) => sum + ms, 0) / samples : 0,
+      p50Ms: percentile(sorted, 0.5),
+      p90Ms: percentile(sorted, 0.9),
+      p99Ms: percentile(sorted, 0.99),
+      maxMs: samples ? sorted[samples - 1] : 0,
+      overheadMs: samples ? profile.overheadMs / samples : 0,
+      histogram,
+    };
+  }
+
+  clear() {
+    this.bots.clear();
+  }
+
+  private profile(botId: number): BotProfile {
+    let profile = this.bots.get(botId);
+    if (!profile) {
+      profile = emptyProfile();
+      this.bots.set(botId, profile);
+    }
+    return profile;
+  }
+}
@@ -0,0 +1,230 @@
+// think()'s fifth argument, `lib`: the helpers every bot used to re-implement
+// inline — vector math, line of sight as the engine decides it, cover, projectile
+// lead, wall/obstacle steering, action readiness and routes over `arena.nav`. One frozen object shared by
+// every bot; helpers return fresh objects, so nothing a bot gets back is shared.
+
+import type { ArenaState, BotState, Vec2 } from '../engine/types';
+import type { ActionName } from '../engine/GameRules';
+import { add, sub, scale, length, distance, normalize, dot, hasLineOfSight, isInFieldOfView } from '../utils/math';
+import { BOT_RADIUS } from '../utils/constants';
+import { findRoute, findNearestRoute, findRouteWhere } from '../engine/NavGrid';
+
+/** Walls closer than this push back in wallRepulsion() */
+export const WALL_MARGIN = 5;
+/** Obstacle edges closer than this push back in obstacleRepulsion() */
+export const OBSTACLE_MARGIN = 2;
+/** steer()'s weight for both repulsions — enough to cancel heading straight into a wall */
+const STEER_WEIGHT = 2;
+/** Cover spots stand this far behind an obstacle's edge */
+const COVER_GAP = 0.5;
+/** nextWaypoint() moves on once a waypoint is this close */
+const WAYPOINT_REACHED = 0.5;
+
+function vec(x: number, y: number): Vec2 {
+  return { x, y };
+}
+
+/** Unit vector from `from` toward `to` (zero if they coincide) */
+function direction(from: Vec2, to: Vec2): Vec2 {
+  return normalize(sub(to, from));
+}
+
+function fromAngle(radians: number): Vec2 {
+  return { x: Math.cos(radians), y: Math.sin(radians) };
+}
+
+/** Counter-clockwise by `radians` */
+function rotate(v: Vec2, radians: number): Vec2 {
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { x: v.x * cos - v.y * sin, y: v.x * sin + v.y * cos };
+}
+
+/** `v` turned 90° counter-clockwise — strafe/circle direction */
+function perpendicular(v: Vec2): Vec2 {
+  return { x: -v.y, y: v.x };
+}
+
+/** No obstacle between the two points — the engine's line-of-sight test */
+function lineOfSight(from: Vec2, to: Vec2, arena: ArenaState): boolean {
+  return hasLineOfSight(from, to, arena.obstacles);
+}
+
+/** Whether `me` would see `point` this tick: line of sight and inside the vision cone */
+function canSee(me: BotState, point: Vec2, arena: ArenaState): boolean {
+  return lineOfSight(me.position, point, arena)
+    && isInFieldOfView(me.facing, me.position, point, arena.rules.bot.fov);
+}
+
+/** The closest spot to `me` that an obstacle hides from `threat`, or null if there is none in the arena */
+function nearestCover(me: BotState, threat: Vec2, arena: ArenaState): Vec2 | null {
+  const halfWidth = arena.bounds.width / 2 - BOT_RADIUS;
+  const halfHeight = arena.bounds.height / 2 - BOT_RADIUS;
+  let best: Vec2 | null = null;
+  let bestDistance = Infinity;
+  for (const obstacle of arena.obstacles) {
+    const away = direction(threat, obstacle.position);
+    if (away.x === 0 && away.y === 0) continue;
+    const spot = add(obstacle.position, scale(away, obstacle.radius + BOT_RADIUS + COVER_GAP));
+    if (Math.abs(spot.x) > halfWidth || Math.abs(spot.y) > halfHeight) continue;
+    if (lineOfSight(threat, spot, arena)) continue;
+    const d = distance(me.position, spot);
+    if (d < bestDistance) {
+      best = spot;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** Per-tick velocity from two sightings `ticks` apart, e.g. a position kept in memory */
+function estimateVelocity(previous: Vec2, current: Vec2, ticks = 1): Vec2 {
+  return ticks > 0 ? scale(sub(current, previous), 1 / ticks) : vec(0, 0);
+}
+
+/**
+ * Aim that meets a target moving at `velocity` (units/tick) with a ranged shot;
+ * straight at the target when the shot can't catch it.
+ */
+function leadAim(from: Vec2, target: Vec2, velocity: Vec2, arena: ArenaState): Vec2 {
+  const offset = sub(target, from);
+  const speed = arena.rules.ranged.projectileSpeed;
+  // |offset + velocity·t| = speed·t, solved for the earliest t > 0
+  const a = dot(velocity, velocity) - speed * speed;
+  const b = 2 * dot(offset, velocity);
+  const c = dot(offset, offset);
+  let t = -1;
+  if (Math.abs(a) < 1e-9) {
+    if (b < 0) t = -c / b;
+  } else {
+    const disc = b * b - 4 * a * c;
+    if (disc >= 0) {
+      const root = Math.sqrt(disc);
+      const hits = [(-b - root) / (2 * a), (-b + root) / (2 * a)].filter(h => h > 0);
+      if (hits.length) t = Math.min(...hits);
+    }
+  }
+  return t > 0 ? normalize(add(offset, scale(velocity, t))) : normalize(offset);
+}
+
+/** Away from walls closer than `margin`, up to 1 per axis at the wall; zero in open ground */
+function wallRepulsion(position: Vec2, arena: ArenaState, margin = WALL_MARGIN): Vec2 {
+  const push = (coord: number, half: number) => {
+    if (coord > half - margin) return -(coord - (half - margin)) / margin;
+    if (coord < -half + margin) return (-half + margin - coord) / margin;
+    return 0;
+  };
+  return {
+    x: push(position.x, arena.bounds.width / 2),
+    y: push(position.y, arena.bounds.height / 2),
+  };
+}
+
+/** Away from obstacles whose edge is closer than `margin`, stronger the closer */
+function obstacleRepulsion(position: Vec2, arena: ArenaState, margin = OBSTACLE_MARGIN): Vec2 {
+  let push = vec(0, 0);
+  for (const obstacle of arena.obstacles) {
+    const gap = distance(position, obstacle.position) - obstacle.radius - BOT_RADIUS;
+    if (gap < margin) push = add(push, scale(direction(obstacle.position, position), 1 - Math.max(gap, 0) / margin));
+  }
+  return push;
+}
+
+/** `move` bent away from nearby walls and obstacles, so retreating bots slide along them instead of getting stuck */
+function steer(move: Vec2, position: Vec2, arena: ArenaState): Vec2 {
+  const repulsion = add(wallRepulsion(position, arena), obstacleRepulsion(position, arena));
+  return add(normalize(move), scale(repulsion, STEER_WEIGHT));
+}
+
+/** Energy `action` costs (defend: per tick) */
+function energyCost(action: ActionName, arena: ArenaState): number {
+  const r = arena.rules;
+  return action === 'defend' ? r.defend.energyPerTick : r[action].energy;
+}
+
+/** Allowed this match, off cooldown and affordable */
+function canUse(me: BotState, action: ActionName, arena: ArenaState): boolean {
+  const cooldown = action === 'defend' ? 0 : me.cooldowns[action];
+  return arena.rules.allowedActions.includes(action) && cooldown === 0 && me.energy >= energyCost(action, arena);
+}
+
+/** Whether `target` is within reach of an attack — ranged reach is projectile speed × lifetime */
+function inRange(me: BotState, target: Vec2, action: 'melee' | 'ranged' | 'special', arena: ArenaState): boolean {
+  const r = arena.rules;
+  const reach = action === 'ranged' ? r.ranged.projectileSpeed * r.ranged.projectileLifetime : r[action].range;
+  return distance(me.position, target) <= reach;
+}
+
+/**
+ * Waypoints around obstacles, walls and steep slopes to `to` — or to the nearest
+ * spot a bot can stand on when `to` is blocked. null when `to` is cut off.
+ */
+function findPath(from: Vec2, to: Vec2, arena: ArenaState): Vec2[] | null {
+  return findRoute(arena.nav, from, to)?.path ?? null;
+}
+
+/** Where to head now on the way to `to`: the first waypoint not already reached, or `to` itself without a path */
+function nextWaypoint(from: Vec2, to: Vec2, arena: ArenaState): Vec2 {
+  const path = findPath(from, to, arena);
+  if (!path) return { ...to };
+  return path.find(p => distance(from, p) > WAYPOINT_REACHED) ?? path[path.length - 1];
+}
+
+/** Travel cost of the cheapest route — distance, with slopes costing extra; Infinity when cut off */
+function pathCost(from: Vec2, to: Vec2, arena: ArenaState): number {
+  return findRoute(arena.nav, from, to)?.cost ?? Infinity;
+}
+
+/** The pickup (of `type`, if given) with the cheapest route from `me`, or null if none is reachable */
+function routeToPickup(
+  me: BotState,
+  arena: ArenaState,
+  type?: 'health' | 'energy',
+): { pickup: { position: Vec2; type: 'health' | 'energy' }; path: Vec2[]; cost: number } | null {
+  const pickups = arena.pickups.filter(p => !type || p.type === type);
+  const found = findNearestRoute(arena.nav, me.position, pickups.map(p => p.position));
+  if (!found) return null;
+  const pickup = pickups[found.target];
+  return { pickup: { position: { ...pickup.position }, type: pickup.type }, ...found.route };
+}
+
+/** The spot with the cheapest route from `me` that `threat` has no line of sight to, or null if there is none */
+function hidingSpot(me: BotState, threat: Vec2, arena: ArenaState): Vec2 | null {
+  const route = findRouteWhere(arena.nav, me.position, point => !lineOfSight(threat, point, arena));
+  return route ? route.path[route.path.length - 1] : null;
+}
+
+export const botLib = {
+  vec,
+  add,
+  sub,
+  scale,
+  length,
+  distance,
+  normalize,
+  dot,
+  direction,
+  fromAngle,
+  rotate,
+  perpendicular,
+  lineOfSight,
+  canSee,
+  nearestCover,
+  estimateVelocity,
+  leadAim,
+  wallRepulsion,
+  obstacleRepulsion,
+  steer,
+  energyCost,
+  canUse,
+  inRange,
+  findPath,
+  nextWaypoint,
+  pathCost,
+  routeToPickup,
+  hidingSpot,
+};
+for (const helper of Object.values(botLib)) Object.freeze(helper);
+Object.freeze(botLib);
+
+export type BotLib = typeof botLib;
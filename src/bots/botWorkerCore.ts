@@ -0,0 +1,74 @@
+// Message handling shared by the browser bot worker (bot-worker.ts) and the
+// Node worker thread (node-bot-worker.ts). Each worker runs one bot; the host
+// only supplies how to post replies.
+
+import { validateCode, compileThinkFn, runThink, idleAction, createSandboxMath, snapshotMemory } from './sandbox';
+import type { ThinkFn } from './sandbox';
+import { DebugChannel } from './debugChannel';
+import { freezeNavGrid } from '../engine/NavGrid';
+import type { BotMemory, NavGrid } from '../engine/types';
+
+/** Build the handler for `{ type, data }` messages from BotRunner / NodeBotRunner */
+export function createBotWorkerHandler(post: (message: unknown) => void): (message: { type: string; data?: any }) => void {
+  let thinkFn: ThinkFn | null = null;
+  // Survives recompiles unless the swap asks for a reset; echoed back with every action
+  let memory: BotMemory = {};
+  // Seeded Math shared by every compiled version so hot swaps continue the same random stream
+  let sandboxMath: Math = Math;
+  // Collects debug.*/console.* calls of every compiled version; drained with each action
+  const debugChannel = new DebugChannel();
+  // The match's nav grid arrives once with init and is added to every tick's arena
+  let nav: Readonly<NavGrid> | null = null;
+
+  return ({ type, data }) => {
+    if (type === 'init') {
+      try {
+        const code = data.code;
+        const validationError = validateCode(code);
+        if (validationError) {
+          post({ type: 'error', error: `Init error: ${validationError}` });
+          return;
+        }
+        if (typeof data.seed === 'number') sandboxMath = createSandboxMath(data.seed);
+        thinkFn = compileThinkFn(code, sandboxMath, debugChannel);
+        memory = snapshotMemory(data.memory) ?? {};
+        nav = freezeNavGrid(data.nav);
+        post({ type: 'ready' });
+      } catch (err: any) {
+        post({ type: 'error', error: `Init error: ${err.message}` });
+      }
+    }
+
+    if (type === 'recompile') {
+      try {
+        const code = data.code;
+        const validationError = validateCode(code);
+        if (validationError) {
+          post({ type: 'recompile_error', error: validationError });
+          return;
+        }
+        const newFn = compileThinkFn(code, sandboxMath, debugChannel);
+        // Atomic swap — old thinkFn preserved on failure (we only get here on success)
+        thinkFn = newFn;
+        if (data.resetMemory) memory = {};
+        post({ type: 'recompiled' });
+      } catch (err: any) {
+        post({ type: 'recompile_error', error: `Compile error: ${err.message}` });
+      }
+    }
+
+    if (type === 'tick') {
+      if (!thinkFn) {
+        post({ type: 'action', action: idleAction(), memory });
+        return;
+      }
+
+      const { me, enemies, arena } = data;
+      const start = performance.now();
+      const result = runThink(thinkFn, me, enemies, { ...arena, nav }, memory, debugChannel);
+      const thinkMs = performance.now() - start;
+      memory = result.memory;
+      post({ type: 'action', action: result.action, memory, debug: result.debug, thinkMs, threw: result.threw });
+    }
+  };
+}
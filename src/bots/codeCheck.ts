@@ -0,0 +1,49 @@
+// As-you-type checks for hand-written think() code: the worker's DANGEROUS_PATTERNS,
+// a parse with compileThinkFn's wrapper, and whether think() is defined at all.
+// Nothing here runs the code (compileTypeScript.ts locates syntax errors).
+
+import { DANGEROUS_PATTERNS, SANDBOX_GLOBALS } from './sandbox';
+
+/** How a bot declares its entry point */
+export const THINK_DECLARATION = /\bfunction\s+think\s*\(/;
+
+export interface CodeProblem {
+  /** 1-based; null when the parser didn't say where */
+  line: number | null;
+  column: number | null;
+  message: string;
+}
+
+/** Forbidden patterns (one problem per occurrence) and a missing think() */
+export function scanCode(code: string): CodeProblem[] {
+  const problems: CodeProblem[] = [];
+  code.split('\n').forEach((text, i) => {
+    for (const pattern of DANGEROUS_PATTERNS) {
+      const global = new RegExp(pattern.source, 'g');
+      for (const match of text.matchAll(global)) {
+        problems.push({
+          line: i + 1,
+          column: match.index! + 1,
+          message: `"${match[0]}" is blocked in bot code`,
+        });
+      }
+    }
+  });
+  if (!THINK_DECLARATION.test(code)) {
+    problems.push({ line: null, column: null, message: 'Define function think(me, enemies, arena, memory)' });
+  }
+  return problems.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || (a.column ?? 0) - (b.column ?? 0));
+}
+
+/**
+ * Parse `code` the way compileThinkFn does, without calling it. Returns the
+ * SyntaxError message, or null if it parses.
+ */
+export function parseError(code: string): string | null {
+  try {
+    new Function(...SANDBOX_GLOBALS, `"use strict";\n${code}\nreturn think;`);
+    return null;
+  } catch (err: any) {
+    return `${err.name ?? 'Error'}: ${err.message}`;
+  }
+}
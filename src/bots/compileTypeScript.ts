@@ -0,0 +1,72 @@
+import type { TypeScriptResult } from './tsCompile';
+import type { CodeProblem } from './codeCheck';
+import { TYPESCRIPT_TIMEOUT_MS } from '../utils/constants';
+import TypeScriptWorker from './typescript-worker.ts?worker';
+
+interface PendingCall {
+  resolve: (result: any) => void;
+  /** What the call answers when the worker dies or stalls */
+  failed: (message: string) => unknown;
+}
+
+// One compiler worker, kept between calls: loading the compiler is the slow part
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingCall>();
+
+function failAll(message: string) {
+  worker?.terminate();
+  worker = null;
+  const waiting = [...pending.values()];
+  pending.clear();
+  for (const call of waiting) call.resolve(call.failed(message));
+}
+
+function compilerWorker(): Worker {
+  if (worker) return worker;
+  worker = new TypeScriptWorker();
+  worker.onmessage = (e: MessageEvent) => {
+    const { id, result } = e.data;
+    pending.get(id)?.resolve(result);
+    pending.delete(id);
+  };
+  worker.onerror = (err: ErrorEvent) => {
+    err.preventDefault();
+    failAll(`TypeScript compiler failed: ${err.message}`);
+  };
+  return worker;
+}
+
+function request<T>(message: { kind: 'compile' | 'locate'; source: string; sdk?: string }, failed: (message: string) => T, timeoutMs: number): Promise<T> {
+  return new Promise((resolve) => {
+    const id = nextId++;
+    const timeout = setTimeout(() => {
+      failAll(`TypeScript compiler did not answer within ${timeoutMs / 1000}s`);
+    }, timeoutMs);
+    pending.set(id, {
+      resolve: (result: T) => {
+        clearTimeout(timeout);
+        resolve(result);
+      },
+      failed,
+    });
+    compilerWorker().postMessage({ id, ...message });
+  });
+}
+
+/** Type-check `source` against the bot SDK and compile it to JavaScript, off the main thread */
+export function compileTypeScript(source: string, sdk: string, timeoutMs = TYPESCRIPT_TIMEOUT_MS): Promise<TypeScriptResult> {
+  return request(
+    { kind: 'compile', source, sdk },
+    (message): TypeScriptResult => ({ code: null, problems: [{ line: null, column: null, message }] }),
+    timeoutMs,
+  );
+}
+
+/**
+ * Where JavaScript bot code's first syntax error is, from the compiler's parser
+ * — nothing runs the code. Null when the parser can't say, or the worker failed.
+ */
+export function locateSyntaxError(code: string, timeoutMs = TYPESCRIPT_TIMEOUT_MS): Promise<CodeProblem | null> {
+  return request({ kind: 'locate', source: code }, () => null, timeoutMs);
+}
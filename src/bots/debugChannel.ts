@@ -0,0 +1,148 @@
+// Bot code's `debug` (and `console`) globals: what think() logs and draws during
+// a tick, plus any exception it throws. Capped per tick so a chatty bot can't
+// flood the runner or the battle screen. Runners take() the output after every
+// think() call and hand it to the battle screen's debug overlay and console.
+
+import type { Vec2 } from '../engine/types';
+import {
+  DEBUG_MAX_LOGS_PER_TICK, DEBUG_MAX_SHAPES_PER_TICK, DEBUG_LOG_MAX_LENGTH, DEBUG_STACK_MAX_LINES,
+} from '../utils/constants';
+
+export type DebugLevel = 'log' | 'warn' | 'error';
+
+export interface DebugLogEntry {
+  level: DebugLevel;
+  text: string;
+  /** Exceptions only — trimmed to DEBUG_STACK_MAX_LINES */
+  stack?: string;
+}
+
+/** World-space drawings; a null color means the bot's own */
+export type DebugShape =
+  | { kind: 'line'; from: Vec2; to: Vec2; color: string | null }
+  | { kind: 'circle'; center: Vec2; radius: number; color: string | null };
+
+/** Everything one think() call logged and drew */
+export interface BotDebugOutput {
+  logs: DebugLogEntry[];
+  shapes: DebugShape[];
+  /** Calls past the per-tick caps */
+  dropped: number;
+}
+
+export type DebugListener = (botId: number, output: BotDebugOutput) => void;
+
+/** `debug` as bot code sees it */
+export interface BotDebug {
+  log: (...values: unknown[]) => void;
+  line: (from: Vec2, to: Vec2, color?: string) => void;
+  circle: (center: Vec2, radius: number, color?: string) => void;
+}
+
+/** `console` as bot code sees it — everything lands in the debug console */
+export interface BotConsole {
+  log: (...values: unknown[]) => void;
+  info: (...values: unknown[]) => void;
+  debug: (...values: unknown[]) => void;
+  warn: (...values: unknown[]) => void;
+  error: (...values: unknown[]) => void;
+}
+
+const MAX_COLOR_LENGTH = 32;
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function point(p: unknown): Vec2 | null {
+  const x = Number((p as Vec2 | null)?.x);
+  const y = Number((p as Vec2 | null)?.y);
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+}
+
+function color(value: unknown): string | null {
+  return typeof value === 'string' && value ? value.slice(0, MAX_COLOR_LENGTH) : null;
+}
+
+/** Report from the runner itself (e.g. a killed worker), shaped like bot output */
+export function runnerDebugOutput(level: DebugLevel, text: string): BotDebugOutput {
+  return { logs: [{ level, text }], shapes: [], dropped: 0 };
+}
+
+export class DebugChannel {
+  /** Passed to compileThinkFn as the bot's `debug` — frozen */
+  readonly debug: BotDebug;
+  /** Passed to compileThinkFn as the bot's `console` — frozen */
+  readonly console: BotConsole;
+  private logs: DebugLogEntry[] = [];
+  private shapes: DebugShape[] = [];
+  private dropped = 0;
+
+  constructor() {
+    const log = (level: DebugLevel) => (...values: unknown[]) => this.log(level, values);
+    this.debug = Object.freeze({
+      log: log('log'),
+      line: (from: Vec2, to: Vec2, lineColor?: string) => {
+        const a = point(from);
+        const b = point(to);
+        if (a && b) this.draw({ kind: 'line', from: a, to: b, color: color(lineColor) });
+      },
+      circle: (center: Vec2, radius: number, circleColor?: string) => {
+        const c = point(center);
+        const r = Number(radius);
+        if (c && Number.isFinite(r) && r > 0) this.draw({ kind: 'circle', center: c, radius: r, color: color(circleColor) });
+      },
+    });
+    this.console = Object.freeze({
+      log: log('log'),
+      info: log('log'),
+      debug: log('log'),
+      warn: log('warn'),
+      error: log('error'),
+    });
+  }
+
+  /** Record what think() threw — never capped, it ends the call */
+  exception(err: unknown) {
+    const text = err instanceof Error ? `${err.name}: ${err.message}` : `Uncaught ${formatValue(err)}`;
+    let stack: string | undefined;
+    if (err instanceof Error && typeof err.stack === 'string') {
+      // V8 repeats "Name: message" as the stack's first line
+      const frames = err.stack.startsWith(`${text}\n`) ? err.stack.slice(text.length + 1) : err.stack;
+      stack = frames.split('\n').slice(0, DEBUG_STACK_MAX_LINES).join('\n');
+    }
+    this.logs.push({ level: 'error', text: text.slice(0, DEBUG_LOG_MAX_LENGTH), ...(stack ? { stack } : {}) });
+  }
+
+  /** Everything since the last take() */
+  take(): BotDebugOutput {
+    const output = { logs: this.logs, shapes: this.shapes, dropped: this.dropped };
+    this.logs = [];
+    this.shapes = [];
+    this.dropped = 0;
+    return output;
+  }
+
+  private log(level: DebugLevel, values: unknown[]) {
+    if (this.logs.length >= DEBUG_MAX_LOGS_PER_TICK) {
+      this.dropped++;
+      return;
+    }
+    this.logs.push({ level, text: values.map(formatValue).join(' ').slice(0, DEBUG_LOG_MAX_LENGTH) });
+  }
+
+  private draw(shape: DebugShape) {
+    if (this.shapes.length >= DEBUG_MAX_SHAPES_PER_TICK) {
+      this.dropped++;
+      return;
+    }
+    this.shapes.push(shape);
+  }
+}
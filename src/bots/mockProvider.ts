@@ -0,0 +1,126 @@
+// Offline stand-in for an LLM: answers generation, repair, evolution and thought requests from
+// templates and the preset bots, so the whole pipeline runs without network access.
+// Selected with LLM_PROVIDER=mock (or the "Mock" provider on the creation screen) and tuned
+// with the MOCK_LLM_* variables in .env. Keep it free of DOM and Node imports.
+
+import { presetCode, presetStyles } from './presets';
+import { SeededRandom } from '../utils/random';
+
+export type MockTask = 'generate' | 'evolve' | 'repair' | 'thought';
+
+/** What a request is about — real providers only see the prompt text, the mock answers from this */
+export interface MockSubject {
+  task: MockTask;
+  botName: string;
+  personality: string;
+  situation?: string;
+}
+
+/**
+ * Reply shapes. Everything but 'valid' exercises a fallback:
+ * no-markers — code without STYLE/THOUGHT/CODE headers
+ * bad-style  — STYLE that isn't JSON
+ * no-code    — STYLE or THOUGHT only
+ * syntax-error — a think() that doesn't compile
+ * empty      — nothing at all
+ */
+export const MOCK_OUTPUTS = ['valid', 'no-markers', 'bad-style', 'no-code', 'syntax-error', 'empty'] as const;
+export type MockOutput = typeof MOCK_OUTPUTS[number];
+
+export interface MockConfig {
+  /** Fixed reply shape, or 'mixed' to pick one per request */
+  output: MockOutput | 'mixed';
+  /** Time to the full reply; streamed thoughts spread it over their chunks */
+  latencyMs: number;
+  /** Fraction of requests (0-1) that fail instead of answering */
+  failureRate: number;
+  /** Same seed + same request = same reply */
+  seed: number;
+}
+
+export const DEFAULT_MOCK_CONFIG: MockConfig = {
+  output: 'valid',
+  latencyMs: 300,
+  failureRate: 0,
+  seed: 1,
+};
+
+export interface MockReply {
+  text: string;
+  /** The request should fail (HTTP 500) after the latency */
+  fail: boolean;
+  latencyMs: number;
+}
+
+/** Read MOCK_LLM_OUTPUT / _LATENCY_MS / _FAILURE_RATE / _SEED; invalid values keep the default */
+export function mockConfigFromEnv(env: Record<string, string | undefined>): MockConfig {
+  const number = (value: string | undefined, fallback: number, min: number, max: number) => {
+    const n = Number(value);
+    return value && Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+  };
+  const output = env.MOCK_LLM_OUTPUT?.trim();
+  return {
+    output: output === 'mixed' || MOCK_OUTPUTS.includes(output as MockOutput)
+      ? output as MockOutput | 'mixed'
+      : DEFAULT_MOCK_CONFIG.output,
+    latencyMs: number(env.MOCK_LLM_LATENCY_MS, DEFAULT_MOCK_CONFIG.latencyMs, 0, 60_000),
+    failureRate: number(env.MOCK_LLM_FAILURE_RATE, DEFAULT_MOCK_CONFIG.failureRate, 0, 1),
+    seed: number(env.MOCK_LLM_SEED, DEFAULT_MOCK_CONFIG.seed, 0, 0xffffffff) >>> 0,
+  };
+}
+
+const THOUGHT_LINES = [
+  (name: string) => `${name} recalculating... new plan loaded. Prepare to be outmaneuvered!`,
+  (name: string) => `Is that all you've got? ${name} has barely warmed up its servos.`,
+  (name: string) => `Sensors say trouble. ${name} says: bring it on.`,
+  (name: string) => `Patience. ${name} waits for the perfect opening.`,
+  (name: string) => `Error 404: mercy not found. ${name} is coming for you!`,
+];
+
+/** The mock's answer to one request — pure, so it can be called from tests or the API proxy */
+export function mockReply(subject: MockSubject, config: MockConfig = DEFAULT_MOCK_CONFIG): MockReply {
+  const rng = new SeededRandom(hashString(
+    `${config.seed}|${subject.task}|${subject.botName}|${subject.personality}|${subject.situation ?? ''}`,
+  ));
+  const fail = rng.next() < config.failureRate;
+  // ±25% jitter so concurrent bots don't answer in lockstep
+  const latencyMs = Math.round(config.latencyMs * (0.75 + rng.next() * 0.5));
+  const output = config.output === 'mixed' ? MOCK_OUTPUTS[rng.int(MOCK_OUTPUTS.length)] : config.output;
+
+  const presets = Object.keys(presetCode);
+  const preset = presets[rng.int(presets.length)];
+  const thought = THOUGHT_LINES[rng.int(THOUGHT_LINES.length)](subject.botName);
+
+  return { text: replyText(subject.task, output, preset, thought), fail, latencyMs };
+}
+
+function replyText(task: MockTask, output: MockOutput, preset: string, thought: string): string {
+  if (output === 'empty') return '';
+  if (task === 'thought') return thought;
+
+  const code = output === 'syntax-error'
+    ? 'function think(me, enemies, arena) {\n  const target = ;\n  return { move: { x: 0, y: 0 }, aim: target, action: null };\n}'
+    : presetCode[preset];
+  const header = task === 'generate'
+    ? `STYLE:\n${output === 'bad-style' ? "{ bodyShape: 'cube', accentColor: #ff0000, }" : JSON.stringify(presetStyles[preset])}\n\n`
+    : task === 'evolve' ? `THOUGHT:\n${thought}\n\n` : '';
+
+  switch (output) {
+    case 'no-markers':
+      return `Here is the updated bot:\n\n\`\`\`javascript\n${code}\n\`\`\`\n`;
+    case 'no-code':
+      return header || 'I could not find anything to fix.\n';
+    default:
+      return `${header}CODE:\n${code}\n`;
+  }
+}
+
+/** FNV-1a — a stable 32-bit seed from the request */
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
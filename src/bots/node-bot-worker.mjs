@@ -0,0 +1,6 @@
+// Entry point of NodeBotRunner's worker threads. Workers don't inherit tsx's
+// loader from the parent, so register it before loading the TypeScript worker.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('./node-bot-worker.ts');
@@ -0,0 +1,10 @@
+// Node worker thread for NodeBotRunner — same protocol as bot-worker.ts
+import { parentPort } from 'node:worker_threads';
+import { lockDownWorkerGlobals } from './sandbox';
+import { createBotWorkerHandler } from './botWorkerCore';
+
+// Block dangerous globals (Node's own modules stay reachable — see NodeBotRunner)
+lockDownWorkerGlobals();
+
+const port = parentPort!;
+port.on('message', createBotWorkerHandler(message => port.postMessage(message)));
@@ -36,7 +36,7 @@ export const presetStyles: Record<string, BotStyle> = {
     pupilColor: '#112211',
     aura: false,
     auraColor: '#44ff88',
-    bobSpeed: 0.6,
+    bobSpeed: 1,
     bobAmount: 0.5,
     spiky: false,
   },
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildEvolutionPrompt, buildSystemPrompt } from './prompt';
+import { ALL_ACTIONS, RULE_PRESETS } from '../engine/GameRules';
+import type { ActionName, GameRules } from '../engine/GameRules';
+
+/** Energy, cooldown, range and damage columns each action's table row must show */
+function expectedColumns(r: GameRules): Record<ActionName, string[]> {
+  const projectileRange = Math.round(r.ranged.projectileSpeed * r.ranged.projectileLifetime * 10) / 10;
+  return {
+    melee: [`${r.melee.energy}`, `${r.melee.cooldown} ticks`, `${r.melee.range}`, `${r.melee.damage}`],
+    ranged: [`${r.ranged.energy}`, `${r.ranged.cooldown} ticks`, `${projectileRange}`, `${r.ranged.damage}`],
+    special: [`${r.special.energy}`, `${r.special.cooldown} ticks`, `${r.special.range}`, `${r.special.damage}`],
+    defend: [`${r.defend.energyPerTick}/tick`, '0', 'self', '0'],
+    dash: [`${r.dash.energy}`, `${r.dash.cooldown} ticks`, 'self', '0'],
+    heal: [`${r.heal.energy}`, `${r.heal.cooldown} ticks`, 'self', '0'],
+    trap: [`${r.trap.energy}`, `${r.trap.cooldown} ticks`, 'self', `${r.trap.damage}`],
+  };
+}
+
+/** Table cells per action, read back out of the prompt's markdown table */
+function tableRows(prompt: string): Map<string, string[]> {
+  const rows = new Map<string, string[]>();
+  for (const line of prompt.split('\n')) {
+    const cells = line.split('|').slice(1, -1).map(cell => cell.trim());
+    if (cells.length === 6 && (ALL_ACTIONS as string[]).includes(cells[0])) rows.set(cells[0], cells.slice(1));
+  }
+  return rows;
+}
+
+function mechanicsNumbers(r: GameRules): string[] {
+  return [
+    `Energy regenerates ${r.bot.energyRegen} per tick, max ${r.bot.energy}. Max HP ${r.bot.hp}.`,
+    `Movement speed: ${r.bot.speed} units/tick (× ${r.bot.slowedSpeedMult} when slowed).`,
+    `Match length ${r.match.maxTicks} ticks`,
+    `Pickups: up to ${r.pickups.max} on the field, one spawn attempt every ${r.pickups.interval} ticks. Health +${r.pickups.healthAmount} HP, energy +${r.pickups.energyAmount}.`,
+    `for ${r.melee.commitTicks} (melee) / ${r.special.commitTicks} (special) ticks after use`,
+    `(${r.regen.oocDelay} ticks) without dealing or taking damage, you passively regenerate ${r.regen.oocRate} HP/tick`,
+    `running longer than ${r.cpu.hangMs} ms`,
+    `you sit out ${r.cpu.skipTicks} ticks and lose ${r.cpu.energyPenalty} energy`,
+    `AoE burst + burning (${r.burn.damage} dmg/tick for ${r.burn.duration} ticks)`,
+    `Restore ${r.heal.amount} HP (capped at ${r.bot.hp})`,
+    `${r.trap.damage} dmg + slow (${r.trap.slowDuration} ticks) on trigger. Max ${r.trap.maxPerBot} per bot`,
+  ];
+}
+
+describe('prompt numbers match the engine', () => {
+  for (const rules of RULE_PRESETS) {
+    const prompts: Array<[string, string]> = [
+      ['system prompt', buildSystemPrompt(rules)],
+      ['evolution prompt', buildEvolutionPrompt('Testbot', 'careful', rules)],
+    ];
+    for (const [label, prompt] of prompts) {
+      it(`${rules.name}: ${label} combat table`, () => {
+        const rows = tableRows(prompt);
+        const expected = expectedColumns(rules);
+        for (const action of ALL_ACTIONS) {
+          if (rules.allowedActions.includes(action)) {
+            expect(rows.get(action)?.slice(0, 4), action).toEqual(expected[action]);
+          } else {
+            expect(rows.has(action), action).toBe(false);
+          }
+        }
+      });
+
+      it(`${rules.name}: ${label} mechanics`, () => {
+        for (const text of mechanicsNumbers(rules)) {
+          // Notes for disabled actions aren't in the table
+          if (text.startsWith('AoE') && !rules.allowedActions.includes('special')) continue;
+          if (text.startsWith('Restore') && !rules.allowedActions.includes('heal')) continue;
+          if (text.includes('on trigger') && !rules.allowedActions.includes('trap')) continue;
+          expect(prompt).toContain(text);
+        }
+      });
+    }
+  }
+});
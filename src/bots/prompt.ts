@@ -1,151 +1,437 @@
-export const systemPrompt = `You are a bot AI programmer for BOTWARS ARENA, a real-time battle game. Your job is to generate a think() function that controls a bot's behavior based on a player's personality description.
+import type { ArenaState, BotAction, BotState, EnemyState, AllyState, TeamMessage, NavGrid } from '../engine/types';
+import type { ActionName, GameRules, RuleGroup, RuleFieldSpec } from '../engine/GameRules';
+import { ALL_ACTIONS, CLASSIC_RULES, RULE_FIELDS } from '../engine/GameRules';
+import type { BotLib } from './botLib';
+import { WALL_MARGIN, OBSTACLE_MARGIN } from './botLib';
+import type { BotDebug, BotConsole } from './debugChannel';
+import {
+  ARENA_SIZE, BOT_RADIUS, NAV_CELL_SIZE, TICK_RATE, MIN_BOTS, MAX_BOTS, TEAM_SIZES, TEAM_MESSAGE_MAX_LENGTH, BOT_MEMORY_MAX_SIZE,
+  DEBUG_MAX_LOGS_PER_TICK, DEBUG_MAX_SHAPES_PER_TICK,
+} from '../utils/constants';
+
+// LLM prompts
+//
+// Everything numeric in the prompts comes from the match rules or constants,
+// and the API reference is rendered from the typed field docs below — adding a
+// field to BotState/EnemyState/ArenaState/BotAction without documenting it is
+// a compile error, so the docs the model sees can't drift from the engine.
+// The same docs render the bot SDK (buildBotSdk): the ambient .d.ts that
+// TypeScript bots are checked against and the generation prompt embeds.
+
+interface FieldDoc {
+  /** TypeScript type, as written in the SDK */
+  type: string;
+  doc: string;
+  optional?: boolean;
+  /** Nested object fields — the SDK writes them out inline when `type` is 'object' */
+  fields?: Record<string, FieldDoc>;
+}
+
+/** One doc entry per field of T — `-?` makes optional fields mandatory too */
+type FieldDocs<T> = { [K in keyof T]-?: FieldDoc };
+
+function field(type: string, doc: string, fields?: Record<string, FieldDoc>): FieldDoc {
+  return { type, doc, fields };
+}
+
+function optionalField(type: string, doc: string): FieldDoc {
+  return { type, doc, optional: true };
+}
+
+function statusDocs(rules: GameRules): FieldDocs<BotState['status']> {
+  return {
+    burning: field('number', `>0 means on fire, takes ${rules.burn.damage} dmg/tick`),
+    slowed: field('number', `>0 means speed × ${rules.bot.slowedSpeedMult}`),
+    shielded: field('boolean', 'currently defending'),
+    attackCommit: field('number', `>0 means post-attack slowdown (${percent(rules.movement.commitSpeedMult)} speed)`),
+  };
+}
+
+function cooldownDocs(): FieldDocs<BotState['cooldowns']> {
+  return {
+    melee: field('number', '0 = ready, >0 = ticks until ready'),
+    ranged: field('number', ''),
+    special: field('number', ''),
+    dash: field('number', ''),
+    heal: field('number', ''),
+    trap: field('number', ''),
+  };
+}
+
+function allyDocs(rules: GameRules): FieldDocs<AllyState> {
+  return {
+    id: field('number', "teammate's bot id"),
+    hp: field('number', `0-${rules.bot.hp}`),
+    energy: field('number', `0-${rules.bot.energy}`),
+    position: field('Vec2', 'always current — teammates are never stale'),
+    facing: field('Vec2', ''),
+    distance: field('number', ''),
+    angle: field('number', 'radians'),
+    isDefending: field('boolean', ''),
+    status: field('StatusEffects', '', statusDocs(rules)),
+  };
+}
+
+function teamMessageDocs(): FieldDocs<TeamMessage> {
+  return {
+    from: field('number', "sender's bot id"),
+    text: field('string', ''),
+  };
+}
+
+function botStateDocs(rules: GameRules): FieldDocs<BotState> {
+  return {
+    hp: field('number', `0-${rules.bot.hp}, current health`),
+    energy: field('number', `0-${rules.bot.energy}, regens ${rules.bot.energyRegen}/tick`),
+    position: field('Vec2', 'current position in arena'),
+    facing: field('Vec2', 'current facing direction (unit vector)'),
+    cooldowns: field('object', '', cooldownDocs()),
+    status: field('StatusEffects', '', statusDocs(rules)),
+    tickCount: field('number', 'current game tick'),
+    allies: field('AllyState[]', 'living teammates, nearest first (always [] in free-for-all)'),
+    teamMessages: field('TeamMessage[]', 'what teammates sent last tick'),
+  };
+}
+
+function enemyStateDocs(rules: GameRules): FieldDocs<EnemyState> {
+  return {
+    id: field('number', "opponent's bot id (stable for the whole match)"),
+    hp: field('number', `0-${rules.bot.hp}`),
+    position: field('Vec2', 'LAST KNOWN position (stale when not visible!)'),
+    distance: field('number', 'distance to reported position'),
+    angle: field('number', 'angle to reported position in radians'),
+    isDefending: field('boolean', 'enemy is currently shielding'),
+    visible: field('boolean', 'true = you can see them, false = blocked by obstacle or outside your view'),
+    status: field('StatusEffects', '', statusDocs(rules)),
+  };
+}
+
+function arenaStateDocs(rules: GameRules): FieldDocs<ArenaState> {
+  return {
+    bounds: field('{ width: number; height: number }', `arena is ${ARENA_SIZE}x${ARENA_SIZE} units, centered on 0,0`),
+    obstacles: field('Array<{ position: Vec2; radius: number }>', ''),
+    pickups: field("Array<{ position: Vec2; type: 'health' | 'energy' }>", ''),
+    traps: field('Array<{ position: Vec2; ownerId: number }>', 'active traps on field'),
+    tickCount: field('number', ''),
+    maxTicks: field('number', `game ends at ${rules.match.maxTicks} ticks (${seconds(rules.match.maxTicks)} seconds)`),
+    rules: field('Readonly<GameRules>', `this match's balance ("${rules.name}") — see GameRules`),
+    nav: field('Readonly<NavGrid>', 'navigation grid, built at match start — query it with lib.findPath and friends', navDocs()),
+  };
+}
+
+function navDocs(): FieldDocs<NavGrid> {
+  return {
+    origin: field('Vec2', "the arena's (-x, -y) corner, where cell 0 starts"),
+    cellSize: field('number', `${NAV_CELL_SIZE} unit per cell side`),
+    cols: field('number', ''),
+    rows: field('number', ''),
+    costs: field('number[]', 'row-major (row * cols + col): cost per unit crossed, 1 = open flat ground, more on slopes, 0 = blocked by an obstacle or wall'),
+  };
+}
+
+/** `fault` is filled in by the runner, not by think() */
+function actionDocs(rules: GameRules): FieldDocs<Omit<BotAction, 'fault'>> {
+  return {
+    move: field('Vec2', 'movement direction (normalized, 0-1 magnitude)'),
+    aim: field('Vec2', 'facing direction for attacks'),
+    action: field('ActionName | null', `${rules.allowedActions.map(a => `'${a}'`).join(' | ') || 'nothing allowed'} | null`),
+    message: optionalField('string', `optional, max ${TEAM_MESSAGE_MAX_LENGTH} chars — teammates get it next tick in me.teamMessages`),
+  };
+}
+
+function libDocs(rules: GameRules): FieldDocs<BotLib> {
+  return {
+    vec: field('(x: number, y: number) => Vec2', ''),
+    add: field('(a: Vec2, b: Vec2) => Vec2', 'a + b'),
+    sub: field('(a: Vec2, b: Vec2) => Vec2', 'a - b'),
+    scale: field('(v: Vec2, s: number) => Vec2', 'v × s'),
+    length: field('(v: Vec2) => number', ''),
+    distance: field('(a: Vec2, b: Vec2) => number', ''),
+    normalize: field('(v: Vec2) => Vec2', 'unit vector (zero stays zero)'),
+    dot: field('(a: Vec2, b: Vec2) => number', ''),
+    direction: field('(from: Vec2, to: Vec2) => Vec2', 'unit vector from → to'),
+    fromAngle: field('(radians: number) => Vec2', 'unit vector at an angle, e.g. enemy.angle'),
+    rotate: field('(v: Vec2, radians: number) => Vec2', 'counter-clockwise'),
+    perpendicular: field('(v: Vec2) => Vec2', 'v turned 90° counter-clockwise — the strafe/circle direction'),
+    lineOfSight: field('(from: Vec2, to: Vec2, arena: ArenaState) => boolean', "no obstacle in between (the engine's own test)"),
+    canSee: field('(me: BotState, point: Vec2, arena: ArenaState) => boolean', `line of sight and inside your ${rules.bot.fov}° vision cone — what makes an enemy visible`),
+    nearestCover: field('(me: BotState, threat: Vec2, arena: ArenaState) => Vec2 | null', 'closest spot an obstacle hides from threat, null if none'),
+    estimateVelocity: field('(previous: Vec2, current: Vec2, ticks?: number) => Vec2', 'units/tick from two sightings `ticks` apart (default 1) — keep the last one in memory'),
+    leadAim: field('(from: Vec2, target: Vec2, velocity: Vec2, arena: ArenaState) => Vec2', `aim that meets a target moving at velocity with a ranged shot (${rules.ranged.projectileSpeed} units/tick)`),
+    wallRepulsion: field('(position: Vec2, arena: ArenaState, margin?: number) => Vec2', `away from walls within margin (default ${WALL_MARGIN}), up to 1 per axis`),
+    obstacleRepulsion: field('(position: Vec2, arena: ArenaState, margin?: number) => Vec2', `away from obstacle edges within margin (default ${OBSTACLE_MARGIN})`),
+    steer: field('(move: Vec2, position: Vec2, arena: ArenaState) => Vec2', "move bent away from nearby walls and obstacles — for moves that don't follow a path"),
+    energyCost: field('(action: ActionName, arena: ArenaState) => number', 'energy the action costs (defend: per tick)'),
+    canUse: field('(me: BotState, action: ActionName, arena: ArenaState) => boolean', 'allowed this match, off cooldown and affordable'),
+    inRange: field("(me: BotState, target: Vec2, action: 'melee' | 'ranged' | 'special', arena: ArenaState) => boolean", `within reach: melee ${rules.melee.range}, special ${rules.special.range}, ranged ${projectileRange(rules)}`),
+    findPath: field('(from: Vec2, to: Vec2, arena: ArenaState) => Vec2[] | null', 'waypoints around obstacles, walls and steep slopes, ending at to (or the nearest spot you can stand on); null if cut off'),
+    nextWaypoint: field('(from: Vec2, to: Vec2, arena: ArenaState) => Vec2', 'where to head now on the way to to — move toward it instead of straight at to'),
+    pathCost: field('(from: Vec2, to: Vec2, arena: ArenaState) => number', 'cost of the cheapest route (distance, slopes cost extra); Infinity if cut off'),
+    routeToPickup: field("(me: BotState, arena: ArenaState, type?: 'health' | 'energy') => { pickup: { position: Vec2; type: 'health' | 'energy' }; path: Vec2[]; cost: number } | null", 'the pickup with the cheapest route, and that route; null if none'),
+    hidingSpot: field('(me: BotState, threat: Vec2, arena: ArenaState) => Vec2 | null', 'cheapest spot to reach that threat has no line of sight to; null if none'),
+  };
+}
+
+function debugDocs(): FieldDocs<BotDebug> {
+  return {
+    log: field('(...values: unknown[]) => void', `a line in your bot's debug console (max ${DEBUG_MAX_LOGS_PER_TICK} per tick)`),
+    line: field('(from: Vec2, to: Vec2, color?: string) => void', `drawn on the arena for this tick (max ${DEBUG_MAX_SHAPES_PER_TICK} shapes per tick); color is any CSS color, your bot's by default`),
+    circle: field('(center: Vec2, radius: number, color?: string) => void', ''),
+  };
+}
+
+function consoleDocs(): FieldDocs<BotConsole> {
+  return {
+    log: field('(...values: unknown[]) => void', 'same as debug.log'),
+    info: field('(...values: unknown[]) => void', ''),
+    debug: field('(...values: unknown[]) => void', ''),
+    warn: field('(...values: unknown[]) => void', 'highlighted as a warning'),
+    error: field('(...values: unknown[]) => void', 'highlighted as an error'),
+  };
+}
+
+const MEMORY_DOC = `plain object that persists between ticks and across code evolutions — mutate it to remember things (e.g. memory.lastSeen = enemies[0]?.position). JSON data only, max ${BOT_MEMORY_MAX_SIZE} characters; changes that break either limit are dropped`;
+
+function gameRulesDocs(rules: GameRules): FieldDocs<GameRules> {
+  // RULE_FIELDS is typed to cover every numeric rule, so only name and allowedActions are left to add
+  const groups = (Object.keys(RULE_FIELDS) as RuleGroup[]).map((group) => {
+    const values: Record<string, number> = { ...rules[group] };
+    const specs: Record<string, RuleFieldSpec> = RULE_FIELDS[group];
+    const fields = Object.fromEntries(
+      Object.entries(specs).map(([key, spec]) => [key, field('number', `${spec.label}: ${values[key]}`)]),
+    );
+    return [group, field('object', '', fields)];
+  });
+  return {
+    name: field('string', `rule set name ("${rules.name}")`),
+    ...Object.fromEntries(groups),
+    allowedActions: field('ActionName[]', `actions usable this match: ${rules.allowedActions.join(', ') || 'none'} — others are ignored like null`),
+  } as FieldDocs<GameRules>;
+}
+
+/** `key: type;` members with their docs as JSDoc, nested objects written out inline */
+function renderMembers(docs: Record<string, FieldDoc>, indent: string): string[] {
+  const lines: string[] = [];
+  for (const [key, f] of Object.entries(docs)) {
+    if (f.doc) lines.push(`${indent}/** ${f.doc} */`);
+    const name = `${indent}${key}${f.optional ? '?' : ''}`;
+    if (f.fields && f.type === 'object') {
+      lines.push(`${name}: {`, ...renderMembers(f.fields, indent + '  '), `${indent}};`);
+    } else {
+      lines.push(`${name}: ${f.type};`);
+    }
+  }
+  return lines;
+}
+
+function renderInterface(name: string, doc: string, docs: Record<string, FieldDoc>): string {
+  return [`/** ${doc} */`, `interface ${name} {`, ...renderMembers(docs, '  '), '}'].join('\n');
+}
+
+/**
+ * The bot SDK: ambient typings for everything think() receives and returns,
+ * documented with `rules`' numbers. TypeScript bots are checked against it.
+ */
+export function buildBotSdk(rules: GameRules): string {
+  return `// BOTWARS ARENA bot SDK — rule set: ${rules.name}
+// Ambient typings for think(): nothing to import, every name below is global.
+// Numbers in the docs are this rule set's; read them from arena.rules at runtime.
+
+/** Arena coordinates, or a direction */
+interface Vec2 {
+  x: number;
+  y: number;
+}
+
+type ActionName = ${ALL_ACTIONS.map(a => `'${a}'`).join(' | ')};
+
+${renderInterface('StatusEffects', "A bot's status effects — yours, a teammate's or an enemy's", statusDocs(rules))}
+
+${renderInterface('BotState', '`me`: your own bot', botStateDocs(rules))}
+
+${renderInterface('AllyState', 'A living teammate', allyDocs(rules))}
+
+${renderInterface('TeamMessage', 'A message a teammate sent last tick', teamMessageDocs())}
+
+${renderInterface('EnemyState', 'An opponent that is still standing', enemyStateDocs(rules))}
+
+${renderInterface('GameRules', "This match's balance", gameRulesDocs(rules))}
+
+${renderInterface('NavGrid', 'The arena cut into square cells, for path queries', navDocs())}
+
+${renderInterface('ArenaState', '`arena`: the battlefield', arenaStateDocs(rules))}
+
+${renderInterface('BotAction', "think()'s return value", actionDocs(rules))}
+
+/**
+ * \`memory\`: ${MEMORY_DOC}.
+ * Declare the keys you use by merging, e.g. \`interface BotMemory { lastSeen?: Vec2 }\`.
+ */
+interface BotMemory {
+  [key: string]: any;
+}
+
+${renderInterface('BotLib', '`lib`: frozen helper library, shared by every bot', libDocs(rules))}
+
+${renderInterface('BotDebug', "`debug`: what you log and draw shows on the battle screen's debug overlay, along with anything think() throws", debugDocs())}
+declare const debug: BotDebug;
+
+${renderInterface('BotConsole', '`console`: the same debug console', consoleDocs())}
+declare const console: BotConsole;
+
+/**
+ * The function every bot defines — \`function think(me, enemies, arena, memory, lib)\` — called once per tick.
+ * \`enemies\` lists living opponents only, nearest first: enemies[0] is the closest threat.
+ */
+type ThinkFunction = (me: BotState, enemies: EnemyState[], arena: ArenaState, memory: BotMemory, lib: BotLib) => BotAction;
+`;
+}
+
+/** `{ a, b: {c, d} }` — the compact form used in the evolution prompt */
+function inlineKeys(docs: Record<string, FieldDoc>): string {
+  const parts = Object.entries(docs).map(([key, f]) => {
+    if (f.fields) return `${key}: ${inlineKeys(f.fields)}`;
+    return f.optional ? `${key}?` : key;
+  });
+  return `{ ${parts.join(', ')} }`;
+}
+
+function percent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+function seconds(ticks: number): string {
+  return String(Math.round((ticks / TICK_RATE) * 10) / 10);
+}
+
+function projectileRange(rules: GameRules): number {
+  return Math.round(rules.ranged.projectileSpeed * rules.ranged.projectileLifetime * 10) / 10;
+}
+
+function combatTable(rules: GameRules): string {
+  const r = rules;
+  const rows: Record<ActionName, string[]> = {
+    melee: [`${r.melee.energy}`, `${r.melee.cooldown} ticks`, `${r.melee.range}`, `${r.melee.damage}`, 'Arc attack in facing direction, hits everyone in the arc'],
+    ranged: [`${r.ranged.energy}`, `${r.ranged.cooldown} ticks`, `${projectileRange(r)}`, `${r.ranged.damage}`, `Projectile in facing direction, ${r.ranged.projectileSpeed} units/tick`],
+    special: [`${r.special.energy}`, `${r.special.cooldown} ticks`, `${r.special.range}`, `${r.special.damage}`, `AoE burst + burning (${r.burn.damage} dmg/tick for ${r.burn.duration} ticks)`],
+    defend: [`${r.defend.energyPerTick}/tick`, '0', 'self', '0', `${percent(1 - r.defend.damageTaken)} damage reduction while active`],
+    dash: [`${r.dash.energy}`, `${r.dash.cooldown} ticks`, 'self', '0', `Instant ${r.dash.distance}-unit burst in facing direction`],
+    heal: [`${r.heal.energy}`, `${r.heal.cooldown} ticks`, 'self', '0', `Restore ${r.heal.amount} HP (capped at ${r.bot.hp})`],
+    trap: [`${r.trap.energy}`, `${r.trap.cooldown} ticks`, 'self', `${r.trap.damage}`, `Mine at your position. ${r.trap.damage} dmg + slow (${r.trap.slowDuration} ticks) on trigger. Max ${r.trap.maxPerBot} per bot`],
+  };
+
+  const lines = [
+    '| Action  | Energy | Cooldown | Range | Damage | Notes |',
+    '|---------|--------|----------|-------|--------|-------|',
+  ];
+  for (const action of rules.allowedActions) {
+    lines.push(`| ${action.padEnd(7)} | ${rows[action].join(' | ')} |`);
+  }
+  const disabled = ALL_ACTIONS.filter(a => !rules.allowedActions.includes(a));
+  if (disabled.length) {
+    lines.push('', `DISABLED in this match (ignored like null): ${disabled.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function mechanics(rules: GameRules): string[] {
+  const r = rules;
+  return [
+    `Energy regenerates ${r.bot.energyRegen} per tick, max ${r.bot.energy}. Max HP ${r.bot.hp}.`,
+    'Simultaneous turns: every bot decides from the same snapshot, then all bots move, then dashes resolve, then defend/heal, then attacks — a melee swing or special is judged against where the target ended up this tick. If the last bots standing are knocked out on the same tick, the match is a draw.',
+    `Movement speed: ${r.bot.speed} units/tick (× ${r.bot.slowedSpeedMult} when slowed). Bot radius: ${BOT_RADIUS}.`,
+    `Arena is ${ARENA_SIZE}x${ARENA_SIZE} with hard walls. Match length ${r.match.maxTicks} ticks at ${TICK_RATE} ticks/second.`,
+    `Pickups: up to ${r.pickups.max} on the field, one spawn attempt every ${r.pickups.interval} ticks. Health +${r.pickups.healthAmount} HP, energy +${r.pickups.energyAmount}.`,
+    `Free-for-all: matches can have ${MIN_BOTS}-${MAX_BOTS} bots. \`enemies\` only lists opponents still standing, sorted nearest first, so \`enemies[0]\` is the closest threat. Last bot standing wins.`,
+    `Team battles (${TEAM_SIZES.map(n => `${n}v${n}`).join(', ')}): \`enemies\` holds only the other team, \`me.allies\` your teammates. Use \`message\` to coordinate, e.g. \`message: 'focus ' + enemies[0].id\` and read teammates' calls from \`me.teamMessages\`. Friendly fire for projectiles, specials and traps is a match setting (off by default). Last team standing wins; at the time limit the team with the most total HP wins.`,
+    'Line of sight: When `visible` is false, the enemy position is their LAST KNOWN location — they may have moved. Use obstacles to break line of sight and reposition.',
+    `Field of view: Vision is a ${r.bot.fov}° cone in the \`facing\` direction. Your \`aim\` controls where you look — if you aim away from the enemy, you lose sight. To find a hidden enemy, aim toward where you think they are.`,
+    `Attack commitment: melee and special slow you to ${percent(r.movement.commitSpeedMult)} speed for ${r.melee.commitTicks} (melee) / ${r.special.commitTicks} (special) ticks after use. You're vulnerable after swinging. \`status.attackCommit\` > 0 means currently committed.`,
+    `Out-of-combat regen: after ${seconds(r.regen.oocDelay)} seconds (${r.regen.oocDelay} ticks) without dealing or taking damage, you passively regenerate ${r.regen.oocRate} HP/tick. Retreat behind cover to heal up.`,
+    `CPU limit: a think() call running longer than ${r.cpu.hangMs} ms gets its worker killed and restarted — you sit out ${r.cpu.skipTicks} ticks and lose ${r.cpu.energyPenalty} energy${r.cpu.forfeitStrikes > 0 ? `, and forfeit the match after ${r.cpu.forfeitStrikes} hangs` : ''}. Keep loops bounded.`,
+    `Terrain: slopes slow climbing down to ${percent(0.4)} speed and slopes too steep to climb stop you almost dead (${percent(0.1)}); obstacles are solid. Head for \`lib.nextWaypoint(me.position, target, arena)\` instead of straight at a target and you go around both.`,
+    `Momentum: moving consistently in the same direction builds speed up to +${percent(r.movement.momentumMaxBonus)} bonus. Sharp direction changes reset it.`,
+    `WALL AWARENESS: Never retreat straight backward — you'll get cornered. When near a wall, slide along it or retreat at an angle. \`lib.steer(move, me.position, arena)\` blends in wall repulsion (within ${WALL_MARGIN} units) and obstacle repulsion for you.`,
+    `Debugging: \`debug.log(...)\`, \`debug.line(from, to, color)\` and \`debug.circle(center, radius, color)\` (and \`console.log\`) show on the battle screen's debug overlay, up to ${DEBUG_MAX_LOGS_PER_TICK} logs and ${DEBUG_MAX_SHAPES_PER_TICK} shapes per tick. If think() throws, the error and its stack show there and you stand idle that tick.`,
+    'Read costs and ranges from `arena.rules` (e.g. `me.energy >= arena.rules.ranged.energy`) or check them with `lib.canUse` / `lib.inRange` instead of hard-coding them.',
+  ];
+}
+
+export function buildSystemPrompt(rules: GameRules): string {
+  return `You are a bot AI programmer for BOTWARS ARENA, a real-time battle game. Your job is to generate a think() function that controls a bot's behavior based on a player's personality description.
 
 ## Bot API
 
-The think function receives the bot's state, enemy states, and arena info, and returns an action:
+The think function receives the bot's state, enemy states, and arena info, and returns an action. Its fifth argument \`lib\` is a helper library (BotLib below): vector math, line of sight, cover, projectile lead, wall/obstacle steering, readiness checks and pathfinding. Use it instead of re-implementing them, and spend your code on strategy. These are the exact typings of everything think() sees (the bot SDK):
 
 \`\`\`typescript
-function think(me: BotState, enemies: EnemyState[], arena: ArenaState): BotAction
-
-// me (your bot's state):
-// {
-//   hp: number,          // 0-100, current health
-//   energy: number,      // 0-100, regens 1/tick
-//   position: { x, y },  // current position in arena
-//   facing: { x, y },    // current facing direction (unit vector)
-//   cooldowns: {
-//     melee: number,      // 0 = ready, >0 = ticks until ready
-//     ranged: number,
-//     special: number,
-//     dash: number,
-//     heal: number,
-//     trap: number,
-//   },
-//   status: {
-//     burning: number,    // >0 means on fire, takes 1 dmg/tick
-//     slowed: number,     // >0 means half speed
-//     shielded: boolean,  // currently defending
-//     attackCommit: number, // >0 means post-attack slowdown (15% speed)
-//   },
-//   tickCount: number,    // current game tick
-// }
-
-// enemies (array of enemy info):
-// [{
-//   hp: number,
-//   position: { x, y },     // LAST KNOWN position (stale when not visible!)
-//   distance: number,       // distance to reported position
-//   angle: number,          // angle to reported position in radians
-//   isDefending: boolean,   // enemy is currently shielding
-//   visible: boolean,       // true = you can see them, false = blocked by obstacle
-//   status: { burning, slowed, shielded, attackCommit },
-// }]
-
-// arena:
-// {
-//   bounds: { width: 40, height: 40 },  // arena is 40x40 units
-//   obstacles: [{ position: { x, y }, radius: number }],
-//   pickups: [{ position: { x, y }, type: 'health' | 'energy' }],
-//   traps: [{ position: { x, y }, ownerId: number }],  // active traps on field
-//   tickCount: number,
-//   maxTicks: 2400,  // game ends at 2400 ticks (120 seconds)
-// }
-
-// Return value:
-// {
-//   move: { x, y },   // movement direction (normalized, 0-1 magnitude)
-//   aim: { x, y },    // facing direction for attacks
-//   action: string | null  // 'melee' | 'ranged' | 'special' | 'defend' | 'dash' | 'heal' | 'trap' | null
-// }
-\`\`\`
+function think(me: BotState, enemies: EnemyState[], arena: ArenaState, memory: BotMemory, lib: BotLib): BotAction
 
-## Combat Actions
+${buildBotSdk(rules)}\`\`\`
 
-| Action  | Energy | Cooldown    | Range | Damage | Notes |
-|---------|--------|-------------|-------|--------|-------|
-| melee   | 12     | 10 ticks    | 2.0   | 9      | Arc attack in facing direction |
-| ranged  | 14     | 15 ticks    | 20.0  | 8      | Fires projectile in facing direction |
-| special | 40     | 50 ticks    | 8.0   | 12     | AoE burst + inflicts burning (1 dmg/tick for 20 ticks) |
-| defend  | 3/tick | 0           | self  | 0      | 65% damage reduction while active |
-| dash    | 15     | 12 ticks    | self  | 0      | Instant 5-unit burst in facing direction |
-| heal    | 30     | 40 ticks    | self  | 0      | Restore 15 HP (capped at max) |
-| trap    | 20     | 25 ticks    | self  | 10     | Place mine at position. 10 dmg + slow on trigger. Max 2 per bot |
+## Combat Actions (rule set: ${rules.name})
+
+${combatTable(rules)}
 
 Key mechanics:
-- Energy regenerates 1 per tick
-- Movement speed: 0.3 units/tick (halved when slowed)
-- Bot radius: 1.0 unit
-- Arena is 40x40 with hard walls
-- Health/energy pickups spawn periodically
-- Line of sight: When \`visible\` is false, the enemy position is their LAST KNOWN location — they may have moved. Use obstacles to break line of sight and reposition.
-- Field of view: Vision is a ~160° cone in the \`facing\` direction. Your \`aim\` controls where you look — if you aim away from the enemy, you lose sight. To find a hidden enemy, aim toward where you think they are.
-- Attack commitment: melee and special attacks slow you to ~15% speed for a few ticks after use. Time your attacks carefully — you're vulnerable after swinging. \`status.attackCommit\` > 0 means currently committed.
-- Out-of-combat regen: after 2 seconds (40 ticks) without dealing or taking damage, you passively regenerate 2 HP/tick. Retreat behind cover to heal up.
-- Momentum: moving consistently in the same direction builds speed up to +50% bonus. Sharp direction changes reset it. Use momentum to chase, flee, or reposition quickly.
-- WALL AWARENESS: The arena has hard walls. Never retreat straight backward — you'll get cornered. When near a wall, slide along it or retreat at an angle. Check your position vs arena bounds and blend in a wall-repulsion vector when within ~5 units of a wall edge.
+${mechanics(rules).map(m => `- ${m}`).join('\n')}
 
 ## Examples
 
 Aggressive melee fighter:
 \`\`\`javascript
-function think(me, enemies, arena) {
+function think(me, enemies, arena, memory, lib) {
   const enemy = enemies[0];
-  const dx = enemy.position.x - me.position.x;
-  const dy = enemy.position.y - me.position.y;
+  const toward = lib.direction(me.position, enemy.position);
+  // Walk the path around rocks and steep slopes rather than straight at the enemy
+  const waypoint = lib.nextWaypoint(me.position, enemy.position, arena);
   return {
-    move: { x: dx, y: dy },
-    aim: { x: dx, y: dy },
-    action: enemy.distance < 2 && me.cooldowns.melee === 0 ? 'melee' : null
+    move: lib.direction(me.position, waypoint),
+    aim: toward,
+    action: lib.inRange(me, enemy.position, 'melee', arena) && lib.canUse(me, 'melee', arena) ? 'melee' : null
   };
 }
 \`\`\`
 
-Kiting ranged attacker (with wall avoidance):
+Kiting ranged attacker (leads its shots, never cornered):
 \`\`\`javascript
-function think(me, enemies, arena) {
+function think(me, enemies, arena, memory, lib) {
   const enemy = enemies[0];
-  const dx = enemy.position.x - me.position.x;
-  const dy = enemy.position.y - me.position.y;
-  // Wall avoidance — push away from nearby walls
-  const half = arena.bounds.width / 2;
-  const wm = 5;
-  let wx = 0, wy = 0;
-  if (me.position.x > half - wm) wx = -(me.position.x - (half - wm)) / wm;
-  if (me.position.x < -half + wm) wx = (-half + wm - me.position.x) / wm;
-  if (me.position.y > half - wm) wy = -(me.position.y - (half - wm)) / wm;
-  if (me.position.y < -half + wm) wy = (-half + wm - me.position.y) / wm;
-  // Retreat blends wall avoidance to avoid corners
-  const move = enemy.distance < 8
-    ? { x: -dx + wx * 3, y: -dy + wy * 3 }
-    : { x: dy + wx, y: -dx + wy };
+  const toward = lib.direction(me.position, enemy.position);
+  // Track the enemy between sightings to lead shots
+  const velocity = enemy.visible && memory.lastSeen
+    ? lib.estimateVelocity(memory.lastSeen, enemy.position)
+    : { x: 0, y: 0 };
+  memory.lastSeen = enemy.visible ? enemy.position : null;
+  // Back off when close, otherwise circle — steer() keeps us off walls and obstacles
+  const move = enemy.distance < 8 ? lib.scale(toward, -1) : lib.perpendicular(toward);
   return {
-    move,
-    aim: { x: dx, y: dy },
-    action: me.cooldowns.ranged === 0 && me.energy >= 14 ? 'ranged' : null
+    move: lib.steer(move, me.position, arena),
+    aim: lib.leadAim(me.position, enemy.position, velocity, arena),
+    action: enemy.visible && lib.canUse(me, 'ranged', arena) ? 'ranged' : null
   };
 }
 \`\`\`
 
-Tactical trapper (uses dash, heal, and traps):
+Tactical trapper (uses dash, heal, traps, cover and pickups):
 \`\`\`javascript
-function think(me, enemies, arena) {
+function think(me, enemies, arena, memory, lib) {
   const enemy = enemies[0];
-  const dx = enemy.position.x - me.position.x;
-  const dy = enemy.position.y - me.position.y;
-  // Wall avoidance
-  const half = arena.bounds.width / 2;
-  const wm = 5;
-  let wx = 0, wy = 0;
-  if (me.position.x > half - wm) wx = -(me.position.x - (half - wm)) / wm;
-  if (me.position.x < -half + wm) wx = (-half + wm - me.position.x) / wm;
-  if (me.position.y > half - wm) wy = -(me.position.y - (half - wm)) / wm;
-  if (me.position.y < -half + wm) wy = (-half + wm - me.position.y) / wm;
+  const toward = lib.direction(me.position, enemy.position);
+  const hurt = me.hp < arena.rules.bot.hp * 0.4;
+  // Hurt: grab a health pickup if one is close, else break line of sight
+  const health = hurt ? lib.routeToPickup(me, arena, 'health') : null;
+  const goal = health && health.cost < 10 ? health.pickup.position
+    : hurt ? lib.hidingSpot(me, enemy.position, arena) : null;
   let action = null;
-  if (me.hp < 40 && me.cooldowns.heal === 0 && me.energy >= 30) action = 'heal';
-  else if (enemy.distance < 3 && me.cooldowns.dash === 0 && me.energy >= 15) action = 'dash';
-  else if (enemy.distance < 6 && me.cooldowns.trap === 0 && me.energy >= 20) action = 'trap';
-  else if (me.cooldowns.ranged === 0 && me.energy >= 14) action = 'ranged';
-  return { move: { x: -dx + wx * 3, y: -dy + wy * 3 }, aim: { x: dx, y: dy }, action };
+  if (hurt && lib.canUse(me, 'heal', arena)) action = 'heal';
+  else if (enemy.distance < 3 && lib.canUse(me, 'dash', arena)) action = 'dash';
+  else if (enemy.distance < 6 && lib.canUse(me, 'trap', arena)) action = 'trap';
+  else if (lib.canUse(me, 'ranged', arena)) action = 'ranged';
+  const move = goal
+    ? lib.direction(me.position, lib.nextWaypoint(me.position, goal, arena))
+    : lib.steer(lib.scale(toward, -1), me.position, arena);
+  return { move, aim: toward, action };
 }
 \`\`\`
 
@@ -191,11 +477,15 @@ STYLE:
 {...BotStyle JSON on a single line...}
 
 CODE:
-function think(me, enemies, arena) { ... }
+function think(me, enemies, arena, memory, lib) { ... }
+
+The STYLE must be valid JSON on a single line. The CODE must be a valid JavaScript function (no TypeScript annotations) that is type-correct against the SDK above: only use fields that exist, and return a complete BotAction. Always check cooldowns and energy before using actions. Always provide a move and aim vector.`;
+}
 
-The STYLE must be valid JSON on a single line. The CODE must be a valid JavaScript function (no TypeScript). Always check cooldowns and energy before using actions. Always provide a move and aim vector.`;
+/** Generation prompt for the Classic rules */
+export const systemPrompt = buildSystemPrompt(CLASSIC_RULES);
 
-export function buildEvolutionPrompt(botName: string, personality: string): string {
+export function buildEvolutionPrompt(botName: string, personality: string, rules: GameRules): string {
   return `You are ${botName}, a battle robot in BOTWARS ARENA. Your personality: "${personality}".
 
 You are reviewing your current think() function mid-battle and rewriting it to adapt to the situation.
@@ -203,37 +493,31 @@ You are reviewing your current think() function mid-battle and rewriting it to a
 ## Bot API Reference
 
 \`\`\`typescript
-function think(me: BotState, enemies: EnemyState[], arena: ArenaState): BotAction
+function think(me: BotState, enemies: EnemyState[], arena: ArenaState, memory: object, lib: BotLib): BotAction
 
-// me: { hp, energy, position: {x,y}, facing: {x,y}, cooldowns: {melee, ranged, special, dash, heal, trap}, status: {burning, slowed, shielded, attackCommit}, tickCount }
-// enemies: [{ hp, position: {x,y}, distance, angle, isDefending, visible, status: {burning, slowed, shielded, attackCommit} }]
+// me: ${inlineKeys(botStateDocs(rules))}
+//   hp 0-${rules.bot.hp}, energy 0-${rules.bot.energy}
+//   allies: teammates ([] in free-for-all); teamMessages: sent by teammates last tick
+// enemies: [${inlineKeys(enemyStateDocs(rules))}]
+//   living opponents only (${MIN_BOTS}-${MAX_BOTS} bot free-for-all), nearest first — enemies[0] is the closest
 //   visible: true = you can see them. false = position is LAST KNOWN (stale — they may have moved!)
-// arena: { bounds: {width:40, height:40}, obstacles: [{position, radius}], pickups: [{position, type}], traps: [{position, ownerId}], tickCount, maxTicks: 2400 }
-// Return: { move: {x,y}, aim: {x,y}, action: 'melee'|'ranged'|'special'|'defend'|'dash'|'heal'|'trap'|null }
+// arena: ${inlineKeys(arenaStateDocs(rules))}
+//   bounds ${ARENA_SIZE}x${ARENA_SIZE}, maxTicks ${rules.match.maxTicks}, rules = this match's balance (same numbers as below)
+// memory: ${MEMORY_DOC}
+// lib: ${inlineKeys(libDocs(rules))}
+//   helpers, e.g. lib.steer(move, me.position, arena) avoids walls/obstacles, lib.canUse(me, 'ranged', arena), lib.leadAim(me.position, e.position, velocity, arena), lib.nextWaypoint(me.position, target, arena) paths around obstacles and steep slopes
+// Return: ${inlineKeys(actionDocs(rules))}
+//   action: ${actionDocs(rules).action.doc}; message: ≤${TEAM_MESSAGE_MAX_LENGTH} chars, to teammates
 \`\`\`
 
-## Combat Reference
-| Action  | Energy | Cooldown | Range | Damage | Notes |
-|---------|--------|----------|-------|--------|-------|
-| melee   | 12     | 10 ticks | 2.0   | 9      | Arc attack |
-| ranged  | 14     | 15 ticks | 20.0  | 8      | Projectile |
-| special | 40     | 50 ticks | 8.0   | 12     | AoE + burning (1 dmg/tick, 20 ticks) |
-| defend  | 3/tick | 0        | self  | 0      | 65% damage reduction |
-| dash    | 15     | 12 ticks | self  | 0      | Instant 5-unit burst in facing direction |
-| heal    | 30     | 40 ticks | self  | 0      | Restore 15 HP (capped at max) |
-| trap    | 20     | 25 ticks | self  | 10     | Place mine. 10 dmg + slow. Max 2 per bot |
-
-Energy regens 1/tick. Speed: 0.3 units/tick (halved when slowed). Bot radius: 1.0.
-Line of sight: When \`visible\` is false, enemy position is their LAST KNOWN location. Use obstacles to hide and reposition.
-Field of view: Vision is a ~160° cone in your \`facing\` direction. Your \`aim\` controls where you look — aim away and you lose sight. To reacquire a hidden enemy, aim toward their likely position.
-Attack commitment: melee/special slow you to ~15% speed for a few ticks after use. Time attacks carefully. \`status.attackCommit\` > 0 = committed.
-Out-of-combat regen: 2 seconds without combat → passively regenerate 2 HP/tick. Retreat behind cover to heal.
-Momentum: consistent direction builds speed up to +50% bonus. Direction changes reset it.
-WALL AWARENESS: Never retreat straight backward — you'll get cornered. Blend a wall-repulsion vector when within ~5 units of arena edges.
+## Combat Reference (rule set: ${rules.name})
+${combatTable(rules)}
+
+${mechanics(rules).join('\n')}
 
 ## Instructions
 
-You will receive your CURRENT think() code and the battle situation. Analyze what's working and what isn't, then write an IMPROVED version that adapts to the situation.
+You will receive your CURRENT think() code, your current \`memory\` and the battle situation. Analyze what's working and what isn't, then write an IMPROVED version that adapts to the situation. Your memory carries over to the new code — reuse what you've learned. If the new code stores memory in an incompatible shape, put a line \`RESET_MEMORY\` right before CODE: to start from \`{}\`.
 
 Also react to the situation IN CHARACTER as ${botName}. Be dramatic, funny, or intense. Keep your reaction to 1-2 sentences (max 60 words).
 
@@ -243,7 +527,16 @@ THOUGHT:
 <your in-character reaction to the battle situation>
 
 CODE:
-function think(me, enemies, arena) { ... }
+function think(me, enemies, arena, memory, lib) { ... }
 
 The CODE must be a valid JavaScript function. Always check cooldowns and energy before using actions. Always provide move and aim vectors. You may keep the old code if it's working well — just add the THOUGHT.`;
 }
+
+/** Commentary-only prompt: the bot reacts to the battle but its code never changes */
+export function buildThoughtPrompt(botName: string, personality: string): string {
+  return `You are ${botName}, a battle robot in BOTWARS ARENA. Your personality: "${personality}".
+
+You are fighting a live battle and an audience is watching your thoughts appear in a speech bubble above your head. You will receive the current battle situation.
+
+React to it IN CHARACTER as ${botName}. Be dramatic, funny, or intense. Reply with 1-2 short sentences (max 40 words) and nothing else — no quotes, no labels, no code.`;
+}
@@ -0,0 +1,86 @@
+// Parsing of LLM replies (STYLE / THOUGHT / RESET_MEMORY / CODE sections) and the evolution
+// request text. Shared by the API proxy in vite.config.ts and the mock provider; keep it free
+// of DOM and Node imports.
+
+import type { BotStyle } from '../engine/types';
+
+export function parseStyleAndCode(text: string): { code: string; style: BotStyle | null } {
+  let code = text;
+  let style: BotStyle | null = null;
+
+  const codeSplit = text.split(/^CODE:\s*$/m);
+  if (codeSplit.length >= 2) {
+    const beforeCode = codeSplit[0];
+    const afterCode = codeSplit.slice(1).join('CODE:');
+
+    // Extract function from CODE section
+    const fnMatch = afterCode.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
+    code = fnMatch ? fnMatch[0] : afterCode.trim();
+
+    // Extract STYLE JSON from before CODE
+    const styleMatch = beforeCode.match(/STYLE:\s*\n?\s*(\{[\s\S]*?\})\s*$/m);
+    if (styleMatch) {
+      try {
+        style = JSON.parse(styleMatch[1]);
+      } catch {
+        // style parse failed, use default
+      }
+    }
+  } else {
+    // Fallback: no CODE: marker, extract function directly
+    const fnMatch = text.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
+    code = fnMatch ? fnMatch[0] : text;
+  }
+
+  return { code, style };
+}
+
+/** User message for an evolution request: current code, what the bot remembers, and the situation */
+export function evolutionInput(currentCode: string, memory: unknown, situation: string): string {
+  return `Current think() code:\n\`\`\`javascript\n${currentCode}\n\`\`\`\n\n`
+    + `Current memory:\n\`\`\`json\n${JSON.stringify(memory ?? {}, null, 2)}\n\`\`\`\n\n`
+    + `Battle situation: ${situation}`;
+}
+
+/** User message for a repair request: the code that failed the smoke test and why */
+export function repairInput(name: string, personality: string, code: string, error: string): string {
+  return `Bot name: "${name}"\nPersonality/strategy: "${personality}"\n\n`
+    + `Your think() function failed automated testing:\n${error}\n\n`
+    + `Current code:\n\`\`\`javascript\n${code}\n\`\`\`\n\n`
+    + 'Fix every problem while keeping the strategy. Reply with CODE: followed by the complete corrected think() function — no STYLE.';
+}
+
+export function parseEvolutionResponse(text: string): { code: string | null; thought: string; resetMemory: boolean } {
+  let thought = '';
+  let code: string | null = null;
+
+  // Extract THOUGHT section
+  const thoughtMatch = text.match(/THOUGHT:\s*\n?([\s\S]*?)(?=\n(?:RESET_MEMORY|CODE:)|$)/);
+  if (thoughtMatch) {
+    thought = thoughtMatch[1].trim();
+  }
+
+  // Extract CODE section (same pattern as parseStyleAndCode for CODE part)
+  const codeSplit = text.split(/^CODE:\s*$/m);
+  if (codeSplit.length >= 2) {
+    const afterCode = codeSplit.slice(1).join('CODE:');
+    const fnMatch = afterCode.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
+    code = fnMatch ? fnMatch[0] : null;
+  } else {
+    // Try finding a function even without explicit CODE: marker
+    const fnMatch = text.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
+    if (fnMatch) {
+      code = fnMatch[0];
+    }
+  }
+
+  // If no thought extracted, use first line as fallback
+  if (!thought && !text.match(/THOUGHT:/)) {
+    thought = text.split('\n')[0].slice(0, 120);
+  }
+
+  // Opt-in wipe of the bot's memory, on its own line before CODE:
+  const resetMemory = /^RESET_MEMORY\s*$/m.test(text.split(/^CODE:\s*$/m)[0]);
+
+  return { code, thought, resetMemory };
+}
@@ -0,0 +1,39 @@
+import type { GameRules } from '../engine/GameRules';
+import type { SkirmishReport } from './skirmish';
+import { presetPersonalities } from './presets';
+import { SKIRMISH_TIMEOUT_MS } from '../utils/constants';
+import SkirmishWorker from './skirmish-worker.ts?worker';
+
+/** Skirmish in a throwaway worker; a think() that hangs is killed and reported */
+export function runSkirmish(
+  code: string,
+  preset: string,
+  rules: GameRules,
+  seed = 1,
+  timeoutMs = SKIRMISH_TIMEOUT_MS,
+): Promise<SkirmishReport> {
+  return new Promise((resolve) => {
+    const worker = new SkirmishWorker();
+    const opponent = presetPersonalities[preset]?.name ?? preset;
+    const fail = (error: string) => {
+      worker.terminate();
+      resolve({ opponent, matches: [], error });
+    };
+
+    const timeout = setTimeout(() => {
+      fail(`Skirmish did not finish within ${timeoutMs / 1000}s — look for infinite loops in think()`);
+    }, timeoutMs);
+
+    worker.onmessage = (e: MessageEvent) => {
+      clearTimeout(timeout);
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (err: ErrorEvent) => {
+      clearTimeout(timeout);
+      fail(err.message);
+    };
+
+    worker.postMessage({ code, preset, rules, seed });
+  });
+}
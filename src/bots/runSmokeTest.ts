@@ -0,0 +1,31 @@
+import type { GameRules } from '../engine/GameRules';
+import type { SmokeReport } from './smokeTest';
+import { SMOKE_TEST_TIMEOUT_MS } from '../utils/constants';
+import SmokeWorker from './smoke-worker.ts?worker';
+
+/** Smoke-test code in a throwaway worker; a think() that hangs is killed and reported */
+export function runSmokeTest(code: string, rules: GameRules, timeoutMs = SMOKE_TEST_TIMEOUT_MS): Promise<SmokeReport> {
+  return new Promise((resolve) => {
+    const worker = new SmokeWorker();
+    const fail = (name: string, detail: string) => {
+      worker.terminate();
+      resolve({ checks: [{ name, passed: false, detail }], ok: false, runnable: false, error: `${name}: ${detail}` });
+    };
+
+    const timeout = setTimeout(() => {
+      fail('Finishes', `think() did not return within ${timeoutMs} ms — look for infinite loops`);
+    }, timeoutMs);
+
+    worker.onmessage = (e: MessageEvent) => {
+      clearTimeout(timeout);
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (err: ErrorEvent) => {
+      clearTimeout(timeout);
+      fail('Compiles', err.message);
+    };
+
+    worker.postMessage({ code, rules });
+  });
+}
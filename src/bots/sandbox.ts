@@ -0,0 +1,127 @@
+// Shared bot sandbox rules — used by the Web Worker and the in-process runner
+import type { BotAction, BotState, EnemyState, ArenaState, BotMemory } from '../engine/types';
+import { SeededRandom } from '../utils/random';
+import { TEAM_MESSAGE_MAX_LENGTH, BOT_MEMORY_MAX_SIZE } from '../utils/constants';
+import type { BotLib } from './botLib';
+import { botLib } from './botLib';
+import { DebugChannel } from './debugChannel';
+import type { BotDebugOutput } from './debugChannel';
+
+export type ThinkFn = (me: BotState, enemies: EnemyState[], arena: ArenaState, memory: BotMemory, lib: BotLib) => unknown;
+
+export const BOT_ACTIONS: Array<NonNullable<BotAction['action']>> = [
+  'melee', 'ranged', 'special', 'defend', 'dash', 'heal', 'trap',
+];
+
+// Dangerous patterns to reject before compiling
+export const DANGEROUS_PATTERNS = [
+  /\bpostMessage\b/,
+  /\bself\./,
+  /\bsetInterval\b/,
+  /\bsetTimeout\b/,
+  /\beval\b/,
+  /\bFunction\b/,
+  /\bimportScripts\b/,
+];
+
+/** Worker globals that reach the network, load scripts or start more workers */
+const NETWORK_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts', 'Worker', 'SharedWorker'];
+
+/** Take NETWORK_GLOBALS away from this worker — call first thing in every worker that runs bot code */
+export function lockDownWorkerGlobals() {
+  const scope = globalThis as any;
+  for (const name of NETWORK_GLOBALS) scope[name] = undefined;
+}
+
+export function idleAction(): BotAction {
+  return { move: { x: 0, y: 0 }, aim: { x: 0, y: 0 }, action: null };
+}
+
+export function validateCode(code: string): string | null {
+  for (const pattern of DANGEROUS_PATTERNS) {
+    if (pattern.test(code)) {
+      return `Blocked: code contains forbidden pattern "${pattern.source}"`;
+    }
+  }
+  return null;
+}
+
+/** Math with a seeded random(), shadowing the global inside bot code */
+export function createSandboxMath(seed: number): Math {
+  const rng = new SeededRandom(seed);
+  const math = Object.create(Math);
+  math.random = () => rng.next();
+  return Object.freeze(math);
+}
+
+/** Globals bot code gets from compileThinkFn's wrapper, shadowing the real ones */
+export const SANDBOX_GLOBALS = ['Math', 'debug', 'console'];
+
+/** `debug` is where the bot's debug.* and console.* calls are collected */
+export function compileThinkFn(code: string, math: Math = Math, debug: DebugChannel = new DebugChannel()): ThinkFn {
+  const factory = new Function(...SANDBOX_GLOBALS, `
+    "use strict";
+    ${code}
+    return think;
+  `);
+  const fn = factory(math, debug.debug, debug.console);
+  if (typeof fn !== 'function') {
+    throw new Error('think is not a function');
+  }
+  return fn;
+}
+
+/**
+ * Run think() against a scratch copy of `memory` (plus the shared helper `lib`)
+ * and return the action, the memory to keep and what the bot logged and drew
+ * on `debug` (the channel it was compiled with). Changes that aren't
+ * JSON-serializable or exceed BOT_MEMORY_MAX_SIZE are discarded and the
+ * previous memory stays. An exception idles the bot, sets `threw` and shows up in the debug output.
+ */
+export function runThink(
+  thinkFn: ThinkFn,
+  me: BotState,
+  enemies: EnemyState[],
+  arena: ArenaState,
+  memory: BotMemory,
+  debug: DebugChannel,
+): { action: BotAction; memory: BotMemory; debug: BotDebugOutput; threw: boolean } {
+  const scratch = structuredClone(memory);
+  try {
+    const action = sanitizeAction(thinkFn(me, enemies, arena, scratch, botLib));
+    return { action, memory: snapshotMemory(scratch) ?? memory, debug: debug.take(), threw: false };
+  } catch (err) {
+    debug.exception(err);
+    return { action: idleAction(), memory, debug: debug.take(), threw: true };
+  }
+}
+
+/** JSON round-trip of a memory object, or null if it can't be stored */
+export function snapshotMemory(memory: unknown): BotMemory | null {
+  try {
+    const json = JSON.stringify(memory);
+    if (json === undefined || json.length > BOT_MEMORY_MAX_SIZE) return null;
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Coerce whatever think() returned into a well-formed BotAction */
+export function sanitizeAction(result: any): BotAction {
+  return {
+    move: {
+      x: Number(result?.move?.x) || 0,
+      y: Number(result?.move?.y) || 0,
+    },
+    aim: {
+      x: Number(result?.aim?.x) || 0,
+      y: Number(result?.aim?.y) || 0,
+    },
+    action: BOT_ACTIONS.includes(result?.action) ? result.action : null,
+    ...(typeof result?.message === 'string' && result.message
+      ? { message: result.message.slice(0, TEAM_MESSAGE_MAX_LENGTH) }
+      : {}),
+  };
+}
@@ -0,0 +1,11 @@
+// Web Worker that plays code-editor skirmishes off the main thread (see skirmish.ts)
+import { playSkirmish } from './skirmish';
+import { lockDownWorkerGlobals } from './sandbox';
+
+// Plays hand-written or imported code — same lockdown as the bot worker
+lockDownWorkerGlobals();
+
+self.onmessage = async (e: MessageEvent) => {
+  const { code, preset, rules, seed } = e.data;
+  self.postMessage(await playSkirmish(code, preset, rules, seed));
+};
@@ -0,0 +1,54 @@
+// Quick headless matches of hand-written code against a preset bot, for the code editor.
+// Pure — the browser runs it in skirmish-worker.ts so a hanging think() can be killed.
+
+import type { GameRules } from '../engine/GameRules';
+import { runHeadlessMatch } from '../engine/HeadlessMatch';
+import { presetCode, presetPersonalities } from './presets';
+import { SKIRMISH_MATCHES } from '../utils/constants';
+
+export interface SkirmishMatch {
+  seed: number;
+  result: 'win' | 'loss' | 'draw';
+  ticks: number;
+  /** Bot under test */
+  hp: number;
+  dealt: number;
+  taken: number;
+}
+
+export interface SkirmishReport {
+  opponent: string;
+  matches: SkirmishMatch[];
+  /** Set when the code couldn't start a match at all */
+  error: string | null;
+}
+
+/** Play `code` (bot 0) against a preset on SKIRMISH_MATCHES consecutive seeds */
+export async function playSkirmish(code: string, preset: string, rules: GameRules, firstSeed = 1): Promise<SkirmishReport> {
+  const opponent = presetPersonalities[preset]?.name ?? preset;
+  if (!presetCode[preset]) return { opponent, matches: [], error: `Unknown preset "${preset}"` };
+
+  const matches: SkirmishMatch[] = [];
+  try {
+    for (let i = 0; i < SKIRMISH_MATCHES; i++) {
+      const seed = firstSeed + i;
+      const { state, winner } = await runHeadlessMatch({
+        bots: [{ name: 'You', code }, { name: opponent, code: presetCode[preset] }],
+        seed,
+        rules,
+      });
+      const me = state.bots[0];
+      matches.push({
+        seed,
+        result: winner === null ? 'draw' : winner === 0 ? 'win' : 'loss',
+        ticks: state.tick,
+        hp: Math.max(0, Math.ceil(me.hp)),
+        dealt: me.damageDealt,
+        taken: me.damageTaken,
+      });
+    }
+  } catch (err: any) {
+    return { opponent, matches, error: err.message };
+  }
+  return { opponent, matches, error: null };
+}
@@ -0,0 +1,11 @@
+// Web Worker that smoke-tests generated bot code off the main thread (see smokeTest.ts)
+import { smokeTestCode } from './smokeTest';
+import { lockDownWorkerGlobals } from './sandbox';
+
+// The code under test is untrusted — same lockdown as the bot worker
+lockDownWorkerGlobals();
+
+self.onmessage = (e: MessageEvent) => {
+  const { code, rules } = e.data;
+  self.postMessage(smokeTestCode(code, rules));
+};
@@ -0,0 +1,181 @@
+// Smoke test for generated think() code: compile it, run it against a handful of synthetic
+// match situations and check it returns well-formed actions and actually moves. Pure — the
+// browser runs it in smoke-worker.ts (so a hanging think() can be killed); headless callers
+// can run it directly.
+
+import type { GameRules } from '../engine/GameRules';
+import { CLASSIC_RULES } from '../engine/GameRules';
+import { GameState } from '../engine/GameState';
+import type { BotMemory } from '../engine/types';
+import { validateCode, compileThinkFn, createSandboxMath, snapshotMemory, BOT_ACTIONS } from './sandbox';
+import type { ThinkFn } from './sandbox';
+import { botLib } from './botLib';
+import { BOT_MEMORY_MAX_SIZE, DEFAULT_FRIENDLY_FIRE } from '../utils/constants';
+
+export interface SmokeCheck {
+  name: string;
+  passed: boolean;
+  /** Why it failed (or a note when it passed) */
+  detail?: string;
+}
+
+export interface SmokeReport {
+  checks: SmokeCheck[];
+  /** Every check passed */
+  ok: boolean;
+  /** Passed the safety check and compiled — BotRunner.initBot will accept it */
+  runnable: boolean;
+  /** Failed checks, one per line — sent back to the model for repair */
+  error: string | null;
+}
+
+/** A match situation; bot 0 is the one under test */
+interface Fixture {
+  name: string;
+  state: GameState;
+}
+
+const FIXTURE_SEED = 1;
+const MIN_MOVE = 0.01;
+
+export function smokeTestCode(code: string, rules: GameRules = CLASSIC_RULES): SmokeReport {
+  const checks: SmokeCheck[] = [];
+
+  const blocked = validateCode(code);
+  checks.push({ name: 'Safe', passed: !blocked, detail: blocked ?? undefined });
+  if (blocked) return report(checks, false);
+
+  let thinkFn: ThinkFn;
+  try {
+    thinkFn = compileThinkFn(code, createSandboxMath(FIXTURE_SEED));
+    checks.push({ name: 'Compiles', passed: true });
+  } catch (err: any) {
+    checks.push({ name: 'Compiles', passed: false, detail: `${err.name ?? 'Error'}: ${err.message}` });
+    return report(checks, false);
+  }
+
+  // One memory object across fixtures, like consecutive ticks
+  const memory: BotMemory = {};
+  let valid = 0;
+  let moved = 0;
+  for (const fixture of buildFixtures(rules)) {
+    const { state } = fixture;
+    const name = `Runs: ${fixture.name}`;
+    let result: unknown;
+    try {
+      result = thinkFn(state.getBotState(0), state.getEnemyStates(0), { ...state.getArenaState(), nav: state.nav }, memory, botLib);
+    } catch (err: any) {
+      checks.push({ name, passed: false, detail: `think() threw ${err?.name ?? 'Error'}: ${err?.message ?? err}` });
+      continue;
+    }
+
+    const problem = actionProblem(result)
+      ?? (snapshotMemory(memory) ? null : `memory must stay a plain JSON object under ${BOT_MEMORY_MAX_SIZE} characters`);
+    checks.push({ name, passed: !problem, detail: problem ?? undefined });
+    if (!problem) {
+      valid++;
+      const move = (result as { move: { x: number; y: number } }).move;
+      if (Math.hypot(move.x, move.y) > MIN_MOVE) moved++;
+    }
+  }
+
+  // Only meaningful once something came back valid
+  if (valid > 0) {
+    checks.push({
+      name: 'Moves',
+      passed: moved > 0,
+      detail: moved > 0 ? undefined : 'move was { x: 0, y: 0 } in every situation — the bot would stand still all match',
+    });
+  }
+
+  return report(checks, true);
+}
+
+function report(checks: SmokeCheck[], runnable: boolean): SmokeReport {
+  const failed = checks.filter(c => !c.passed);
+  return {
+    checks,
+    ok: failed.length === 0,
+    runnable,
+    error: failed.length ? failed.map(c => `${c.name}: ${c.detail}`).join('\n') : null,
+  };
+}
+
+/** What's wrong with a think() return value, or null if it's a valid BotAction */
+function actionProblem(result: unknown): string | null {
+  if (!result || typeof result !== 'object') {
+    return `think() must return { move, aim, action } — got ${describe(result)}`;
+  }
+  const action = result as Record<string, any>;
+  for (const key of ['move', 'aim']) {
+    const vec = action[key];
+    if (!vec || typeof vec !== 'object' || !Number.isFinite(vec.x) || !Number.isFinite(vec.y)) {
+      return `${key} must be { x: number, y: number } — got ${describe(vec)}`;
+    }
+  }
+  if (action.action != null && !BOT_ACTIONS.includes(action.action)) {
+    return `action must be one of ${BOT_ACTIONS.map(a => `'${a}'`).join(', ')} or null — got ${describe(action.action)}`;
+  }
+  return null;
+}
+
+function describe(value: unknown): string {
+  try {
+    // NaN/Infinity would otherwise print as null
+    const json = JSON.stringify(value, (_, v) => (typeof v === 'number' && !Number.isFinite(v) ? String(v) : v));
+    return (json ?? String(value)).slice(0, 80);
+  } catch {
+    return String(value);
+  }
+}
+
+function buildFixtures(rules: GameRules): Fixture[] {
+  const duel = () => {
+    const state = new GameState(rules);
+    state.init(['Test', 'Opponent'], FIXTURE_SEED);
+    return state;
+  };
+
+  // Match start, opponent across the arena
+  const opening = duel();
+
+  // Opponent right in front, everything off cooldown
+  const closeRange = duel();
+  const me = closeRange.bots[0];
+  closeRange.bots[1].position = {
+    x: me.position.x + me.facing.x * 2,
+    y: me.position.y + me.facing.y * 2,
+  };
+
+  // Late, hurt and tired, opponent last seen behind us, cooldowns running
+  const hurt = duel();
+  const hurtBot = hurt.bots[0];
+  hurt.tick = Math.floor(rules.match.maxTicks * 0.75);
+  hurtBot.hp = Math.ceil(rules.bot.hp * 0.2);
+  hurtBot.energy = Math.floor(rules.bot.energy * 0.1);
+  hurtBot.status.burning = 10;
+  hurtBot.cooldowns = { melee: 5, ranged: 10, special: 60, dash: 20, heal: 100, trap: 40 };
+  hurt.bots[1].position = {
+    x: hurtBot.position.x - hurtBot.facing.x * 8,
+    y: hurtBot.position.y - hurtBot.facing.y * 8,
+  };
+
+  // Four-bot free-for-all
+  const ffa = new GameState(rules);
+  ffa.init(['Test', 'Red', 'Green', 'Blue'], FIXTURE_SEED);
+
+  // 2v2 with a message from the teammate
+  const team = new GameState(rules);
+  team.init(['Test', 'Buddy', 'Red', 'Blue'], FIXTURE_SEED, { teams: [0, 0, 1, 1], friendlyFire: DEFAULT_FRIENDLY_FIRE });
+  team.teamMessages = [{ from: 1, text: 'focus Red' }];
+
+  const fixtures: Fixture[] = [
+    { name: 'opening', state: opening },
+    { name: 'close range', state: closeRange },
+    { name: 'low HP, enemy out of sight', state: hurt },
+    { name: 'free-for-all', state: ffa },
+    { name: '2v2 team', state: team },
+  ];
+  for (const { state } of fixtures) state.updateVisibility();
+  return fixtures;
+}
@@ -0,0 +1,140 @@
+// TypeScript bots: type-check think() source against the bot SDK (buildBotSdk)
+// and compile it to the plain JavaScript the bot worker runs. Every diagnostic
+// becomes a CodeProblem; JavaScript is only handed out when there are none.
+// The same parser also locates syntax errors in JavaScript bots.
+
+import ts from 'typescript';
+import type { CodeProblem } from './codeCheck';
+import { THINK_DECLARATION } from './codeCheck';
+
+/** What a bot's source is written in — the runner only ever sees JavaScript */
+export type BotLanguage = 'javascript' | 'typescript';
+
+export interface TypeScriptResult {
+  /** Compiled JavaScript, null while there are problems */
+  code: string | null;
+  problems: CodeProblem[];
+}
+
+const BOT_FILE = 'bot.ts';
+const SCRIPT_FILE = 'bot.js';
+const SDK_FILE = 'botwars-bot.d.ts';
+// Assigns think to the SDK's ThinkFunction, so a wrong signature or return type is an error
+const SIGNATURE_FILE = 'think-signature.ts';
+const SIGNATURE_CHECK = 'const __thinkSignature: ThinkFunction = think;\n';
+const LIB_DIR = '/lib';
+
+const OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  lib: ['lib.es2022.d.ts'],
+  types: [],
+  strict: true,
+  // compileThinkFn already runs the code in strict mode
+  alwaysStrict: false,
+  skipLibCheck: true,
+};
+
+// Lib and SDK typings rarely change, so their parsed files outlive a compile
+const parsed = new Map<string, ts.SourceFile>();
+let lastProgram: ts.Program | undefined;
+
+function sourceFile(fileName: string, text: string): ts.SourceFile {
+  const cached = parsed.get(fileName);
+  if (cached?.text === text) return cached;
+  const file = ts.createSourceFile(fileName, text, ts.ScriptTarget.ES2022, true);
+  parsed.set(fileName, file);
+  return file;
+}
+
+/** First import/export, which would turn the bot into a module compileThinkFn can't run */
+function moduleSyntax(file: ts.SourceFile): ts.Statement | undefined {
+  return file.statements.find(s => ts.isImportDeclaration(s) || ts.isImportEqualsDeclaration(s)
+    || ts.isExportDeclaration(s) || ts.isExportAssignment(s)
+    || (ts.canHaveModifiers(s) && ts.getModifiers(s)?.some(m => m.kind === ts.SyntaxKind.ExportKeyword)));
+}
+
+function position(file: ts.SourceFile, offset: number): { line: number; column: number } {
+  const { line, character } = file.getLineAndCharacterOfPosition(offset);
+  return { line: line + 1, column: character + 1 };
+}
+
+/**
+ * Type-check and compile `source`. `sdk` is the bot SDK text; `libs` maps lib
+ * file names (lib.es5.d.ts, ...) to their contents.
+ */
+export function compileBotTypeScript(source: string, sdk: string, libs: ReadonlyMap<string, string>): TypeScriptResult {
+  const files = new Map<string, string>([[BOT_FILE, source], [SDK_FILE, sdk]]);
+  const thinkMatch = THINK_DECLARATION.exec(source);
+  // A missing think() is codeCheck's to report
+  if (thinkMatch) files.set(SIGNATURE_FILE, SIGNATURE_CHECK);
+  for (const [name, text] of libs) files.set(`${LIB_DIR}/${name}`, text);
+
+  let output = '';
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName) => {
+      const text = files.get(fileName);
+      if (text === undefined) return undefined;
+      return fileName === BOT_FILE
+        ? ts.createSourceFile(fileName, text, ts.ScriptTarget.ES2022, true)
+        : sourceFile(fileName, text);
+    },
+    getDefaultLibFileName: () => `${LIB_DIR}/lib.es2022.d.ts`,
+    getDefaultLibLocation: () => LIB_DIR,
+    writeFile: (_name, text) => { output = text; },
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => files.has(fileName),
+    readFile: fileName => files.get(fileName),
+  };
+
+  const roots = [...files.keys()].filter(name => !name.startsWith(LIB_DIR));
+  const program = ts.createProgram({ rootNames: roots, options: OPTIONS, host, oldProgram: lastProgram });
+  lastProgram = program;
+  const bot = program.getSourceFile(BOT_FILE)!;
+
+  const exported = moduleSyntax(bot);
+  if (exported) {
+    return {
+      code: null,
+      problems: [{ ...position(bot, exported.getStart(bot)), message: 'Bot code is a single script — remove import/export' }],
+    };
+  }
+
+  // Type errors in code that doesn't parse are mostly noise
+  const syntax = program.getSyntacticDiagnostics(bot);
+  const diagnostics = syntax.length ? syntax : ts.getPreEmitDiagnostics(program);
+  const problems: CodeProblem[] = diagnostics.map((d) => {
+    const text = ts.flattenDiagnosticMessageText(d.messageText, ' ').replace(/\s+/g, ' ');
+    const message = `TS${d.code}: ${text}`;
+    if (d.file?.fileName === BOT_FILE && d.start !== undefined) return { ...position(bot, d.start), message };
+    if (d.file?.fileName === SIGNATURE_FILE) {
+      return { ...position(bot, thinkMatch!.index), message: `think() doesn't match the SDK's ThinkFunction — ${message}` };
+    }
+    return { line: null, column: null, message };
+  });
+  if (problems.length) {
+    return { code: null, problems: problems.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity)) };
+  }
+
+  program.emit(bot);
+  return { code: output, problems: [] };
+}
+
+/**
+ * Where the first syntax error in plain-JavaScript bot code is, straight from
+ * the parser — the code is never run. Null when the parser has no complaint
+ * (a few errors only the engine's own compile catches).
+ */
+export function locateJavaScriptSyntaxError(source: string): CodeProblem | null {
+  const { diagnostics = [] } = ts.transpileModule(source, {
+    fileName: SCRIPT_FILE,
+    reportDiagnostics: true,
+    compilerOptions: { allowJs: true, target: ts.ScriptTarget.ES2022 },
+  });
+  const first = diagnostics.find(d => d.file && d.start !== undefined);
+  if (!first) return null;
+  const text = ts.flattenDiagnosticMessageText(first.messageText, ' ').replace(/\s+/g, ' ');
+  return { ...position(first.file!, first.start!), message: text };
+}
@@ -0,0 +1,17 @@
+// Web Worker that type-checks and compiles TypeScript bots (see tsCompile.ts) and
+// locates syntax errors in JavaScript ones.
+// It bundles the compiler and the ES lib typings, so they only load the first time
+// one of those is needed, and it stays alive between calls.
+import { compileBotTypeScript, locateJavaScriptSyntaxError } from './tsCompile';
+
+const libFiles = import.meta.glob(
+  ['/node_modules/typescript/lib/lib.es*.d.ts', '!/node_modules/typescript/lib/*.full.d.ts'],
+  { query: '?raw', import: 'default', eager: true },
+) as Record<string, string>;
+const libs = new Map(Object.entries(libFiles).map(([path, text]) => [path.slice(path.lastIndexOf('/') + 1), text]));
+
+self.onmessage = (e: MessageEvent) => {
+  const { id, kind, source, sdk } = e.data;
+  const result = kind === 'locate' ? locateJavaScriptSyntaxError(source) : compileBotTypeScript(source, sdk, libs);
+  self.postMessage({ id, result });
+};
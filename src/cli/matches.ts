@@ -0,0 +1,123 @@
+// Command-line batch runner: plays bots against each other headlessly and
+// prints every result plus a win/loss/draw table.
+//
+//   npm run matches -- berserker ./my-bot.bot.json ./rusher.js --games 20 --seed 1
+//
+// Bots are preset names, .bot.json files or plain .js files with a think().
+// Each bot runs in its own worker thread (NodeBotRunner) so a hanging think()
+// is killed after the CPU limit; --in-process trades that for speed.
+
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { runHeadlessMatch } from '../engine/HeadlessMatch';
+import type { HeadlessBotEntry } from '../engine/HeadlessMatch';
+import type { TeamSetup } from '../engine/types';
+import { CLASSIC_RULES, RULE_PRESETS } from '../engine/GameRules';
+import { NodeBotRunner } from '../bots/NodeBotRunner';
+import { InProcessBotRunner } from '../bots/InProcessBotRunner';
+import { BOT_FILE_EXTENSION, parseBotFile } from '../bots/BotFile';
+import { presetCode, presetPersonalities } from '../bots/presets';
+import { randomSeed } from '../utils/random';
+import { MIN_BOTS, MAX_BOTS, DEFAULT_FRIENDLY_FIRE } from '../utils/constants';
+
+const USAGE = `Usage: npm run matches -- <bot> <bot> [more bots] [options]
+
+  <bot>              preset (${Object.keys(presetCode).join(', ')}), ${BOT_FILE_EXTENSION} file or .js file
+  --games <n>        matches to play (default 1)
+  --seed <n>         seed of the first match; match i uses seed + i (default random)
+  --rules <name>     rule preset (${RULE_PRESETS.map(r => `"${r.name}"`).join(', ')}; default ${CLASSIC_RULES.name})
+  --teams <list>     team battle: one team number per bot, e.g. 0,0,1,1 (default free-for-all)
+  --friendly-fire    with --teams, projectiles, specials and traps hit teammates too
+  --in-process       run think() on the main thread — faster, but a hanging bot hangs the run`;
+
+async function loadBot(arg: string): Promise<HeadlessBotEntry> {
+  if (presetCode[arg]) return { name: presetPersonalities[arg]?.name ?? arg, code: presetCode[arg] };
+  const text = await readFile(arg, 'utf8');
+  if (arg.endsWith('.json')) {
+    const file = await parseBotFile(text);
+    return { name: file.name, code: file.code };
+  }
+  return { name: basename(arg).replace(/\.[^.]*$/, ''), code: text };
+}
+
+function wholeNumber(value: string | undefined, flag: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${flag} must be a whole number, got "${value}"`);
+  return n;
+}
+
+function parseTeams(value: string, botCount: number, friendlyFire: boolean): TeamSetup {
+  const teams = value.split(',').map(team => wholeNumber(team.trim(), '--teams', 0));
+  if (teams.length !== botCount) throw new Error(`--teams needs one team per bot (${botCount}), got ${teams.length}`);
+  if (new Set(teams).size < 2) throw new Error('--teams needs at least two teams');
+  return {
+    teams,
+    friendlyFire: friendlyFire ? { projectiles: true, specials: true, traps: true } : DEFAULT_FRIENDLY_FIRE,
+  };
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      games: { type: 'string' },
+      seed: { type: 'string' },
+      rules: { type: 'string' },
+      teams: { type: 'string' },
+      'friendly-fire': { type: 'boolean', default: false },
+      'in-process': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || positionals.length < MIN_BOTS || positionals.length > MAX_BOTS) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const rules = values.rules === undefined
+    ? CLASSIC_RULES
+    : RULE_PRESETS.find(r => r.name.toLowerCase() === values.rules!.toLowerCase());
+  if (!rules) throw new Error(`Unknown rules "${values.rules}"`);
+  const games = Math.max(1, wholeNumber(values.games, '--games', 1));
+  const firstSeed = wholeNumber(values.seed, '--seed', randomSeed());
+  const teams = values.teams === undefined ? undefined : parseTeams(values.teams, positionals.length, values['friendly-fire']);
+  const bots = await Promise.all(positionals.map(loadBot));
+
+  // Scored by team — in free-for-all every bot is its own team
+  const record = bots.map(() => ({ wins: 0, losses: 0, draws: 0 }));
+  for (let i = 0; i < games; i++) {
+    const seed = firstSeed + i;
+    const controller = values['in-process'] ? new InProcessBotRunner() : new NodeBotRunner(rules.cpu.hangMs);
+    try {
+      const { state, winningTeam, ticks } = await runHeadlessMatch({ bots, seed, rules, teams, controller });
+      state.bots.forEach((bot, id) => {
+        if (winningTeam === null) record[id].draws++;
+        else if (bot.team === winningTeam) record[id].wins++;
+        else record[id].losses++;
+      });
+      const winners = state.bots.filter(bot => bot.team === winningTeam).map(bot => bot.name);
+      const outcome = winningTeam === null ? 'draw' : `${winners.join(' + ')} win${winners.length === 1 ? 's' : ''}`;
+      const hp = state.bots.map(bot => `${bot.name} ${Math.max(0, Math.ceil(bot.hp))}`).join(', ');
+      const hangs = bots.map((_, id) => controller.profiler.stats(id).hangs).reduce((sum, n) => sum + n, 0);
+      console.log(`seed ${seed}: ${outcome} after ${ticks} ticks (HP ${hp})${hangs ? ` — ${hangs} hung think() call${hangs === 1 ? '' : 's'}` : ''}`);
+    } finally {
+      controller.terminate();
+    }
+  }
+
+  console.log(`\n${games} match${games === 1 ? '' : 'es'}, ${rules.name} rules, seeds ${firstSeed}-${firstSeed + games - 1}`);
+  const width = Math.max(...bots.map(b => b.name.length));
+  bots.forEach((bot, id) => {
+    const { wins, losses, draws } = record[id];
+    const team = teams ? `team ${teams.teams[id]}  ` : '';
+    console.log(`${bot.name.padEnd(width)}  ${team}${wins} W  ${losses} L  ${draws} D`);
+  });
+}
+
+main().catch((err: Error) => {
+  console.error(err.message);
+  process.exitCode = 1;
+});
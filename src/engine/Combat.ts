@@ -1,21 +1,27 @@
 import type { BotData, GameEvent } from './types';
 import type { GameState } from './GameState';
-import {
-  MELEE_DAMAGE, MELEE_ENERGY, MELEE_COOLDOWN, MELEE_RANGE,
-  RANGED_DAMAGE, RANGED_ENERGY, RANGED_COOLDOWN, PROJECTILE_SPEED,
-  SPECIAL_DAMAGE, SPECIAL_ENERGY, SPECIAL_COOLDOWN, SPECIAL_RANGE,
-  DEFEND_ENERGY_PER_TICK, DEFEND_REDUCTION,
-  BURN_DAMAGE, BURN_DURATION,
-  ENERGY_REGEN, BOT_HP,
-  DASH_ENERGY, DASH_COOLDOWN, DASH_DISTANCE,
-  HEAL_AMOUNT, HEAL_ENERGY, HEAL_COOLDOWN,
-  TRAP_ENERGY, TRAP_COOLDOWN, TRAP_MAX_PER_BOT,
-  MELEE_COMMIT_TICKS, SPECIAL_COMMIT_TICKS,
-  OOC_REGEN_DELAY, OOC_REGEN_RATE,
-} from '../utils/constants';
+import type { ActionName } from './GameRules';
 import { distance, normalize, sub, dot, vec2, angle } from '../utils/math';
 
-export function processAction(bot: BotData, action: string | null, state: GameState) {
+/**
+ * When each action lands within a tick. Every bot's actions of one phase resolve
+ * before the next phase starts, so attacks see where everyone dashed and who is
+ * defending this tick no matter which bot's action comes first.
+ */
+const ACTION_PHASE: Record<ActionName, number> = {
+  dash: 0,
+  defend: 1,
+  heal: 1,
+  melee: 2,
+  special: 2,
+  ranged: 2,
+  trap: 2,
+};
+const PHASE_COUNT = Math.max(...Object.values(ACTION_PHASE)) + 1;
+
+/** Per-tick upkeep for a living bot: cooldowns, energy regen, status effects and out-of-combat regen */
+export function tickBotStatus(bot: BotData, state: GameState) {
+  const rules = state.rules;
   // Reset defending
   bot.isDefending = false;
   bot.status.shielded = false;
@@ -32,12 +38,12 @@ export function processAction(bot: BotData, action: string | null, state: GameSt
   if (bot.status.attackCommit > 0) bot.status.attackCommit--;
 
   // Regen energy
-  bot.energy = Math.min(100, bot.energy + ENERGY_REGEN);
+  bot.energy = Math.min(rules.bot.energy, bot.energy + rules.bot.energyRegen);
 
   // Process status effects
   if (bot.status.burning > 0) {
     bot.status.burning--;
-    const dmg = BURN_DAMAGE;
+    const dmg = rules.burn.damage;
     bot.hp -= dmg;
     bot.damageTaken += dmg;
     bot.lastCombatTick = state.tick;
@@ -52,26 +58,46 @@ export function processAction(bot: BotData, action: string | null, state: GameSt
   if (bot.status.slowed > 0) bot.status.slowed--;
 
   // Out-of-combat regen
-  if (bot.status.burning === 0 && state.tick - bot.lastCombatTick >= OOC_REGEN_DELAY) {
-    bot.hp = Math.min(BOT_HP, bot.hp + OOC_REGEN_RATE);
+  if (bot.status.burning === 0 && state.tick - bot.lastCombatTick >= rules.regen.oocDelay) {
+    bot.hp = Math.min(rules.bot.hp, bot.hp + rules.regen.oocRate);
   }
+}
+
+/**
+ * Resolve every bot's chosen action (indexed by bot id, null for none) phase by
+ * phase — see ACTION_PHASE. Run after every bot has moved and had its upkeep.
+ */
+export function resolveActions(state: GameState, actions: Array<ActionName | null>) {
+  for (let phase = 0; phase < PHASE_COUNT; phase++) {
+    for (const bot of state.bots) {
+      const action = actions[bot.id];
+      if (bot.alive && action && ACTION_PHASE[action] === phase) processAction(bot, action, state);
+    }
+  }
+}
 
-  if (!action) return;
+function processAction(bot: BotData, action: ActionName, state: GameState) {
+  // Disabled by the rule set — treated like doing nothing
+  if (!state.rules.allowedActions.includes(action)) return;
 
-  const enemies = state.bots.filter(b => b.id !== bot.id);
-  const enemy = enemies[0];
-  if (!enemy) return;
+  const enemies = state.bots.filter(b => b.team !== bot.team && b.alive);
+  if (enemies.length === 0) return;
 
   switch (action) {
     case 'melee':
-      processMelee(bot, enemy, state);
+      processMelee(bot, enemies, state);
       break;
     case 'ranged':
-      processRanged(bot, enemy, state);
+      processRanged(bot, state);
       break;
-    case 'special':
-      processSpecial(bot, enemy, state);
+    case 'special': {
+      // Teammates caught in the blast only take damage with special friendly fire on
+      const allies = state.friendlyFire.specials
+        ? state.bots.filter(b => state.areAllies(bot, b) && b.alive)
+        : [];
+      processSpecial(bot, [...enemies, ...allies], state);
       break;
+    }
     case 'defend':
       processDefend(bot, state);
       break;
@@ -87,19 +113,21 @@ export function processAction(bot: BotData, action: string | null, state: GameSt
   }
 }
 
-function processMelee(bot: BotData, enemy: BotData, state: GameState) {
-  if (bot.cooldowns.melee > 0 || bot.energy < MELEE_ENERGY) return;
+/** Hits every enemy in range and inside the 90-degree swing arc */
+function processMelee(bot: BotData, enemies: BotData[], state: GameState) {
+  const rules = state.rules;
+  if (bot.cooldowns.melee > 0 || bot.energy < rules.melee.energy) return;
 
-  bot.energy -= MELEE_ENERGY;
-  bot.cooldowns.melee = MELEE_COOLDOWN;
+  bot.energy -= rules.melee.energy;
+  bot.cooldowns.melee = rules.melee.cooldown;
   bot.actionsUsed['melee'] = (bot.actionsUsed['melee'] || 0) + 1;
 
   // Always commit on swing (even on miss)
-  bot.status.attackCommit = MELEE_COMMIT_TICKS;
+  bot.status.attackCommit = rules.melee.commitTicks;
   bot.momentum = 0;
 
-  const dist = distance(bot.position, enemy.position);
-  if (dist > MELEE_RANGE) {
+  const inRange = enemies.filter(e => distance(bot.position, e.position) <= rules.melee.range);
+  if (inRange.length === 0) {
     state.events.push({
       type: 'miss',
       attacker: bot.id,
@@ -110,9 +138,8 @@ function processMelee(bot: BotData, enemy: BotData, state: GameState) {
   }
 
   // Check facing (90-degree arc)
-  const toEnemy = normalize(sub(enemy.position, bot.position));
-  const facingDot = dot(bot.facing, toEnemy);
-  if (facingDot < 0.3) {
+  const inArc = inRange.filter(e => dot(bot.facing, normalize(sub(e.position, bot.position))) >= 0.3);
+  if (inArc.length === 0) {
     state.events.push({
       type: 'miss',
       attacker: bot.id,
@@ -122,38 +149,41 @@ function processMelee(bot: BotData, enemy: BotData, state: GameState) {
     return;
   }
 
-  let dmg = MELEE_DAMAGE;
-  if (enemy.isDefending) dmg = Math.round(dmg * DEFEND_REDUCTION);
+  for (const enemy of inArc) {
+    let dmg = rules.melee.damage;
+    if (enemy.isDefending) dmg = Math.round(dmg * rules.defend.damageTaken);
 
-  enemy.hp -= dmg;
-  bot.damageDealt += dmg;
-  enemy.damageTaken += dmg;
-  bot.lastCombatTick = state.tick;
-  enemy.lastCombatTick = state.tick;
+    enemy.hp -= dmg;
+    bot.damageDealt += dmg;
+    enemy.damageTaken += dmg;
+    bot.lastCombatTick = state.tick;
+    enemy.lastCombatTick = state.tick;
 
-  state.events.push({
-    type: 'melee_hit',
-    attacker: bot.id,
-    target: enemy.id,
-    damage: dmg,
-    position: { ...enemy.position },
-    text: `${bot.name} hits ${enemy.name} for ${dmg} melee damage!`,
-  });
+    state.events.push({
+      type: 'melee_hit',
+      attacker: bot.id,
+      target: enemy.id,
+      damage: dmg,
+      position: { ...enemy.position },
+      text: `${bot.name} hits ${enemy.name} for ${dmg} melee damage!`,
+    });
+  }
 }
 
-function processRanged(bot: BotData, enemy: BotData, state: GameState) {
-  if (bot.cooldowns.ranged > 0 || bot.energy < RANGED_ENERGY) return;
+function processRanged(bot: BotData, state: GameState) {
+  const rules = state.rules;
+  if (bot.cooldowns.ranged > 0 || bot.energy < rules.ranged.energy) return;
 
-  bot.energy -= RANGED_ENERGY;
-  bot.cooldowns.ranged = RANGED_COOLDOWN;
+  bot.energy -= rules.ranged.energy;
+  bot.cooldowns.ranged = rules.ranged.cooldown;
   bot.actionsUsed['ranged'] = (bot.actionsUsed['ranged'] || 0) + 1;
 
   const vel = {
-    x: bot.facing.x * PROJECTILE_SPEED,
-    y: bot.facing.y * PROJECTILE_SPEED,
+    x: bot.facing.x * rules.ranged.projectileSpeed,
+    y: bot.facing.y * rules.ranged.projectileSpeed,
   };
 
-  state.addProjectile(bot.id, bot.position, vel, RANGED_DAMAGE);
+  state.addProjectile(bot.id, bot.position, vel, rules.ranged.damage);
 
   state.events.push({
     type: 'ranged_fire',
@@ -163,19 +193,19 @@ function processRanged(bot: BotData, enemy: BotData, state: GameState) {
   });
 }
 
-function processSpecial(bot: BotData, enemy: BotData, state: GameState) {
-  if (bot.cooldowns.special > 0 || bot.energy < SPECIAL_ENERGY) return;
+/** Shockwave — hits every target within the special's range */
+function processSpecial(bot: BotData, targets: BotData[], state: GameState) {
+  const rules = state.rules;
+  if (bot.cooldowns.special > 0 || bot.energy < rules.special.energy) return;
 
-  bot.energy -= SPECIAL_ENERGY;
-  bot.cooldowns.special = SPECIAL_COOLDOWN;
+  bot.energy -= rules.special.energy;
+  bot.cooldowns.special = rules.special.cooldown;
   bot.actionsUsed['special'] = (bot.actionsUsed['special'] || 0) + 1;
 
   // Always commit on special (even on miss)
-  bot.status.attackCommit = SPECIAL_COMMIT_TICKS;
+  bot.status.attackCommit = rules.special.commitTicks;
   bot.momentum = 0;
 
-  const dist = distance(bot.position, enemy.position);
-
   state.events.push({
     type: 'special_use',
     attacker: bot.id,
@@ -183,12 +213,14 @@ function processSpecial(bot: BotData, enemy: BotData, state: GameState) {
     text: `${bot.name} unleashes a SPECIAL attack!`,
   });
 
-  if (dist <= SPECIAL_RANGE) {
-    let dmg = SPECIAL_DAMAGE;
-    if (enemy.isDefending) dmg = Math.round(dmg * DEFEND_REDUCTION);
+  for (const enemy of targets) {
+    if (distance(bot.position, enemy.position) > rules.special.range) continue;
+
+    let dmg = rules.special.damage;
+    if (enemy.isDefending) dmg = Math.round(dmg * rules.defend.damageTaken);
 
     enemy.hp -= dmg;
-    enemy.status.burning = BURN_DURATION;
+    enemy.status.burning = rules.burn.duration;
     bot.damageDealt += dmg;
     enemy.damageTaken += dmg;
     bot.lastCombatTick = state.tick;
@@ -206,23 +238,25 @@ function processSpecial(bot: BotData, enemy: BotData, state: GameState) {
 }
 
 function processDefend(bot: BotData, state: GameState) {
-  if (bot.energy < DEFEND_ENERGY_PER_TICK) return;
+  const rules = state.rules;
+  if (bot.energy < rules.defend.energyPerTick) return;
 
-  bot.energy -= DEFEND_ENERGY_PER_TICK;
+  bot.energy -= rules.defend.energyPerTick;
   bot.isDefending = true;
   bot.status.shielded = true;
   bot.actionsUsed['defend'] = (bot.actionsUsed['defend'] || 0) + 1;
 }
 
 function processDash(bot: BotData, state: GameState) {
-  if (bot.cooldowns.dash > 0 || bot.energy < DASH_ENERGY) return;
+  const rules = state.rules;
+  if (bot.cooldowns.dash > 0 || bot.energy < rules.dash.energy) return;
 
-  bot.energy -= DASH_ENERGY;
-  bot.cooldowns.dash = DASH_COOLDOWN;
+  bot.energy -= rules.dash.energy;
+  bot.cooldowns.dash = rules.dash.cooldown;
   bot.actionsUsed['dash'] = (bot.actionsUsed['dash'] || 0) + 1;
 
-  bot.position.x += bot.facing.x * DASH_DISTANCE;
-  bot.position.y += bot.facing.y * DASH_DISTANCE;
+  bot.position.x += bot.facing.x * rules.dash.distance;
+  bot.position.y += bot.facing.y * rules.dash.distance;
 
   state.events.push({
     type: 'dash_use',
@@ -233,14 +267,15 @@ function processDash(bot: BotData, state: GameState) {
 }
 
 function processHeal(bot: BotData, state: GameState) {
-  if (bot.cooldowns.heal > 0 || bot.energy < HEAL_ENERGY) return;
+  const rules = state.rules;
+  if (bot.cooldowns.heal > 0 || bot.energy < rules.heal.energy) return;
 
-  bot.energy -= HEAL_ENERGY;
-  bot.cooldowns.heal = HEAL_COOLDOWN;
+  bot.energy -= rules.heal.energy;
+  bot.cooldowns.heal = rules.heal.cooldown;
   bot.actionsUsed['heal'] = (bot.actionsUsed['heal'] || 0) + 1;
 
-  const healed = Math.min(HEAL_AMOUNT, BOT_HP - bot.hp);
-  bot.hp = Math.min(BOT_HP, bot.hp + HEAL_AMOUNT);
+  const healed = Math.min(rules.heal.amount, rules.bot.hp - bot.hp);
+  bot.hp = Math.min(rules.bot.hp, bot.hp + rules.heal.amount);
 
   state.events.push({
     type: 'heal_use',
@@ -252,14 +287,15 @@ function processHeal(bot: BotData, state: GameState) {
 }
 
 function processTrap(bot: BotData, state: GameState) {
-  if (bot.cooldowns.trap > 0 || bot.energy < TRAP_ENERGY) return;
+  const rules = state.rules;
+  if (bot.cooldowns.trap > 0 || bot.energy < rules.trap.energy) return;
 
   // Enforce max active traps per bot
   const activeTraps = state.traps.filter(t => t.ownerId === bot.id && t.active).length;
-  if (activeTraps >= TRAP_MAX_PER_BOT) return;
+  if (activeTraps >= rules.trap.maxPerBot) return;
 
-  bot.energy -= TRAP_ENERGY;
-  bot.cooldowns.trap = TRAP_COOLDOWN;
+  bot.energy -= rules.trap.energy;
+  bot.cooldowns.trap = rules.trap.cooldown;
   bot.actionsUsed['trap'] = (bot.actionsUsed['trap'] || 0) + 1;
 
   state.addTrap(bot.id, bot.position);
@@ -272,56 +308,119 @@ function processTrap(bot: BotData, state: GameState) {
   });
 }
 
+/** A shot overlapping several bots on the same tick hits the closest, not the lowest id */
 export function processProjectileHits(state: GameState) {
+  const rules = state.rules;
   const remaining: typeof state.projectiles = [];
 
   for (const proj of state.projectiles) {
-    let hit = false;
-    for (const bot of state.bots) {
-      if (bot.id === proj.ownerId) continue;
-      if (distance(proj.position, bot.position) < 1.3) {
-        let dmg = proj.damage;
-        if (bot.isDefending) dmg = Math.round(dmg * DEFEND_REDUCTION);
-
-        bot.hp -= dmg;
-        bot.damageTaken += dmg;
-        bot.lastCombatTick = state.tick;
-        const attacker = state.bots.find(b => b.id === proj.ownerId);
-        if (attacker) {
-          attacker.damageDealt += dmg;
-          attacker.lastCombatTick = state.tick;
-        }
-
-        state.events.push({
-          type: 'ranged_hit',
-          attacker: proj.ownerId,
-          target: bot.id,
-          damage: dmg,
-          position: { ...proj.position },
-          text: `${attacker?.name}'s shot hits ${bot.name} for ${dmg}!`,
-        });
-        hit = true;
-        break;
+    // Without projectile friendly fire, shots pass through teammates
+    const owner = state.bots[proj.ownerId];
+    let bot: BotData | null = null;
+    let closest = 1.3;
+    for (const candidate of state.bots) {
+      if (candidate.id === proj.ownerId || !candidate.alive) continue;
+      if (owner && state.areAllies(owner, candidate) && !state.friendlyFire.projectiles) continue;
+      const d = distance(proj.position, candidate.position);
+      if (d < closest) {
+        bot = candidate;
+        closest = d;
       }
     }
-    if (!hit) remaining.push(proj);
+    if (!bot) {
+      remaining.push(proj);
+      continue;
+    }
+
+    let dmg = proj.damage;
+    if (bot.isDefending) dmg = Math.round(dmg * rules.defend.damageTaken);
+
+    bot.hp -= dmg;
+    bot.damageTaken += dmg;
+    bot.lastCombatTick = state.tick;
+    const attacker = state.bots.find(b => b.id === proj.ownerId);
+    if (attacker) {
+      attacker.damageDealt += dmg;
+      attacker.lastCombatTick = state.tick;
+    }
+
+    state.events.push({
+      type: 'ranged_hit',
+      attacker: proj.ownerId,
+      target: bot.id,
+      damage: dmg,
+      position: { ...proj.position },
+      text: `${attacker?.name}'s shot hits ${bot.name} for ${dmg}!`,
+    });
   }
 
   state.projectiles = remaining;
 }
 
+/** The bot's worker hung and was respawned — apply the rule set's CPU penalty, forfeiting after too many strikes */
+export function applyCpuTimeout(bot: BotData, state: GameState) {
+  const cpu = state.rules.cpu;
+  bot.cpuStrikes++;
+  bot.penaltyTicks = cpu.skipTicks;
+  bot.energy = Math.max(0, bot.energy - cpu.energyPenalty);
+
+  const limit = cpu.forfeitStrikes > 0 ? `/${cpu.forfeitStrikes}` : '';
+  state.events.push({
+    type: 'cpu_timeout',
+    target: bot.id,
+    position: { ...bot.position },
+    text: `${bot.name}'s think() hung — worker restarted (strike ${bot.cpuStrikes}${limit})`,
+  });
+
+  if (cpu.forfeitStrikes > 0 && bot.cpuStrikes >= cpu.forfeitStrikes) {
+    bot.hp = 0;
+    bot.alive = false;
+    state.events.push({
+      type: 'ko',
+      target: bot.id,
+      text: `${bot.name} FORFEITS after ${bot.cpuStrikes} CPU timeouts!`,
+    });
+  }
+}
+
+/** Knock out bots at 0 HP; the match ends when at most one team is left standing */
 export function checkKO(state: GameState) {
   for (const bot of state.bots) {
-    if (bot.hp <= 0) {
-      bot.hp = 0;
-      state.gameOver = true;
-      const winner = state.bots.find(b => b.id !== bot.id);
-      state.winner = winner ? winner.id : null;
-      state.events.push({
-        type: 'ko',
-        target: bot.id,
-        text: `${bot.name} has been KNOCKED OUT!`,
-      });
-    }
+    if (!bot.alive || bot.hp > 0) continue;
+    bot.hp = 0;
+    bot.alive = false;
+    state.events.push({
+      type: 'ko',
+      target: bot.id,
+      text: `${bot.name} has been KNOCKED OUT!`,
+    });
   }
+
+  if (state.gameOver) return;
+  const teams = state.getAliveTeams();
+  if (teams.length === 1) {
+    setWinningTeam(state, teams[0]);
+  } else if (teams.length === 0) {
+    // Everyone left went down on the same tick — their hits landed simultaneously, so nobody wins
+    setWinningTeam(state, null);
+    state.events.push({ type: 'double_ko', text: 'DOUBLE K.O.! Nobody is left standing — it\'s a draw!' });
+  }
+}
+
+/** Time's up — the team with the most HP left (summed over living bots) wins; a shared top total is a tie */
+export function decideByHp(state: GameState) {
+  const totals = new Map<number, number>();
+  for (const bot of state.getAliveBots()) {
+    totals.set(bot.team, (totals.get(bot.team) ?? 0) + bot.hp);
+  }
+  const best = Math.max(...totals.values());
+  const leaders = [...totals].filter(([, hp]) => hp === best);
+  setWinningTeam(state, leaders.length === 1 ? leaders[0][0] : null);
+}
+
+function setWinningTeam(state: GameState, team: number | null) {
+  state.gameOver = true;
+  state.winningTeam = team;
+  const members = state.bots.filter(b => b.team === team);
+  state.winner = members.length === 1 ? members[0].id : null;
 }
@@ -1,8 +1,12 @@
 import { GameState } from './GameState';
-import { processAction, processProjectileHits, checkKO } from './Combat';
-import { applyMovement, applyFacing, clampToBounds, resolveBotCollision, resolveObstacleCollision, updateProjectiles } from './Physics';
-import { TICK_MS, MAX_TICKS, ENERGY_REGEN, TRAP_LIFETIME } from '../utils/constants';
-import type { BotAction, GameEvent } from './types';
+import { stepSimulation } from './Simulation';
+import { TICK_MS, PLAYBACK_SPEEDS } from '../utils/constants';
+import type { BotAction, BotMemory, GameEvent, TeamSetup } from './types';
+import type { ReplayRecorder } from './Replay';
+import { idleAction } from '../bots/sandbox';
+import type { ReplayTimeline } from './ReplayTimeline';
+import { CLASSIC_RULES } from './GameRules';
+import type { GameRules } from './GameRules';
 
 export type TickCallback = (state: GameState, events: GameEvent[]) => void;
 export type GetActionFn = (botId: number, state: GameState) => Promise<BotAction>;
@@ -14,6 +18,15 @@ export class GameLoop {
   private onTick: TickCallback;
   private getAction: GetActionFn;
   private onGameOver: (state: GameState) => void;
+  /** When set, every tick's bot actions are recorded for replay export */
+  recorder: ReplayRecorder | null = null;
+  /** Replay playback only — enables seeking and stepping backwards */
+  timeline: ReplayTimeline | null = null;
+
+  // Transport
+  paused = false;
+  speed = 1;
+  private ticking = false;
 
   // Interpolation
   prevPositions: Array<{ x: number; y: number }> = [];
@@ -24,15 +37,16 @@ export class GameLoop {
     onTick: TickCallback,
     getAction: GetActionFn,
     onGameOver: (state: GameState) => void,
+    rules: GameRules = CLASSIC_RULES,
   ) {
-    this.state = new GameState();
+    this.state = new GameState(rules);
     this.onTick = onTick;
     this.getAction = getAction;
     this.onGameOver = onGameOver;
   }
 
-  start(bot1Name: string, bot2Name: string) {
-    this.state.init(bot1Name, bot2Name);
+  start(botNames: string[], seed?: number, teams: TeamSetup | null = null) {
+    this.state.init(botNames, seed, teams);
     this.running = true;
     this.prevPositions = this.state.bots.map(b => ({ ...b.position }));
     this.currPositions = this.state.bots.map(b => ({ ...b.position }));
@@ -42,115 +56,116 @@ export class GameLoop {
 
   stop() {
     this.running = false;
-    if (this.tickTimer !== null) {
-      clearTimeout(this.tickTimer);
-      this.tickTimer = null;
+    this.clearTimer();
+  }
+
+  pause() {
+    this.paused = true;
+    this.clearTimer();
+  }
+
+  resume() {
+    if (!this.running || !this.paused || this.state.gameOver) return;
+    this.paused = false;
+    this.lastTickTime = performance.now();
+    this.scheduleTick();
+  }
+
+  setSpeed(speed: number) {
+    const min = PLAYBACK_SPEEDS[0];
+    const max = PLAYBACK_SPEEDS[PLAYBACK_SPEEDS.length - 1];
+    this.speed = Math.max(min, Math.min(max, speed));
+  }
+
+  /** Run exactly one tick while paused */
+  async stepForward() {
+    if (!this.running || !this.paused || this.ticking || this.state.gameOver) return;
+    await this.tick();
+  }
+
+  stepBack() {
+    this.seek(this.state.tick - 1);
+  }
+
+  /** Jump to the end of `tick` (playback only). Events of skipped ticks are not replayed to onTick. */
+  seek(tick: number) {
+    if (!this.timeline || this.ticking) return;
+    this.timeline.seek(this.state, tick);
+    this.prevPositions = this.state.bots.map(b => ({ ...b.position }));
+    this.currPositions = this.state.bots.map(b => ({ ...b.position }));
+    this.lastTickTime = performance.now();
+    this.onTick(this.state, this.state.events);
+
+    // Scrubbed back from the end — let playback continue from here
+    if (!this.state.gameOver && !this.paused && this.tickTimer === null) {
+      this.scheduleTick();
     }
   }
 
+  /** Note a mid-match code hot-swap in the replay (takes effect from the next tick) */
+  recordCodeSwap(botId: number, code: string, memory: BotMemory) {
+    this.recorder?.recordCodeSwap(this.state.tick, botId, code, memory);
+  }
+
   getInterpolationAlpha(): number {
+    if (this.paused) return 1;
     const elapsed = performance.now() - this.lastTickTime;
-    return Math.min(elapsed / TICK_MS, 1);
+    return Math.min(elapsed / (TICK_MS / this.speed), 1);
   }
 
   private scheduleTick() {
-    if (!this.running) return;
-    this.tickTimer = window.setTimeout(() => this.tick(), TICK_MS);
+    if (!this.running || this.paused) return;
+    this.tickTimer = window.setTimeout(() => {
+      this.tickTimer = null;
+      this.tick();
+    }, TICK_MS / this.speed);
+  }
+
+  private clearTimer() {
+    if (this.tickTimer !== null) {
+      clearTimeout(this.tickTimer);
+      this.tickTimer = null;
+    }
   }
 
   private async tick() {
-    if (!this.running) return;
+    if (!this.running || this.ticking) return;
+    this.ticking = true;
 
-    this.state.clearEvents();
-    this.state.tick++;
+    this.state.beginTick();
 
     // Save previous positions for interpolation
     this.prevPositions = this.state.bots.map(b => ({ ...b.position }));
 
-    // Get actions from bots
-    const actions: BotAction[] = [];
-    for (let i = 0; i < this.state.bots.length; i++) {
+    // Get every bot's action at once — they all see this tick's state and none waits on another
+    const actions: BotAction[] = await Promise.all(this.state.bots.map(async (bot, i) => {
+      // KO'd bots no longer think
+      if (!bot.alive) return idleAction();
       try {
-        const action = await this.getAction(i, this.state);
-        actions.push(action);
+        return await this.getAction(i, this.state);
       } catch {
-        actions.push({ move: { x: 0, y: 0 }, aim: { x: 0, y: 0 }, action: null });
+        return idleAction();
       }
-    }
+    }));
 
-    // Apply actions
-    for (let i = 0; i < this.state.bots.length; i++) {
-      const bot = this.state.bots[i];
-      const action = actions[i];
-
-      const terrain = this.state.arenaConfig?.terrain;
-      if (action.move) applyMovement(bot, action.move, terrain);
-      if (action.aim) applyFacing(bot, action.aim);
-
-      processAction(bot, action.action, this.state);
-    }
-
-    // Physics resolution
-    const dynObstacles = this.state.arenaConfig?.obstacles;
-    for (const bot of this.state.bots) {
-      resolveObstacleCollision(bot, dynObstacles);
-      clampToBounds(bot);
-    }
-    resolveBotCollision(this.state.bots[0], this.state.bots[1]);
-
-    // Line-of-sight: track visibility transitions, then update
-    const prevVisible: [boolean, boolean] = [...this.state.enemyVisible];
-    this.state.updateVisibility();
-    for (let i = 0; i < 2; i++) {
-      if (prevVisible[i] && !this.state.enemyVisible[i]) {
-        this.state.events.push({
-          type: 'lost_sight',
-          attacker: i,
-          target: 1 - i,
-          text: `${this.state.bots[i].name} lost sight of ${this.state.bots[1 - i].name}!`,
-        });
-      } else if (!prevVisible[i] && this.state.enemyVisible[i]) {
-        this.state.events.push({
-          type: 'gained_sight',
-          attacker: i,
-          target: 1 - i,
-          text: `${this.state.bots[i].name} spotted ${this.state.bots[1 - i].name}!`,
-        });
-      }
-    }
-
-    // Projectiles
-    this.state.projectiles = updateProjectiles(this.state.projectiles, dynObstacles);
-    processProjectileHits(this.state);
-
-    // Pickups
-    this.state.trySpawnPickup();
-    this.state.checkPickups();
-
-    // Traps
-    this.state.checkTraps();
-    this.state.traps = this.state.traps.filter(t => t.active && t.lifetime < TRAP_LIFETIME);
+    this.recorder?.recordTick(this.state.tick, actions);
+    stepSimulation(this.state, actions);
+    this.ticking = false;
 
     // Save current positions for interpolation
     this.currPositions = this.state.bots.map(b => ({ ...b.position }));
     this.lastTickTime = performance.now();
 
-    // Check win conditions
-    checkKO(this.state);
-
-    if (this.state.tick >= MAX_TICKS && !this.state.gameOver) {
-      this.state.gameOver = true;
-      // Highest HP% wins
-      const [a, b] = this.state.bots;
-      if (a.hp > b.hp) this.state.winner = a.id;
-      else if (b.hp > a.hp) this.state.winner = b.id;
-      else this.state.winner = null; // tie
-    }
-
     this.onTick(this.state, this.state.events);
 
     if (this.state.gameOver) {
-      this.running = false;
+      // Playback stays alive at the end so the timeline can still be scrubbed
+      if (this.timeline) {
+        this.pause();
+      } else {
+        this.running = false;
+      }
+      this.recorder?.finish(this.state);
       this.onGameOver(this.state);
       return;
     }
@@ -0,0 +1,310 @@
+import type { BotAction } from './types';
+
+// Match balance
+//
+// Every tunable a match is played with lives in one GameRules object handed to
+// GameState (and through it to Combat and Physics). Rules are part of the match
+// like the seed: they're recorded in replays, exposed to bots as `arena.rules`
+// and written into the LLM prompts so generated code plays with the real numbers.
+
+export type ActionName = NonNullable<BotAction['action']>;
+
+export const ALL_ACTIONS: ActionName[] = ['melee', 'ranged', 'special', 'defend', 'dash', 'heal', 'trap'];
+
+export interface GameRules {
+  /** Preset name, or "<preset> (custom)" once edited */
+  name: string;
+  match: {
+    maxTicks: number;
+  };
+  bot: {
+    hp: number;
+    energy: number;
+    /** Units per tick */
+    speed: number;
+    /** Speed multiplier while slowed */
+    slowedSpeedMult: number;
+    /** Energy per tick */
+    energyRegen: number;
+    /** Vision cone in degrees */
+    fov: number;
+  };
+  melee: {
+    damage: number;
+    energy: number;
+    cooldown: number;
+    range: number;
+    commitTicks: number;
+  };
+  ranged: {
+    damage: number;
+    energy: number;
+    cooldown: number;
+    /** Units per tick */
+    projectileSpeed: number;
+    /** Ticks before a shot fizzles — range = speed × lifetime */
+    projectileLifetime: number;
+  };
+  special: {
+    damage: number;
+    energy: number;
+    cooldown: number;
+    range: number;
+    commitTicks: number;
+  };
+  defend: {
+    energyPerTick: number;
+    /** Fraction of damage still taken while defending */
+    damageTaken: number;
+  };
+  dash: {
+    energy: number;
+    cooldown: number;
+    distance: number;
+  };
+  heal: {
+    amount: number;
+    energy: number;
+    cooldown: number;
+  };
+  trap: {
+    damage: number;
+    energy: number;
+    cooldown: number;
+    radius: number;
+    maxPerBot: number;
+    slowDuration: number;
+    lifetime: number;
+  };
+  movement: {
+    /** Speed multiplier during attack commitment */
+    commitSpeedMult: number;
+    momentumBuildup: number;
+    momentumDecay: number;
+    /** Max speed bonus from full momentum, 0.5 = +50% */
+    momentumMaxBonus: number;
+  };
+  regen: {
+    /** Ticks without combat before passive regen starts */
+    oocDelay: number;
+    /** HP per tick once active */
+    oocRate: number;
+  };
+  burn: {
+    damage: number;
+    duration: number;
+  };
+  pickups: {
+    /** Ticks between spawn attempts */
+    interval: number;
+    max: number;
+    healthAmount: number;
+    energyAmount: number;
+    radius: number;
+  };
+  /** Runaway think() handling — the runner kills and respawns hung workers, the engine applies the penalty */
+  cpu: {
+    /** Milliseconds a think() call may run before its worker counts as hung */
+    hangMs: number;
+    /** Ticks the bot sits out after each hang */
+    skipTicks: number;
+    /** Energy lost per hang */
+    energyPenalty: number;
+    /** Hangs before the bot forfeits; 0 = never */
+    forfeitStrikes: number;
+  };
+  /** Actions bots may use — anything else is ignored like `null` */
+  allowedActions: ActionName[];
+}
+
+/** Sections of GameRules that hold plain numbers */
+export type RuleGroup = Exclude<keyof GameRules, 'name' | 'allowedActions'>;
+
+export interface RuleFieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** Editor labels and accepted range for every numeric rule — typed so a new tunable can't be missed */
+export const RULE_FIELDS: { [G in RuleGroup]: { [K in keyof GameRules[G]]: RuleFieldSpec } } = {
+  match: {
+    maxTicks: { label: 'Match length (ticks)', min: 200, max: 12000, step: 100 },
+  },
+  bot: {
+    hp: { label: 'Max HP', min: 1, max: 10000, step: 10 },
+    energy: { label: 'Max energy', min: 1, max: 1000, step: 5 },
+    speed: { label: 'Speed (units/tick)', min: 0.05, max: 2, step: 0.05 },
+    slowedSpeedMult: { label: 'Slowed speed ×', min: 0, max: 1, step: 0.05 },
+    energyRegen: { label: 'Energy regen/tick', min: 0, max: 20, step: 0.1 },
+    fov: { label: 'Field of view (°)', min: 10, max: 360, step: 5 },
+  },
+  melee: {
+    damage: { label: 'Damage', min: 0, max: 1000, step: 1 },
+    energy: { label: 'Energy cost', min: 0, max: 1000, step: 1 },
+    cooldown: { label: 'Cooldown (ticks)', min: 0, max: 1000, step: 1 },
+    range: { label: 'Range', min: 0.5, max: 20, step: 0.1 },
+    commitTicks: { label: 'Commit (ticks)', min: 0, max: 100, step: 1 },
+  },
+  ranged: {
+    damage: { label: 'Damage', min: 0, max: 1000, step: 1 },
+    energy: { label: 'Energy cost', min: 0, max: 1000, step: 1 },
+    cooldown: { label: 'Cooldown (ticks)', min: 0, max: 1000, step: 1 },
+    projectileSpeed: { label: 'Projectile speed', min: 0.1, max: 5, step: 0.1 },
+    projectileLifetime: { label: 'Projectile lifetime (ticks)', min: 1, max: 500, step: 1 },
+  },
+  special: {
+    damage: { label: 'Damage', min: 0, max: 1000, step: 1 },
+    energy: { label: 'Energy cost', min: 0, max: 1000, step: 1 },
+    cooldown: { label: 'Cooldown (ticks)', min: 0, max: 1000, step: 1 },
+    range: { label: 'Range', min: 0.5, max: 40, step: 0.5 },
+    commitTicks: { label: 'Commit (ticks)', min: 0, max: 100, step: 1 },
+  },
+  defend: {
+    energyPerTick: { label: 'Energy/tick', min: 0, max: 100, step: 0.5 },
+    damageTaken: { label: 'Damage taken ×', min: 0, max: 1, step: 0.05 },
+  },
+  dash: {
+    energy: { label: 'Energy cost', min: 0, max: 1000, step: 1 },
+    cooldown: { label: 'Cooldown (ticks)', min: 0, max: 1000, step: 1 },
+    distance: { label: 'Distance', min: 0, max: 20, step: 0.5 },
+  },
+  heal: {
+    amount: { label: 'HP restored', min: 0, max: 10000, step: 1 },
+    energy: { label: 'Energy cost', min: 0, max: 1000, step: 1 },
+    cooldown: { label: 'Cooldown (ticks)', min: 0, max: 1000, step: 1 },
+  },
+  trap: {
+    damage: { label: 'Damage', min: 0, max: 1000, step: 1 },
+    energy: { label: 'Energy cost', min: 0, max: 1000, step: 1 },
+    cooldown: { label: 'Cooldown (ticks)', min: 0, max: 1000, step: 1 },
+    radius: { label: 'Trigger radius', min: 0.1, max: 10, step: 0.1 },
+    maxPerBot: { label: 'Max per bot', min: 0, max: 20, step: 1 },
+    slowDuration: { label: 'Slow (ticks)', min: 0, max: 500, step: 1 },
+    lifetime: { label: 'Lifetime (ticks)', min: 1, max: 12000, step: 10 },
+  },
+  movement: {
+    commitSpeedMult: { label: 'Commit speed ×', min: 0, max: 1, step: 0.05 },
+    momentumBuildup: { label: 'Momentum buildup', min: 0, max: 1, step: 0.01 },
+    momentumDecay: { label: 'Momentum decay ×', min: 0, max: 1, step: 0.05 },
+    momentumMaxBonus: { label: 'Momentum max bonus', min: 0, max: 2, step: 0.05 },
+  },
+  regen: {
+    oocDelay: { label: 'Out-of-combat delay (ticks)', min: 0, max: 1000, step: 5 },
+    oocRate: { label: 'Out-of-combat HP/tick', min: 0, max: 100, step: 0.5 },
+  },
+  burn: {
+    damage: { label: 'Damage/tick', min: 0, max: 100, step: 0.5 },
+    duration: { label: 'Duration (ticks)', min: 0, max: 500, step: 1 },
+  },
+  pickups: {
+    interval: { label: 'Spawn interval (ticks)', min: 10, max: 12000, step: 10 },
+    max: { label: 'Max on field', min: 0, max: 20, step: 1 },
+    healthAmount: { label: 'Health pickup HP', min: 0, max: 10000, step: 1 },
+    energyAmount: { label: 'Energy pickup', min: 0, max: 1000, step: 1 },
+    radius: { label: 'Pickup radius', min: 0.1, max: 5, step: 0.1 },
+  },
+  cpu: {
+    hangMs: { label: 'Hang limit (ms)', min: 100, max: 5000, step: 50 },
+    skipTicks: { label: 'Ticks sat out per hang', min: 0, max: 400, step: 1 },
+    energyPenalty: { label: 'Energy lost per hang', min: 0, max: 1000, step: 1 },
+    forfeitStrikes: { label: 'Hangs to forfeit (0 = never)', min: 0, max: 20, step: 1 },
+  },
+};
+
+export const CLASSIC_RULES: GameRules = {
+  name: 'Classic',
+  match: { maxTicks: 2400 },
+  bot: { hp: 1000, energy: 100, speed: 0.3, slowedSpeedMult: 0.5, energyRegen: 1, fov: 160 },
+  melee: { damage: 9, energy: 12, cooldown: 10, range: 2.0, commitTicks: 3 },
+  ranged: { damage: 8, energy: 14, cooldown: 15, projectileSpeed: 0.8, projectileLifetime: 60 },
+  special: { damage: 12, energy: 40, cooldown: 50, range: 8.0, commitTicks: 4 },
+  defend: { energyPerTick: 3, damageTaken: 0.35 },
+  dash: { energy: 15, cooldown: 12, distance: 5 },
+  heal: { amount: 15, energy: 30, cooldown: 40 },
+  trap: { damage: 10, energy: 20, cooldown: 25, radius: 1.5, maxPerBot: 2, slowDuration: 30, lifetime: 400 },
+  movement: { commitSpeedMult: 0.15, momentumBuildup: 0.12, momentumDecay: 0.5, momentumMaxBonus: 0.5 },
+  regen: { oocDelay: 40, oocRate: 2 },
+  burn: { damage: 1, duration: 20 },
+  pickups: { interval: 100, max: 3, healthAmount: 20, energyAmount: 30, radius: 0.8 },
+  cpu: { hangMs: 500, skipTicks: 20, energyPenalty: 25, forfeitStrikes: 3 },
+  allowedActions: [...ALL_ACTIONS],
+};
+
+export const RULE_PRESETS: GameRules[] = [
+  CLASSIC_RULES,
+  derive('Hardcore', {
+    bot: { hp: 500 },
+    melee: { damage: 14 },
+    ranged: { damage: 12 },
+    special: { damage: 18 },
+    defend: { damageTaken: 0.5 },
+    heal: { amount: 10, cooldown: 60 },
+    regen: { oocRate: 0 },
+    pickups: { interval: 200, healthAmount: 10 },
+  }),
+  derive('Sniper Only', {
+    ranged: { damage: 20, energy: 16, cooldown: 20, projectileSpeed: 1.2, projectileLifetime: 50 },
+    allowedActions: ['ranged', 'defend', 'dash'],
+  }),
+  derive('Low Energy', {
+    bot: { energy: 60, energyRegen: 0.5 },
+    defend: { energyPerTick: 4 },
+    pickups: { energyAmount: 15 },
+  }),
+];
+
+export function cloneRules(rules: GameRules): GameRules {
+  return structuredClone(rules);
+}
+
+/** Read-only copy handed to the engine and to bots — think() can't tamper with the live rules */
+export function freezeRules(rules: GameRules): Readonly<GameRules> {
+  const copy = cloneRules(rules);
+  for (const value of Object.values(copy)) {
+    if (typeof value === 'object') Object.freeze(value);
+  }
+  return Object.freeze(copy);
+}
+
+/**
+ * Turn untrusted input (request bodies, replay files, the editor) into complete rules:
+ * missing or non-numeric values fall back to Classic, numbers are clamped to RULE_FIELDS.
+ */
+export function normalizeRules(input: unknown): GameRules {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, any>;
+  const rules = cloneRules(CLASSIC_RULES);
+  rules.name = typeof raw.name === 'string' && raw.name ? raw.name.slice(0, 40) : CLASSIC_RULES.name;
+
+  for (const group of Object.keys(RULE_FIELDS) as RuleGroup[]) {
+    const specs = RULE_FIELDS[group] as Record<string, RuleFieldSpec>;
+    const target = rules[group] as Record<string, number>;
+    for (const [key, spec] of Object.entries(specs)) {
+      const value = Number(raw[group]?.[key]);
+      if (raw[group]?.[key] !== undefined && Number.isFinite(value)) {
+        target[key] = Math.max(spec.min, Math.min(spec.max, value));
+      }
+    }
+  }
+
+  if (Array.isArray(raw.allowedActions)) {
+    rules.allowedActions = ALL_ACTIONS.filter(a => raw.allowedActions.includes(a));
+  }
+  return rules;
+}
+
+type RuleOverrides = { [G in RuleGroup]?: Partial<GameRules[G]> } & { allowedActions?: ActionName[] };
+
+function derive(name: string, overrides: RuleOverrides): GameRules {
+  const rules = cloneRules(CLASSIC_RULES);
+  rules.name = name;
+  for (const group of Object.keys(overrides) as Array<keyof RuleOverrides>) {
+    if (group === 'allowedActions') {
+      rules.allowedActions = [...overrides.allowedActions!];
+    } else {
+      Object.assign(rules[group], overrides[group]);
+    }
+  }
+  return rules;
+}
@@ -1,13 +1,38 @@
-import type { BotData, Projectile, Pickup, Trap, BotState, EnemyState, ArenaState, GameEvent, ArenaConfig } from './types';
+import type {
+  BotData, Projectile, Pickup, Trap, BotState, EnemyState, AllyState, ArenaTickState, GameEvent, ArenaConfig,
+  BotAction, TeamMessage, TeamSetup, FriendlyFireRules, NavGrid,
+} from './types';
 import {
-  ARENA_SIZE, ARENA_HALF, BOT_HP, BOT_ENERGY, BOT_FOV, DEFAULT_OBSTACLES,
-  MAX_PICKUPS, PICKUP_INTERVAL, PICKUP_RADIUS,
-  HEALTH_PICKUP_AMOUNT, ENERGY_PICKUP_AMOUNT,
-  TRAP_RADIUS, TRAP_DAMAGE, TRAP_SLOW_DURATION,
-  MAX_TICKS,
+  ARENA_SIZE, ARENA_HALF, DEFAULT_OBSTACLES, TEAM_MESSAGE_MAX_LENGTH, DEFAULT_FRIENDLY_FIRE,
 } from '../utils/constants';
-import { distance, angle, vec2, hasLineOfSight, isInFieldOfView } from '../utils/math';
+import { CLASSIC_RULES, freezeRules } from './GameRules';
+import type { GameRules } from './GameRules';
+import { distance, angle, vec2, normalize, hasLineOfSight, isInFieldOfView } from '../utils/math';
 import type { Vec2 } from '../utils/math';
+import { SeededRandom, deriveSeed, randomSeed, SEED_STREAM_PICKUPS } from '../utils/random';
+import { spawnRingPoint } from '../arena/ArenaGenerator';
+import { buildNavGrid } from './NavGrid';
+
+// Spawn ring used when there is no generated arena
+const FALLBACK_SPAWN_RADIUS = 10;
+
+/** Everything mutable in a GameState — arenaConfig is shared, never mutated */
+export interface GameStateSnapshot {
+  bots: BotData[];
+  projectiles: Projectile[];
+  pickups: Pickup[];
+  traps: Trap[];
+  tick: number;
+  gameOver: boolean;
+  winner: number | null;
+  winningTeam: number | null;
+  lastKnownPos: Vec2[][];
+  visibility: boolean[][];
+  teamMessages: TeamMessage[];
+  seed: number;
+  rngState: number;
+  nextIds: { projectile: number; pickup: number; trap: number };
+}
 
 export class GameState {
   bots: BotData[] = [];
@@ -17,21 +42,53 @@ export class GameState {
   tick = 0;
   events: GameEvent[] = [];
   gameOver = false;
+  /** Winning bot — set when the winning team is a single bot (always in free-for-all) */
   winner: number | null = null;
-  arenaConfig: ArenaConfig | null = null;
-  lastKnownEnemyPos: [Vec2, Vec2] = [vec2(0, 0), vec2(0, 0)];
-  enemyVisible: [boolean, boolean] = [true, true];
+  winningTeam: number | null = null;
+  private config: ArenaConfig | null = null;
+  /** lastKnownPos[observer][target] — where `observer` last saw `target` */
+  lastKnownPos: Vec2[][] = [];
+  /** visibility[observer][target] — can `observer` currently see `target`? */
+  visibility: boolean[][] = [];
+  /** null = free-for-all */
+  teamSetup: TeamSetup | null = null;
+  friendlyFire: FriendlyFireRules = DEFAULT_FRIENDLY_FIRE;
+  /** Everything sent last tick — each bot only sees its own team's */
+  teamMessages: TeamMessage[] = [];
+  /** Match seed — every engine random draw comes from `rng`, derived from it */
+  seed = 0;
+  rng = new SeededRandom(0);
+  /** Balance for this match — frozen, and shared with bots as `arena.rules` */
+  readonly rules: Readonly<GameRules>;
+  /** Navigation grid of arenaConfig, rebuilt whenever it's set — frozen, and handed to each bot's controller at initBot */
+  nav: NavGrid;
   private nextProjectileId = 0;
   private nextPickupId = 0;
   private nextTrapId = 0;
 
-  init(bot1Name: string, bot2Name: string) {
-    const spawn1 = this.arenaConfig?.spawnPoints[0] ?? vec2(-10, 0);
-    const spawn2 = this.arenaConfig?.spawnPoints[1] ?? vec2(10, 0);
-    this.bots = [
-      this.createBot(0, bot1Name, spawn1),
-      this.createBot(1, bot2Name, spawn2),
-    ];
+  constructor(rules: GameRules = CLASSIC_RULES) {
+    this.rules = freezeRules(rules);
+    this.nav = this.buildNav();
+  }
+
+  get arenaConfig(): ArenaConfig | null {
+    return this.config;
+  }
+
+  /** Set before initializing the bots, so `nav` is the grid they'll be given */
+  set arenaConfig(config: ArenaConfig | null) {
+    this.config = config;
+    this.nav = this.buildNav();
+  }
+
+  init(botNames: string[], seed: number = this.arenaConfig?.seed ?? randomSeed(), teamSetup: TeamSetup | null = null) {
+    this.seed = seed;
+    this.teamSetup = teamSetup;
+    this.friendlyFire = teamSetup?.friendlyFire ?? DEFAULT_FRIENDLY_FIRE;
+    this.rng = new SeededRandom(deriveSeed(seed, SEED_STREAM_PICKUPS));
+    const spawns = botNames.map((_, i) =>
+      this.arenaConfig?.spawnPoints[i] ?? spawnRingPoint(i, botNames.length, FALLBACK_SPAWN_RADIUS));
+    this.bots = botNames.map((name, i) => this.createBot(i, name, teamSetup?.teams[i] ?? i, spawns[i]));
     this.projectiles = [];
     this.pickups = [];
     this.traps = [];
@@ -39,25 +96,37 @@ export class GameState {
     this.events = [];
     this.gameOver = false;
     this.winner = null;
+    this.winningTeam = null;
+    this.teamMessages = [];
     this.nextProjectileId = 0;
     this.nextPickupId = 0;
     this.nextTrapId = 0;
-    this.lastKnownEnemyPos = [{ ...spawn2 }, { ...spawn1 }];
-    this.enemyVisible = [true, true];
+    this.lastKnownPos = spawns.map(() => spawns.map(p => ({ ...p })));
+    this.visibility = spawns.map((_, i) => spawns.map((__, j) => i !== j));
+  }
+
+  private buildNav(): NavGrid {
+    const obstacles = this.arenaConfig?.obstacles
+      ?? DEFAULT_OBSTACLES.map(o => ({ position: vec2(o.x, o.y), radius: o.radius }));
+    return buildNavGrid(obstacles, { width: ARENA_SIZE, height: ARENA_SIZE }, this.arenaConfig?.terrain);
   }
 
-  private createBot(id: number, name: string, pos: { x: number; y: number }): BotData {
+  private createBot(id: number, name: string, team: number, pos: { x: number; y: number }): BotData {
     return {
       id,
       name,
-      hp: BOT_HP,
-      energy: BOT_ENERGY,
+      team,
+      hp: this.rules.bot.hp,
+      energy: this.rules.bot.energy,
       position: { ...pos },
-      facing: { x: id === 0 ? 1 : -1, y: 0 },
+      facing: pos.x === 0 && pos.y === 0 ? { x: 1, y: 0 } : normalize({ x: -pos.x, y: -pos.y }),
       velocity: { x: 0, y: 0 },
       cooldowns: { melee: 0, ranged: 0, special: 0, dash: 0, heal: 0, trap: 0 },
       status: { burning: 0, slowed: 0, shielded: false, attackCommit: 0 },
       lastCombatTick: 0,
+      cpuStrikes: 0,
+      penaltyTicks: 0,
+      alive: true,
       momentum: 0,
       isDefending: false,
       lastAction: null,
@@ -77,54 +146,121 @@ export class GameState {
       cooldowns: { ...bot.cooldowns },
       status: { ...bot.status },
       tickCount: this.tick,
+      allies: this.getAllyStates(botId),
+      teamMessages: this.teamMessages
+        .filter(m => m.from !== botId && this.bots[m.from].team === bot.team)
+        .map(m => ({ ...m })),
     };
   }
 
+  /** Living teammates, nearest first */
+  getAllyStates(botId: number): AllyState[] {
+    const me = this.bots[botId];
+    return this.bots
+      .filter(b => this.areAllies(me, b) && b.alive)
+      .map(ally => ({
+        id: ally.id,
+        hp: ally.hp,
+        energy: ally.energy,
+        position: { ...ally.position },
+        facing: { ...ally.facing },
+        distance: distance(me.position, ally.position),
+        angle: angle(me.position, ally.position),
+        isDefending: ally.isDefending,
+        status: { ...ally.status },
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /** Living opponents, nearest (by reported position) first */
   getEnemyStates(botId: number): EnemyState[] {
+    const me = this.bots[botId];
     return this.bots
-      .filter(b => b.id !== botId)
+      .filter(b => b.team !== me.team && b.alive)
       .map(enemy => {
-        const visible = this.enemyVisible[botId];
+        const visible = this.visibility[botId][enemy.id];
         const reportedPos = visible
           ? { ...enemy.position }
-          : { ...this.lastKnownEnemyPos[botId] };
+          : { ...this.lastKnownPos[botId][enemy.id] };
         return {
+          id: enemy.id,
           hp: enemy.hp,
           position: reportedPos,
-          distance: distance(this.bots[botId].position, reportedPos),
-          angle: angle(this.bots[botId].position, reportedPos),
+          distance: distance(me.position, reportedPos),
+          angle: angle(me.position, reportedPos),
           isDefending: enemy.isDefending,
           visible,
           status: { ...enemy.status },
         };
-      });
+      })
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  getAliveBots(): BotData[] {
+    return this.bots.filter(b => b.alive);
   }
 
+  /** Teams with at least one bot still standing, in team order */
+  getAliveTeams(): number[] {
+    return [...new Set(this.getAliveBots().map(b => b.team))].sort((a, b) => a - b);
+  }
+
+  /** Distinct bots on the same team */
+  areAllies(a: BotData, b: BotData): boolean {
+    return a.id !== b.id && a.team === b.team;
+  }
+
+  /** Collect this tick's outgoing team messages for delivery next tick */
+  postTeamMessages(actions: BotAction[]) {
+    this.teamMessages = [];
+    for (const bot of this.bots) {
+      const text = actions[bot.id]?.message;
+      if (!bot.alive || typeof text !== 'string' || !text) continue;
+      this.teamMessages.push({ from: bot.id, text: text.slice(0, TEAM_MESSAGE_MAX_LENGTH) });
+    }
+  }
+
+  /** Closest living opponent by true position (not what the bot can see) */
+  nearestEnemy(botId: number): BotData | null {
+    const me = this.bots[botId];
+    let nearest: BotData | null = null;
+    for (const bot of this.bots) {
+      if (bot.team === me.team || !bot.alive) continue;
+      if (!nearest || distance(me.position, bot.position) < distance(me.position, nearest.position)) {
+        nearest = bot;
+      }
+    }
+    return nearest;
+  }
+
+  /** Line of sight + field of view for every observer/target pair */
   updateVisibility() {
     const obstacles: Array<{ position: Vec2; radius: number }> = this.arenaConfig
       ? this.arenaConfig.obstacles.map(o => ({ position: o.position, radius: o.radius }))
       : DEFAULT_OBSTACLES.map(o => ({ position: vec2(o.x, o.y), radius: o.radius }));
 
-    for (let botId = 0; botId < 2; botId++) {
-      const enemyId = 1 - botId;
-      const canSee = hasLineOfSight(
-        this.bots[botId].position,
-        this.bots[enemyId].position,
-        obstacles,
-      ) && isInFieldOfView(
-        this.bots[botId].facing,
-        this.bots[botId].position,
-        this.bots[enemyId].position,
-        BOT_FOV,
-      );
-      this.enemyVisible[botId] = canSee;
-      if (canSee) {
-        this.lastKnownEnemyPos[botId] = { ...this.bots[enemyId].position };
+    for (const observer of this.bots) {
+      for (const target of this.bots) {
+        if (observer.id === target.id) continue;
+        const canSee = observer.alive && target.alive && hasLineOfSight(
+          observer.position,
+          target.position,
+          obstacles,
+        ) && isInFieldOfView(
+          observer.facing,
+          observer.position,
+          target.position,
+          this.rules.bot.fov,
+        );
+        this.visibility[observer.id][target.id] = canSee;
+        if (canSee) {
+          this.lastKnownPos[observer.id][target.id] = { ...target.position };
+        }
       }
     }
   }
 
-  getArenaState(): ArenaState {
+  getArenaState(): ArenaTickState {
     const obstacles = this.arenaConfig
       ? this.arenaConfig.obstacles.map(o => ({ position: { ...o.position }, radius: o.radius }))
       : DEFAULT_OBSTACLES.map(o => ({ position: { x: o.x, y: o.y }, radius: o.radius }));
@@ -145,7 +281,8 @@ export class GameState {
           ownerId: t.ownerId,
         })),
       tickCount: this.tick,
-      maxTicks: MAX_TICKS,
+      maxTicks: this.rules.match.maxTicks,
+      rules: this.rules,
     };
   }
 
@@ -156,19 +293,19 @@ export class GameState {
       position: { ...pos },
       velocity: { ...vel },
       damage,
-      lifetime: 60,
+      lifetime: this.rules.ranged.projectileLifetime,
     });
   }
 
   trySpawnPickup() {
-    if (this.tick % PICKUP_INTERVAL !== 0 || this.tick === 0) return;
+    if (this.tick % this.rules.pickups.interval !== 0 || this.tick === 0) return;
     const activePickups = this.pickups.filter(p => p.active).length;
-    if (activePickups >= MAX_PICKUPS) return;
+    if (activePickups >= this.rules.pickups.max) return;
 
-    const type = Math.random() > 0.5 ? 'health' : 'energy';
+    const type = this.rng.next() > 0.5 ? 'health' : 'energy';
     const pos = {
-      x: (Math.random() - 0.5) * (ARENA_SIZE - 6),
-      y: (Math.random() - 0.5) * (ARENA_SIZE - 6),
+      x: (this.rng.next() - 0.5) * (ARENA_SIZE - 6),
+      y: (this.rng.next() - 0.5) * (ARENA_SIZE - 6),
     };
 
     // Don't spawn on obstacles
@@ -187,25 +324,33 @@ export class GameState {
     });
   }
 
+  /** A pickup several bots reach on the same tick goes to the closest, not the lowest id */
   checkPickups() {
     for (const pickup of this.pickups) {
       if (!pickup.active) continue;
-      for (const bot of this.bots) {
-        if (distance(bot.position, pickup.position) < PICKUP_RADIUS + 1.0) {
-          pickup.active = false;
-          if (pickup.type === 'health') {
-            bot.hp = Math.min(BOT_HP, bot.hp + HEALTH_PICKUP_AMOUNT);
-          } else {
-            bot.energy = Math.min(BOT_ENERGY, bot.energy + ENERGY_PICKUP_AMOUNT);
-          }
-          this.events.push({
-            type: 'pickup',
-            target: bot.id,
-            position: { ...pickup.position },
-            text: `${bot.name} picked up ${pickup.type}!`,
-          });
+      let bot: BotData | null = null;
+      let closest = this.rules.pickups.radius + 1.0;
+      for (const candidate of this.getAliveBots()) {
+        const d = distance(candidate.position, pickup.position);
+        if (d < closest) {
+          bot = candidate;
+          closest = d;
         }
       }
+      if (!bot) continue;
+
+      pickup.active = false;
+      if (pickup.type === 'health') {
+        bot.hp = Math.min(this.rules.bot.hp, bot.hp + this.rules.pickups.healthAmount);
+      } else {
+        bot.energy = Math.min(this.rules.bot.energy, bot.energy + this.rules.pickups.energyAmount);
+      }
+      this.events.push({
+        type: 'pickup',
+        target: bot.id,
+        position: { ...pickup.position },
+        text: `${bot.name} picked up ${pickup.type}!`,
+      });
     }
   }
 
@@ -219,39 +364,95 @@ export class GameState {
     });
   }
 
+  /** A trap several bots step on in the same tick catches the closest, not the lowest id */
   checkTraps() {
     for (const trap of this.traps) {
       if (!trap.active) continue;
       trap.lifetime++;
 
-      for (const bot of this.bots) {
-        if (bot.id === trap.ownerId) continue;
-        if (distance(bot.position, trap.position) < TRAP_RADIUS + 1.0) {
-          trap.active = false;
-          let dmg = TRAP_DAMAGE;
-          bot.hp -= dmg;
-          bot.damageTaken += dmg;
-          bot.status.slowed = TRAP_SLOW_DURATION;
-          bot.lastCombatTick = this.tick;
-          const owner = this.bots.find(b => b.id === trap.ownerId);
-          if (owner) {
-            owner.damageDealt += dmg;
-            owner.lastCombatTick = this.tick;
-          }
-          this.events.push({
-            type: 'trap_trigger',
-            attacker: trap.ownerId,
-            target: bot.id,
-            damage: dmg,
-            position: { ...trap.position },
-            text: `${bot.name} triggered a trap! -${dmg} + slowed!`,
-          });
+      const owner = this.bots[trap.ownerId];
+      let bot: BotData | null = null;
+      let closest = this.rules.trap.radius + 1.0;
+      for (const candidate of this.getAliveBots()) {
+        if (candidate.id === trap.ownerId) continue;
+        if (owner && this.areAllies(owner, candidate) && !this.friendlyFire.traps) continue;
+        const d = distance(candidate.position, trap.position);
+        if (d < closest) {
+          bot = candidate;
+          closest = d;
         }
       }
+      if (!bot) continue;
+
+      trap.active = false;
+      const dmg = this.rules.trap.damage;
+      bot.hp -= dmg;
+      bot.damageTaken += dmg;
+      bot.status.slowed = this.rules.trap.slowDuration;
+      bot.lastCombatTick = this.tick;
+      if (owner) {
+        owner.damageDealt += dmg;
+        owner.lastCombatTick = this.tick;
+      }
+      this.events.push({
+        type: 'trap_trigger',
+        attacker: trap.ownerId,
+        target: bot.id,
+        damage: dmg,
+        position: { ...trap.position },
+        text: `${bot.name} triggered a trap! -${dmg} + slowed!`,
+      });
     }
   }
 
   clearEvents() {
     this.events = [];
   }
+
+  snapshot(): GameStateSnapshot {
+    return structuredClone({
+      bots: this.bots,
+      projectiles: this.projectiles,
+      pickups: this.pickups,
+      traps: this.traps,
+      tick: this.tick,
+      gameOver: this.gameOver,
+      winner: this.winner,
+      winningTeam: this.winningTeam,
+      lastKnownPos: this.lastKnownPos,
+      visibility: this.visibility,
+      teamMessages: this.teamMessages,
+      seed: this.seed,
+      rngState: this.rng.state,
+      nextIds: { projectile: this.nextProjectileId, pickup: this.nextPickupId, trap: this.nextTrapId },
+    });
+  }
+
+  /** Restore in place so renderers holding this GameState keep working */
+  restore(snapshot: GameStateSnapshot) {
+    const copy = structuredClone(snapshot);
+    this.bots = copy.bots;
+    this.projectiles = copy.projectiles;
+    this.pickups = copy.pickups;
+    this.traps = copy.traps;
+    this.tick = copy.tick;
+    this.events = [];
+    this.gameOver = copy.gameOver;
+    this.winner = copy.winner;
+    this.winningTeam = copy.winningTeam;
+    this.lastKnownPos = copy.lastKnownPos;
+    this.visibility = copy.visibility;
+    this.teamMessages = copy.teamMessages;
+    this.seed = copy.seed;
+    this.rng.state = copy.rngState;
+    this.nextProjectileId = copy.nextIds.projectile;
+    this.nextPickupId = copy.nextIds.pickup;
+    this.nextTrapId = copy.nextIds.trap;
+  }
+
+  /** Start a new tick: drop last tick's events and advance the counter */
+  beginTick() {
+    this.clearEvents();
+    this.tick++;
+  }
 }
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { runHeadlessMatch } from './HeadlessMatch';
+import { GameState } from './GameState';
+import { processProjectileHits } from './Combat';
+import { generateArena } from '../arena/ArenaGenerator';
+
+// Deterministic bots (no Math.random), so only spawn and code decide the match
+const charger = `function think(me, enemies) {
+  const e = enemies[0];
+  if (!e) return { move: { x: 0, y: 0 }, aim: { x: 1, y: 0 }, action: null };
+  const to = { x: e.position.x - me.position.x, y: e.position.y - me.position.y };
+  const d = Math.hypot(to.x, to.y);
+  return { move: to, aim: to, action: d < 2.5 ? 'melee' : null };
+}`;
+const fencer = charger.replace(
+  "d < 2.5 ? 'melee' : null",
+  "d < 2.5 ? (arena.tickCount % 3 === 0 ? 'defend' : 'melee') : (d < 6 && arena.tickCount % 5 === 0 ? 'dash' : null)",
+).replace('function think(me, enemies)', 'function think(me, enemies, arena)');
+const kiter = charger.replace('return { move: to,', 'return { move: d < 3 ? { x: -to.x, y: -to.y } : to,');
+
+const matchups: Array<[string, string, string]> = [
+  ['mirror', charger, charger],
+  ['fencer vs charger', fencer, charger],
+  ['kiter vs charger', kiter, charger],
+  ['fencer vs kiter', fencer, kiter],
+];
+
+describe('simultaneous action resolution', () => {
+  for (const seed of [1, 7, 42]) {
+    for (const [label, a, b] of matchups) {
+      it(`mirrors the outcome when spawns and code are swapped (${label}, seed ${seed})`, async () => {
+        const arena = generateArena(undefined, seed, 2);
+        const swapped = { ...arena, spawnPoints: [...arena.spawnPoints].reverse() };
+
+        const first = await runHeadlessMatch({ bots: [{ name: 'A', code: a }, { name: 'B', code: b }], seed, arenaConfig: arena });
+        const second = await runHeadlessMatch({ bots: [{ name: 'B', code: b }, { name: 'A', code: a }], seed, arenaConfig: swapped });
+
+        expect(second.ticks).toBe(first.ticks);
+        expect(second.winner === null ? null : 1 - second.winner).toBe(first.winner);
+        expect(second.state.bots.map(bot => bot.hp).reverse()).toEqual(first.state.bots.map(bot => bot.hp));
+      });
+    }
+  }
+
+  it('calls a mutual KO a draw', async () => {
+    const arena = generateArena(undefined, 1, 2);
+    const result = await runHeadlessMatch({ bots: [{ name: 'A', code: charger }, { name: 'B', code: charger }], seed: 1, arenaConfig: arena });
+    expect(result.state.getAliveBots()).toHaveLength(0);
+    expect(result.winner).toBeNull();
+    expect(result.winningTeam).toBeNull();
+    expect(result.events.some(e => e.type === 'double_ko')).toBe(true);
+  });
+
+  // Bot 0 owns the shot and the trap; bot 2 (the higher id) stands closer
+  function contested() {
+    const state = new GameState();
+    state.arenaConfig = generateArena(undefined, 1, 3);
+    state.init(['Owner', 'Far', 'Near'], 1);
+    state.bots[1].position = { x: 1, y: 0 };
+    state.bots[2].position = { x: -0.5, y: 0 };
+    return state;
+  }
+
+  it('gives a contested shot to the closest bot', () => {
+    const state = contested();
+    state.projectiles = [{ id: 0, ownerId: 0, position: { x: 0, y: 0 }, velocity: { x: 0, y: 0 }, damage: 10, lifetime: 0 }];
+    processProjectileHits(state);
+    expect(state.bots[1].damageTaken).toBe(0);
+    expect(state.bots[2].damageTaken).toBe(10);
+  });
+
+  it('springs a contested trap on the closest bot', () => {
+    const state = contested();
+    state.addTrap(0, { x: 0, y: 0 });
+    state.checkTraps();
+    expect(state.bots[1].damageTaken).toBe(0);
+    expect(state.bots[2].damageTaken).toBe(state.rules.trap.damage);
+  });
+});
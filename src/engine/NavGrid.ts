@@ -0,0 +1,240 @@
+// Navigation grid: the arena cut into square cells, each costing what it takes to
+// cross it. Cells a bot can't stand in (inside an obstacle's reach or against a
+// wall) are blocked; slopes cost what applyMovement's climbing slowdown costs.
+// GameState builds it once per match and bots get it as `arena.nav`; the searches
+// below back lib's path helpers and only ever read it.
+
+import type { NavGrid, TerrainData, Vec2 } from './types';
+import { BOT_RADIUS, NAV_CELL_SIZE } from '../utils/constants';
+import { distance } from '../utils/math';
+import { sampleTerrainSlope } from '../arena/ArenaGenerator';
+import { slopeSpeedFactor } from './Physics';
+
+/** Waypoints from the start (not included) to the goal, and what travelling them costs */
+export interface NavRoute {
+  path: Vec2[];
+  /** Units travelled, each weighted by its cell's cost — plain distance on open flat ground */
+  cost: number;
+}
+
+// Column/row steps to the 8 neighbours
+const STEPS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+export function buildNavGrid(
+  obstacles: Array<{ position: Vec2; radius: number }>,
+  bounds: { width: number; height: number },
+  terrain?: TerrainData,
+  cellSize = NAV_CELL_SIZE,
+): NavGrid {
+  const cols = Math.ceil(bounds.width / cellSize);
+  const rows = Math.ceil(bounds.height / cellSize);
+  const origin = { x: -bounds.width / 2, y: -bounds.height / 2 };
+  const reachX = bounds.width / 2 - BOT_RADIUS;
+  const reachY = bounds.height / 2 - BOT_RADIUS;
+  const costs: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const center = { x: origin.x + (col + 0.5) * cellSize, y: origin.y + (row + 0.5) * cellSize };
+      const blocked = Math.abs(center.x) > reachX || Math.abs(center.y) > reachY
+        || obstacles.some(o => distance(center, o.position) < o.radius + BOT_RADIUS);
+      if (blocked) {
+        costs.push(0);
+      } else {
+        // Priced as a climb: which way a bot crosses the cell isn't known yet
+        costs.push(terrain ? 1 / slopeSpeedFactor(sampleTerrainSlope(terrain, center.x, center.y), true) : 1);
+      }
+    }
+  }
+  return freezeNavGrid({ origin, cellSize, cols, rows, costs });
+}
+
+/** Freeze a grid in place — bot workers freeze the copy they were sent at init, so think() can't edit it */
+export function freezeNavGrid(nav: NavGrid): Readonly<NavGrid> {
+  Object.freeze(nav.origin);
+  Object.freeze(nav.costs);
+  return Object.freeze(nav);
+}
+
+/** Cell under `p` — clamped to the grid, so points outside map to the border */
+function cellAt(nav: NavGrid, p: Vec2): number {
+  const col = Math.min(nav.cols - 1, Math.max(0, Math.floor((p.x - nav.origin.x) / nav.cellSize)));
+  const row = Math.min(nav.rows - 1, Math.max(0, Math.floor((p.y - nav.origin.y) / nav.cellSize)));
+  return row * nav.cols + col;
+}
+
+function cellCenter(nav: NavGrid, cell: number): Vec2 {
+  return {
+    x: nav.origin.x + (cell % nav.cols + 0.5) * nav.cellSize,
+    y: nav.origin.y + (Math.floor(cell / nav.cols) + 0.5) * nav.cellSize,
+  };
+}
+
+/** The walkable cell closest to `p` (its own cell when walkable), -1 on a grid with none */
+function nearestWalkableCell(nav: NavGrid, p: Vec2): number {
+  const own = cellAt(nav, p);
+  if (nav.costs[own] > 0) return own;
+  let best = -1;
+  let bestDistance = Infinity;
+  for (let cell = 0; cell < nav.costs.length; cell++) {
+    if (nav.costs[cell] === 0) continue;
+    const d = distance(p, cellCenter(nav, cell));
+    if (d < bestDistance) {
+      best = cell;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** Binary min-heap of cells by priority; stale entries are skipped by the caller */
+class CellQueue {
+  private cells: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, priority: number) {
+    let i = this.cells.length;
+    this.cells.push(cell);
+    this.priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.cells[i] = this.cells[parent];
+      this.priorities[i] = this.priorities[parent];
+      i = parent;
+    }
+    this.cells[i] = cell;
+    this.priorities[i] = priority;
+  }
+
+  pop(): number {
+    const top = this.cells[0];
+    const cell = this.cells.pop()!;
+    const priority = this.priorities.pop()!;
+    const n = this.cells.length;
+    if (n > 0) {
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        if (left >= n) break;
+        const child = left + 1 < n && this.priorities[left + 1] < this.priorities[left] ? left + 1 : left;
+        if (this.priorities[child] >= priority) break;
+        this.cells[i] = this.cells[child];
+        this.priorities[i] = this.priorities[child];
+        i = child;
+      }
+      this.cells[i] = cell;
+      this.priorities[i] = priority;
+    }
+    return top;
+  }
+}
+
+/**
+ * Cheapest route from `start` to the first cell `isGoal` accepts — A* when
+ * `heuristic` is given, Dijkstra otherwise. The start cell counts as walkable,
+ * so a bot pressed against an obstacle can still leave. Diagonals never cut a
+ * blocked corner. Returns the cells after the start, or null if no goal is reachable.
+ */
+function search(
+  nav: NavGrid,
+  start: number,
+  isGoal: (cell: number) => boolean,
+  heuristic: (cell: number) => number = () => 0,
+): { cells: number[]; cost: number } | null {
+  const cost = new Float64Array(nav.costs.length).fill(Infinity);
+  const cameFrom = new Int32Array(nav.costs.length).fill(-1);
+  const done = new Uint8Array(nav.costs.length);
+  const queue = new CellQueue();
+  cost[start] = 0;
+  queue.push(start, heuristic(start));
+
+  while (queue.size > 0) {
+    const cell = queue.pop();
+    if (done[cell]) continue;
+    done[cell] = 1;
+    if (isGoal(cell)) {
+      const cells: number[] = [];
+      for (let c = cell; c !== start; c = cameFrom[c]) cells.push(c);
+      return { cells: cells.reverse(), cost: cost[cell] };
+    }
+    const col = cell % nav.cols;
+    const row = Math.floor(cell / nav.cols);
+    for (const [dc, dr] of STEPS) {
+      const c = col + dc;
+      const r = row + dr;
+      if (c < 0 || r < 0 || c >= nav.cols || r >= nav.rows) continue;
+      const next = r * nav.cols + c;
+      if (nav.costs[next] === 0) continue;
+      if (dc !== 0 && dr !== 0 && (nav.costs[row * nav.cols + c] === 0 || nav.costs[r * nav.cols + col] === 0)) continue;
+      const stepCost = cost[cell] + Math.hypot(dc, dr) * nav.cellSize * nav.costs[next];
+      if (stepCost < cost[next]) {
+        cost[next] = stepCost;
+        cameFrom[next] = cell;
+        queue.push(next, stepCost + heuristic(next));
+      }
+    }
+  }
+  return null;
+}
+
+/** Cell centers where the route turns, ending at `end` (the goal cell's center by default) */
+function toPath(nav: NavGrid, start: number, cells: number[], end?: Vec2): Vec2[] {
+  const path: Vec2[] = [];
+  const direction = (from: number, to: number) => `${to % nav.cols - from % nav.cols},${Math.floor(to / nav.cols) - Math.floor(from / nav.cols)}`;
+  for (let i = 0; i < cells.length - 1; i++) {
+    const previous = i === 0 ? start : cells[i - 1];
+    if (direction(previous, cells[i]) !== direction(cells[i], cells[i + 1])) path.push(cellCenter(nav, cells[i]));
+  }
+  const goal = cells.length ? cells[cells.length - 1] : start;
+  path.push(end ? { ...end } : cellCenter(nav, goal));
+  return path;
+}
+
+/**
+ * Cheapest route from `from` to `to`. When `to` can't be stood on, the route
+ * ends at the nearest cell that can; null when it's cut off from `from`.
+ */
+export function findRoute(nav: NavGrid, from: Vec2, to: Vec2): NavRoute | null {
+  const start = cellAt(nav, from);
+  const goal = nearestWalkableCell(nav, to);
+  if (goal < 0) return null;
+  const goalCenter = cellCenter(nav, goal);
+  // Octile distance at the cheapest cell cost (1) never overestimates
+  const heuristic = (cell: number) => {
+    const center = cellCenter(nav, cell);
+    const dx = Math.abs(center.x - goalCenter.x);
+    const dy = Math.abs(center.y - goalCenter.y);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  };
+  const found = search(nav, start, cell => cell === goal, heuristic);
+  if (!found) return null;
+  const end = nav.costs[cellAt(nav, to)] > 0 ? to : undefined;
+  return { path: toPath(nav, start, found.cells, end), cost: found.cost };
+}
+
+/** The cheapest of `targets` to reach and the route there, null when none is reachable */
+export function findNearestRoute(nav: NavGrid, from: Vec2, targets: Vec2[]): { target: number; route: NavRoute } | null {
+  const goals = new Map<number, number>();
+  targets.forEach((target, i) => {
+    const cell = nearestWalkableCell(nav, target);
+    if (cell >= 0 && !goals.has(cell)) goals.set(cell, i);
+  });
+  const start = cellAt(nav, from);
+  const found = search(nav, start, cell => goals.has(cell));
+  if (!found) return null;
+  const target = goals.get(found.cells.length ? found.cells[found.cells.length - 1] : start)!;
+  const end = nav.costs[cellAt(nav, targets[target])] > 0 ? targets[target] : undefined;
+  return { target, route: { path: toPath(nav, start, found.cells, end), cost: found.cost } };
+}
+
+/** Route to the cheapest walkable cell whose center `accept` takes, null when there is none */
+export function findRouteWhere(nav: NavGrid, from: Vec2, accept: (point: Vec2) => boolean): NavRoute | null {
+  const start = cellAt(nav, from);
+  const found = search(nav, start, cell => accept(cellCenter(nav, cell)));
+  if (!found) return null;
+  return { path: toPath(nav, start, found.cells), cost: found.cost };
+}
@@ -1,14 +1,23 @@
 import type { BotData, Projectile, ObstacleData, TerrainData } from './types';
-import {
-  BOT_RADIUS, BOT_SPEED, ARENA_HALF, DEFAULT_OBSTACLES, PROJECTILE_SPEED, TERRAIN_SLOPE_MAX,
-  COMMIT_SPEED_MULT, MOMENTUM_BUILDUP, MOMENTUM_DECAY, MOMENTUM_MAX_BONUS,
-} from '../utils/constants';
+import type { GameRules } from './GameRules';
+import { BOT_RADIUS, ARENA_HALF, DEFAULT_OBSTACLES, TERRAIN_SLOPE_MAX } from '../utils/constants';
 import { distance, normalize, sub, add, scale, length, vec2 } from '../utils/math';
 import { sampleTerrainHeight, sampleTerrainSlope } from '../arena/ArenaGenerator';
 
+/**
+ * Speed multiplier on ground of gradient `slope`. Too steep blocks almost all
+ * movement; gradual slopes slow climbing and speed up descending.
+ */
+export function slopeSpeedFactor(slope: number, uphill: boolean): number {
+  if (slope > TERRAIN_SLOPE_MAX) return 0.1;
+  if (slope <= 0.1) return 1;
+  return uphill ? Math.max(0.4, 1.0 - slope * 0.8) : Math.min(1.4, 1.0 + slope * 0.3);
+}
+
 export function applyMovement(
   bot: BotData,
   move: { x: number; y: number },
+  rules: Readonly<GameRules>,
   terrain?: TerrainData,
 ) {
   let mx = move.x;
@@ -21,30 +30,18 @@ export function applyMovement(
     my /= mag;
   }
 
-  let speed = bot.status.slowed > 0 ? BOT_SPEED * 0.5 : BOT_SPEED;
+  let speed = bot.status.slowed > 0 ? rules.bot.speed * rules.bot.slowedSpeedMult : rules.bot.speed;
 
   // Terrain slope modifier
   if (terrain) {
     const slope = sampleTerrainSlope(terrain, bot.position.x, bot.position.y);
-    if (slope > TERRAIN_SLOPE_MAX) {
-      // Too steep — block movement in uphill direction
-      speed *= 0.1;
-    } else if (slope > 0.1) {
-      // Gradual slope: check if moving uphill or downhill
-      const hCurrent = sampleTerrainHeight(terrain, bot.position.x, bot.position.y);
-      const hAhead = sampleTerrainHeight(
-        terrain,
-        bot.position.x + mx * 0.5,
-        bot.position.y + my * 0.5,
-      );
-      if (hAhead > hCurrent) {
-        // Uphill — slow down proportionally
-        speed *= Math.max(0.4, 1.0 - slope * 0.8);
-      } else {
-        // Downhill — speed up slightly
-        speed *= Math.min(1.4, 1.0 + slope * 0.3);
-      }
-    }
+    const hCurrent = sampleTerrainHeight(terrain, bot.position.x, bot.position.y);
+    const hAhead = sampleTerrainHeight(
+      terrain,
+      bot.position.x + mx * 0.5,
+      bot.position.y + my * 0.5,
+    );
+    speed *= slopeSpeedFactor(slope, hAhead > hCurrent);
   }
 
   // Momentum update: check alignment between old velocity and new move direction
@@ -53,20 +50,20 @@ export function applyMovement(
   if (oldVelMag > 0.01 && newMoveMag > 0.01) {
     const alignment = (bot.velocity.x * mx + bot.velocity.y * my) / (oldVelMag * newMoveMag);
     if (alignment > 0.7) {
-      bot.momentum = Math.min(1.0, bot.momentum + MOMENTUM_BUILDUP);
+      bot.momentum = Math.min(1.0, bot.momentum + rules.movement.momentumBuildup);
     } else {
-      bot.momentum *= MOMENTUM_DECAY;
+      bot.momentum *= rules.movement.momentumDecay;
     }
   } else {
-    bot.momentum *= MOMENTUM_DECAY;
+    bot.momentum *= rules.movement.momentumDecay;
   }
 
   // Speed modifiers: attack commitment vs momentum
   if (bot.status.attackCommit > 0) {
-    speed *= COMMIT_SPEED_MULT;
+    speed *= rules.movement.commitSpeedMult;
     bot.momentum = 0;
   } else {
-    speed *= (1.0 + bot.momentum * MOMENTUM_MAX_BONUS);
+    speed *= (1.0 + bot.momentum * rules.movement.momentumMaxBonus);
   }
 
   bot.velocity.x = mx * speed;
@@ -104,6 +101,16 @@ export function resolveBotCollision(a: BotData, b: BotData) {
   }
 }
 
+/** Push apart every overlapping pair of living bots */
+export function resolveBotCollisions(bots: BotData[]) {
+  for (let i = 0; i < bots.length; i++) {
+    if (!bots[i].alive) continue;
+    for (let j = i + 1; j < bots.length; j++) {
+      if (bots[j].alive) resolveBotCollision(bots[i], bots[j]);
+    }
+  }
+}
+
 export function resolveObstacleCollision(
   bot: BotData,
   dynamicObstacles?: ObstacleData[],
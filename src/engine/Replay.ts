@@ -0,0 +1,267 @@
+import type { ArenaConfig, BotAction, BotFault, BotMemory, BotStyle, ObstacleData, Vec2, BiomeType, TeamSetup } from './types';
+import type { GameState } from './GameState';
+import type { GetActionFn } from './GameLoop';
+import { CLASSIC_RULES, cloneRules, normalizeRules } from './GameRules';
+import type { GameRules } from './GameRules';
+import { BOT_NAME_MAX_LENGTH } from '../utils/constants';
+
+// Replay file format
+//
+// A replay is everything needed to re-run a match through GameState without
+// any bot code: the match seed (pickups), the rules, the full arena (heightmap
+// included, so arena generator changes can't break old files) and every bot
+// action per tick. Code versions are kept for reference and for the evolution markers.
+//
+// Files are JSON; `encodeReplayFile` gzips them and `decodeReplayFile` accepts
+// both plain and gzipped files.
+
+export const REPLAY_FORMAT = 'botwars-replay';
+export const REPLAY_VERSION = 2;
+/** Version 1 files were recorded when bots acted one after another and would play back differently */
+const OLDEST_REPLAY_VERSION = 2;
+
+const ACTION_CODES: Array<BotAction['action']> = [
+  null, 'melee', 'ranged', 'special', 'defend', 'dash', 'heal', 'trap',
+];
+
+const FAULT_CODES: BotFault[] = ['cpu_timeout'];
+
+/**
+ * [moveX, moveY, aimX, aimY, actionCode] — index into ACTION_CODES, plus
+ * FAULT_CODES index + 1 as a sixth entry on the rare ticks a runner reported a fault
+ */
+export type ReplayAction = [number, number, number, number, number] | [number, number, number, number, number, number];
+
+export interface ReplayBot {
+  name: string;
+  style: BotStyle | null;
+  /** think() source the bot started the match with */
+  code: string;
+}
+
+export interface ReplayCodeSwap {
+  tick: number;
+  botId: number;
+  code: string;
+  /** Memory the new code started from (`{}` after a reset; missing in older files) */
+  memory?: BotMemory;
+}
+
+export interface ReplayArena {
+  biome: BiomeType;
+  obstacles: ObstacleData[];
+  spawnPoints: Vec2[];
+  bounds: { width: number; height: number };
+  terrain: {
+    resolution: number;
+    arenaSize: number;
+    /** Float32 heightmap, little-endian, base64 */
+    heightmap: string;
+  };
+}
+
+export interface Replay {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  seed: number;
+  createdAt: string;
+  /** null = flat fallback arena */
+  arena: ReplayArena | null;
+  bots: ReplayBot[];
+  /** null = free-for-all */
+  teams: TeamSetup | null;
+  /** Balance the match was played with. Files from before rule sets load as Classic */
+  rules: GameRules;
+  /** ticks[t - 1][botId] = action used on tick t */
+  ticks: ReplayAction[][];
+  codeSwaps: ReplayCodeSwap[];
+  /** Each bot's memory when the match ended — for inspection only, playback never needs it */
+  memory: BotMemory[];
+  result: { winner: number | null; winningTeam: number | null; ticks: number } | null;
+}
+
+export class ReplayRecorder {
+  private replay: Replay;
+
+  constructor(
+    seed: number,
+    arenaConfig: ArenaConfig | null,
+    bots: ReplayBot[],
+    teams: TeamSetup | null = null,
+    rules: GameRules = CLASSIC_RULES,
+  ) {
+    this.replay = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      seed,
+      createdAt: new Date().toISOString(),
+      arena: arenaConfig ? encodeArena(arenaConfig) : null,
+      bots: bots.map(b => ({ ...b })),
+      teams: teams && structuredClone(teams),
+      rules: cloneRules(rules),
+      ticks: [],
+      codeSwaps: [],
+      memory: [],
+      result: null,
+    };
+  }
+
+  recordTick(tick: number, actions: BotAction[]) {
+    this.replay.ticks[tick - 1] = actions.map(encodeAction);
+  }
+
+  recordCodeSwap(tick: number, botId: number, code: string, memory: BotMemory) {
+    this.replay.codeSwaps.push({ tick, botId, code, memory: structuredClone(memory) });
+  }
+
+  recordFinalMemory(memory: BotMemory[]) {
+    this.replay.memory = structuredClone(memory);
+  }
+
+  finish(state: GameState) {
+    this.replay.result = { winner: state.winner, winningTeam: state.winningTeam, ticks: state.tick };
+  }
+
+  getReplay(): Replay {
+    return this.replay;
+  }
+}
+
+// --- Playback ---
+
+export function replayAction(replay: Replay, tick: number, botId: number): BotAction {
+  const encoded = replay.ticks[tick - 1]?.[botId];
+  if (!encoded) return { move: { x: 0, y: 0 }, aim: { x: 0, y: 0 }, action: null };
+  return decodeAction(encoded);
+}
+
+/** GetActionFn that feeds recorded actions to GameLoop instead of a BotRunner */
+export function createReplayActionSource(replay: Replay): GetActionFn {
+  return async (botId, state) => replayAction(replay, state.tick, botId);
+}
+
+export function arenaFromReplay(replay: Replay): ArenaConfig | null {
+  const arena = replay.arena;
+  if (!arena) return null;
+  return {
+    seed: replay.seed,
+    biome: arena.biome,
+    obstacles: arena.obstacles.map(o => ({ ...o, position: { ...o.position } })),
+    spawnPoints: arena.spawnPoints.map(p => ({ ...p })),
+    bounds: { ...arena.bounds },
+    terrain: {
+      resolution: arena.terrain.resolution,
+      arenaSize: arena.terrain.arenaSize,
+      heightmap: base64ToFloat32(arena.terrain.heightmap),
+    },
+  };
+}
+
+// --- Serialization ---
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+export function parseReplay(text: string): Replay {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  if (data?.format !== REPLAY_FORMAT) {
+    throw new Error('Not a BOTWARS replay file');
+  }
+  if (typeof data.version !== 'number' || data.version > REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${data.version} (this build reads up to ${REPLAY_VERSION})`);
+  }
+  if (data.version < OLDEST_REPLAY_VERSION) {
+    throw new Error(`Replay version ${data.version} was recorded by an older engine whose matches this build can't reproduce`);
+  }
+  if (typeof data.seed !== 'number' || !Array.isArray(data.bots) || !Array.isArray(data.ticks)) {
+    throw new Error('Replay file is missing seed, bots or ticks');
+  }
+  for (const bot of data.bots) {
+    if (typeof bot?.name !== 'string' || !bot.name.trim() || bot.name.length > BOT_NAME_MAX_LENGTH) {
+      throw new Error(`Replay bot names must be non-empty strings of at most ${BOT_NAME_MAX_LENGTH} characters`);
+    }
+  }
+  data.codeSwaps ??= [];
+  data.memory ??= [];
+  data.result ??= null;
+  data.arena ??= null;
+  data.teams ??= null;
+  data.rules = normalizeRules(data.rules);
+  if (data.result) data.result.winningTeam ??= data.result.winner;
+  return data as Replay;
+}
+
+export async function encodeReplayFile(replay: Replay): Promise<Blob> {
+  const json = new Blob([serializeReplay(replay)]);
+  const gzipped = json.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(gzipped).blob();
+}
+
+export async function decodeReplayFile(file: Blob): Promise<Replay> {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isGzip = head[0] === 0x1f && head[1] === 0x8b;
+  const text = isGzip
+    ? await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : await file.text();
+  return parseReplay(text);
+}
+
+// --- Helpers ---
+
+function encodeAction(action: BotAction): ReplayAction {
+  const encoded: ReplayAction = [
+    action.move?.x ?? 0,
+    action.move?.y ?? 0,
+    action.aim?.x ?? 0,
+    action.aim?.y ?? 0,
+    Math.max(0, ACTION_CODES.indexOf(action.action)),
+  ];
+  return action.fault ? [...encoded, FAULT_CODES.indexOf(action.fault) + 1] : encoded;
+}
+
+function decodeAction(encoded: ReplayAction): BotAction {
+  const [mx, my, ax, ay, code, faultCode] = encoded;
+  const fault = faultCode ? FAULT_CODES[faultCode - 1] : undefined;
+  return {
+    move: { x: mx, y: my },
+    aim: { x: ax, y: ay },
+    action: ACTION_CODES[code] ?? null,
+    ...(fault ? { fault } : {}),
+  };
+}
+
+function encodeArena(config: ArenaConfig): ReplayArena {
+  return {
+    biome: config.biome,
+    obstacles: config.obstacles.map(o => ({ ...o, position: { ...o.position } })),
+    spawnPoints: config.spawnPoints.map(p => ({ ...p })),
+    bounds: { ...config.bounds },
+    terrain: {
+      resolution: config.terrain.resolution,
+      arenaSize: config.terrain.arenaSize,
+      heightmap: float32ToBase64(config.terrain.heightmap),
+    },
+  };
+}
+
+function float32ToBase64(values: Float32Array): string {
+  const bytes = new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToFloat32(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Float32Array(bytes.buffer);
+}
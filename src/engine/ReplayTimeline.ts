@@ -0,0 +1,83 @@
+import { GameState } from './GameState';
+import type { GameStateSnapshot } from './GameState';
+import { stepSimulation } from './Simulation';
+import { replayAction, arenaFromReplay } from './Replay';
+import type { Replay } from './Replay';
+import type { BotAction } from './types';
+import { SNAPSHOT_INTERVAL } from '../utils/constants';
+
+export interface TimelineMarker {
+  tick: number;
+  type: 'ko' | 'special' | 'trap' | 'evolution';
+  botId: number | null;
+  label: string;
+}
+
+/**
+ * Pre-simulates a replay once on load to collect timeline markers and a
+ * GameState snapshot every SNAPSHOT_INTERVAL ticks. Seeking restores the
+ * nearest earlier snapshot and re-simulates at most SNAPSHOT_INTERVAL ticks.
+ */
+export class ReplayTimeline {
+  readonly totalTicks: number;
+  readonly markers: TimelineMarker[] = [];
+  private replay: Replay;
+  private snapshots: GameStateSnapshot[] = [];
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+
+    const state = this.createInitialState();
+    this.snapshots.push(state.snapshot());
+
+    while (!state.gameOver && state.tick < replay.ticks.length) {
+      state.beginTick();
+      stepSimulation(state, this.actionsAt(state.tick));
+
+      for (const event of state.events) {
+        if (event.type === 'ko') {
+          this.markers.push({ tick: state.tick, type: 'ko', botId: event.target ?? null, label: event.text ?? 'K.O.' });
+        } else if (event.type === 'special_use') {
+          this.markers.push({ tick: state.tick, type: 'special', botId: event.attacker ?? null, label: event.text ?? 'Special' });
+        } else if (event.type === 'trap_trigger') {
+          this.markers.push({ tick: state.tick, type: 'trap', botId: event.attacker ?? null, label: event.text ?? 'Trap triggered' });
+        }
+      }
+
+      if (state.tick % SNAPSHOT_INTERVAL === 0) {
+        this.snapshots.push(state.snapshot());
+      }
+    }
+    this.totalTicks = state.tick;
+
+    for (const swap of replay.codeSwaps) {
+      const name = replay.bots[swap.botId]?.name ?? `Bot ${swap.botId + 1}`;
+      this.markers.push({ tick: swap.tick + 1, type: 'evolution', botId: swap.botId, label: `${name}'s brain evolved` });
+    }
+    this.markers.sort((a, b) => a.tick - b.tick);
+  }
+
+  actionsAt(tick: number): BotAction[] {
+    return this.replay.bots.map((_, botId) => replayAction(this.replay, tick, botId));
+  }
+
+  /** Rewind or fast-forward `state` in place to the end of `tick` */
+  seek(state: GameState, tick: number) {
+    const target = Math.max(0, Math.min(this.totalTicks, Math.round(tick)));
+    const index = Math.min(Math.floor(target / SNAPSHOT_INTERVAL), this.snapshots.length - 1);
+    state.restore(this.snapshots[index]);
+
+    while (state.tick < target && !state.gameOver) {
+      state.beginTick();
+      stepSimulation(state, this.actionsAt(state.tick));
+    }
+    state.clearEvents();
+  }
+
+  private createInitialState(): GameState {
+    const state = new GameState(this.replay.rules);
+    state.arenaConfig = arenaFromReplay(this.replay);
+    state.init(this.replay.bots.map(b => b.name), this.replay.seed, this.replay.teams);
+    return state;
+  }
+}
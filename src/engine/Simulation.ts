@@ -0,0 +1,99 @@
+import type { GameState } from './GameState';
+import { tickBotStatus, resolveActions, processProjectileHits, checkKO, decideByHp, applyCpuTimeout } from './Combat';
+import { applyMovement, applyFacing, clampToBounds, resolveBotCollisions, resolveObstacleCollision, updateProjectiles } from './Physics';
+import type { ActionName } from './GameRules';
+import type { BotAction } from './types';
+
+/**
+ * Advance the simulation by one tick using already-collected bot actions.
+ * Pure engine work — no timers, DOM or workers — so it can be driven by the
+ * real-time GameLoop or by a headless runner.
+ * Call `state.beginTick()` (and gather actions for that tick) first.
+ *
+ * Bots act simultaneously: every bot moves, then every bot's upkeep runs, then
+ * actions resolve phase by phase (dashes, then defend/heal, then attacks), so
+ * no bot gets to act first because of its index.
+ */
+export function stepSimulation(state: GameState, actions: BotAction[]) {
+  // CPU faults and movement
+  const terrain = state.arenaConfig?.terrain;
+  const chosen: Array<ActionName | null> = state.bots.map(() => null);
+  for (let i = 0; i < state.bots.length; i++) {
+    const bot = state.bots[i];
+    const action = actions[i];
+    if (!bot.alive) continue;
+
+    if (action.fault === 'cpu_timeout') {
+      applyCpuTimeout(bot, state);
+      if (!bot.alive) continue;
+    }
+    // Sitting out a CPU penalty: cooldowns and regen still tick, the bot's output is ignored
+    if (bot.penaltyTicks > 0) {
+      bot.penaltyTicks--;
+      continue;
+    }
+
+    if (action.move) applyMovement(bot, action.move, state.rules, terrain);
+    if (action.aim) applyFacing(bot, action.aim);
+    chosen[i] = action.action;
+  }
+
+  // Upkeep, then actions
+  for (const bot of state.getAliveBots()) tickBotStatus(bot, state);
+  resolveActions(state, chosen);
+  state.postTeamMessages(actions);
+
+  // Physics resolution
+  const dynObstacles = state.arenaConfig?.obstacles;
+  for (const bot of state.getAliveBots()) {
+    resolveObstacleCollision(bot, dynObstacles);
+    clampToBounds(bot);
+  }
+  resolveBotCollisions(state.bots);
+
+  // Line-of-sight: track visibility transitions per observer/target pair, then update
+  const prevVisible = state.visibility.map(row => [...row]);
+  state.updateVisibility();
+  for (const observer of state.bots) {
+    for (const target of state.bots) {
+      if (observer.team === target.team) continue;
+      const was = prevVisible[observer.id][target.id];
+      const now = state.visibility[observer.id][target.id];
+      // A KO'd bot simply stops being tracked — no "lost sight" noise
+      if (was && !now && observer.alive && target.alive) {
+        state.events.push({
+          type: 'lost_sight',
+          attacker: observer.id,
+          target: target.id,
+          text: `${observer.name} lost sight of ${target.name}!`,
+        });
+      } else if (!was && now) {
+        state.events.push({
+          type: 'gained_sight',
+          attacker: observer.id,
+          target: target.id,
+          text: `${observer.name} spotted ${target.name}!`,
+        });
+      }
+    }
+  }
+
+  // Projectiles
+  state.projectiles = updateProjectiles(state.projectiles, dynObstacles);
+  processProjectileHits(state);
+
+  // Pickups
+  state.trySpawnPickup();
+  state.checkPickups();
+
+  // Traps
+  state.checkTraps();
+  state.traps = state.traps.filter(t => t.active && t.lifetime < state.rules.trap.lifetime);
+
+  // Check win conditions
+  checkKO(state);
+
+  if (state.tick >= state.rules.match.maxTicks && !state.gameOver) {
+    decideByHp(state);
+  }
+}
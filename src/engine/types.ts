@@ -1,3 +1,5 @@
+import type { GameRules } from './GameRules';
+
 export interface BotStyle {
   bodyShape: 'dodecahedron' | 'icosahedron' | 'octahedron' | 'tetrahedron' | 'cube';
   bodyScale: { x: number; y: number; z: number };
@@ -51,9 +53,37 @@ export interface BotState {
     attackCommit: number;
   };
   tickCount: number;
+  /** Living teammates (always empty in free-for-all) */
+  allies: AllyState[];
+  /** Messages teammates sent last tick */
+  teamMessages: TeamMessage[];
+}
+
+/** Teammates share full information — no line-of-sight staleness */
+export interface AllyState {
+  id: number;
+  hp: number;
+  energy: number;
+  position: Vec2;
+  facing: Vec2;
+  distance: number;
+  angle: number;
+  isDefending: boolean;
+  status: {
+    burning: number;
+    slowed: number;
+    shielded: boolean;
+    attackCommit: number;
+  };
+}
+
+export interface TeamMessage {
+  from: number;
+  text: string;
 }
 
 export interface EnemyState {
+  id: number;
   hp: number;
   position: Vec2;
   distance: number;
@@ -68,6 +98,18 @@ export interface EnemyState {
   };
 }
 
+/** The arena cut into square cells for path queries — see src/engine/NavGrid.ts */
+export interface NavGrid {
+  /** World position of cell 0's corner, the arena's (-x, -y) corner */
+  origin: Vec2;
+  /** Side of a cell in world units */
+  cellSize: number;
+  cols: number;
+  rows: number;
+  /** Row-major (index = row * cols + col): cost per unit travelled through the cell, 0 = blocked */
+  costs: number[];
+}
+
 export interface ArenaState {
   bounds: { width: number; height: number };
   obstacles: Array<{ position: Vec2; radius: number }>;
@@ -75,17 +117,53 @@ export interface ArenaState {
   traps: Array<{ position: Vec2; ownerId: number }>;
   tickCount: number;
   maxTicks: number;
+  /** Balance values of this match (read-only) */
+  rules: Readonly<GameRules>;
+  /** Navigation grid, built at match start (read-only) */
+  nav: Readonly<NavGrid>;
 }
 
+/** ArenaState as a controller gets it each tick — the nav grid doesn't change, so it goes to initBot once instead */
+export type ArenaTickState = Omit<ArenaState, 'nav'>;
+
 export interface BotAction {
   move: Vec2;
   aim: Vec2;
   action: 'melee' | 'ranged' | 'special' | 'defend' | 'dash' | 'heal' | 'trap' | null;
+  /** Broadcast to teammates, delivered on the next tick (truncated to TEAM_MESSAGE_MAX_LENGTH) */
+  message?: string;
+  /** Set by the bot runner, never by think() — sanitizeAction drops it */
+  fault?: BotFault;
+}
+
+/**
+ * think()'s fourth argument: plain JSON data the bot keeps between ticks.
+ * Owned by the runner, carried across hot swaps, capped at BOT_MEMORY_MAX_SIZE.
+ */
+export type BotMemory = Record<string, unknown>;
+
+/** Runner-detected problems, reported with the (idle) action of the tick they were caught on */
+export type BotFault = 'cpu_timeout';
+
+/** Which attacks can damage teammates in team battles */
+export interface FriendlyFireRules {
+  projectiles: boolean;
+  specials: boolean;
+  traps: boolean;
+}
+
+/** Team battle setup. Without one every bot is its own team (free-for-all). */
+export interface TeamSetup {
+  /** Team index per bot id */
+  teams: number[];
+  friendlyFire: FriendlyFireRules;
 }
 
 export interface BotData {
   id: number;
   name: string;
+  /** Team index — equals `id` in free-for-all */
+  team: number;
   hp: number;
   energy: number;
   position: Vec2;
@@ -106,6 +184,12 @@ export interface BotData {
     attackCommit: number;
   };
   lastCombatTick: number;
+  /** Hung workers so far (see GameRules.cpu) */
+  cpuStrikes: number;
+  /** Ticks left sitting out a CPU penalty — think() output is ignored meanwhile */
+  penaltyTicks: number;
+  /** false once knocked out — KO'd bots stay in the list but no longer act */
+  alive: boolean;
   momentum: number;
   isDefending: boolean;
   lastAction: BotAction | null;
@@ -140,9 +224,9 @@ export interface Trap {
 
 export interface GameEvent {
   type: 'melee_hit' | 'ranged_fire' | 'ranged_hit' | 'special_use' | 'special_hit'
-    | 'defend_start' | 'defend_end' | 'pickup' | 'burn_tick' | 'ko' | 'miss'
+    | 'defend_start' | 'defend_end' | 'pickup' | 'burn_tick' | 'ko' | 'double_ko' | 'miss'
     | 'dash_use' | 'heal_use' | 'trap_place' | 'trap_trigger'
-    | 'lost_sight' | 'gained_sight';
+    | 'lost_sight' | 'gained_sight' | 'cpu_timeout';
   attacker?: number;
   target?: number;
   damage?: number;
@@ -170,10 +254,12 @@ export interface TerrainData {
 }
 
 export interface ArenaConfig {
+  seed: number;
   biome: BiomeType;
   obstacles: ObstacleData[];
   terrain: TerrainData;
-  spawnPoints: [Vec2, Vec2];
+  /** One per bot, in bot id order */
+  spawnPoints: Vec2[];
   bounds: { width: number; height: number };
 }
 
@@ -184,7 +270,8 @@ export interface ThoughtBubble {
   text: string;
   timestamp: number;
   duration: number;
-  provider: 'claude' | 'openai';
+  /** Provider id from src/utils/providers.ts */
+  provider: string;
 }
 
 export type ThoughtTriggerType =
@@ -201,3 +288,28 @@ export type ThoughtTriggerType =
   | 'lost_sight'
   | 'gained_sight';
 
+
+// --- Bot Execution ---
+
+/** Anything that can run bot think() code: the Web Worker runner, a Node worker-thread one or an in-process one */
+export interface BotController {
+  /** `nav` is the match's grid; the controller adds it to every tick's arena as `arena.nav` */
+  initBot(botId: number, code: string, seed: number | undefined, nav: Readonly<NavGrid>): Promise<void>;
+  getAction(botId: number, me: BotState, enemies: EnemyState[], arena: ArenaTickState): Promise<BotAction>;
+  getCode(botId: number): string | null;
+  /** The bot's memory as of its last completed think() */
+  getMemory(botId: number): BotMemory;
+  terminate(): void;
+}
+
+/** Outcome of swapping new think() code into a running bot; on failure the old code keeps running */
+export interface HotSwapResult {
+  ok: boolean;
+  /** Why the swap was refused (validation, compile error, timeout) */
+  error: string | null;
+}
+
+/** A GameEvent stamped with the tick it happened on (headless event stream) */
+export interface MatchEvent extends GameEvent {
+  tick: number;
+}
@@ -6,21 +6,46 @@ import { PickupRenderer } from './renderer/PickupRenderer';
 import { TrapRenderer } from './renderer/TrapRenderer';
 import { ParticleSystem } from './renderer/ParticleSystem';
 import { ThoughtBubbleRenderer } from './renderer/ThoughtBubbleRenderer';
+import { DebugDrawRenderer } from './renderer/DebugDrawRenderer';
 import { GameLoop } from './engine/GameLoop';
 import type { GameState } from './engine/GameState';
-import type { GameEvent, ArenaConfig } from './engine/types';
+import type { GameEvent, ArenaConfig, TeamSetup } from './engine/types';
 import { BotRunner } from './bots/BotRunner';
 import { presetPersonalities, presetCode, presetStyles } from './bots/presets';
 import { generateBot } from './utils/api';
 import type { BotStyle } from './engine/types';
-import { P1_COLOR, P2_COLOR } from './utils/constants';
+import { BOT_COLORS, BOT_CSS_COLORS, MIN_BOTS, MAX_BOTS, TEAM_SIZES, THINK_STATS_INTERVAL } from './utils/constants';
 import { showAnnouncement } from './ui/Announcer';
 import { clearLog, addLogEntry } from './ui/BattleLog';
-import { updateHUD, setHUDNames } from './ui/HUD';
+import { updateHUD, setHUDBots } from './ui/HUD';
 import { spawnDamageNumber } from './ui/DamageNumbers';
 import { generateArena } from './arena/ArenaGenerator';
 import { CodeEvolutionManager } from './thoughts/CodeEvolutionManager';
 import type { BotEvolutionConfig } from './thoughts/CodeEvolutionManager';
+import { ThoughtManager } from './thoughts/ThoughtManager';
+import type { ThoughtCallbacks } from './thoughts/ThoughtManager';
+import { randomSeed, parseSeed, botSeed } from './utils/random';
+import { ReplayRecorder, createReplayActionSource, arenaFromReplay, encodeReplayFile, decodeReplayFile } from './engine/Replay';
+import type { Replay } from './engine/Replay';
+import { ReplayTimeline } from './engine/ReplayTimeline';
+import { showTransport, hideTransport, updateTransport } from './ui/Transport';
+import { resetDebugConsole, addDebugOutput, isDebugVisible, updateThinkStats } from './ui/DebugConsole';
+import { openRulesEditor } from './ui/RulesEditor';
+import { showValidationReport, clearValidationReport } from './ui/ValidationReport';
+import { showEvolutionHistory } from './ui/EvolutionHistory';
+import { showThinkReport } from './ui/ThinkReport';
+import type { ThinkStats } from './bots/ThinkProfiler';
+import { openBotLibrary } from './ui/BotLibraryScreen';
+import { openCodeEditor } from './ui/CodeEditorScreen';
+import { saveToLibrary, recordLibraryResult, getLibraryBot, importToLibrary } from './bots/BotLibrary';
+import type { BotDraft, BotRecord, BotVersionSource, LibraryRef } from './bots/BotLibrary';
+import { createBotFile, botFileFromLibrary, serializeBotFile, decodeBotFile, botFileName } from './bots/BotFile';
+import type { BotFile } from './bots/BotFile';
+import { runSmokeTest } from './bots/runSmokeTest';
+import { downloadBlob } from './utils/download';
+import { CLASSIC_RULES, cloneRules } from './engine/GameRules';
+import type { GameRules } from './engine/GameRules';
+import { PROVIDERS, getProvider, providerName } from './utils/providers';
 
 // State
 let sceneManager: SceneManager | null = null;
@@ -31,18 +56,113 @@ let pickupRenderer: PickupRenderer | null = null;
 let trapRenderer: TrapRenderer | null = null;
 let particleSystem: ParticleSystem | null = null;
 let thoughtRenderer: ThoughtBubbleRenderer | null = null;
+let debugDrawRenderer: DebugDrawRenderer | null = null;
 let evolutionManager: CodeEvolutionManager | null = null;
+let thoughtManager: ThoughtManager | null = null;
 let gameLoop: GameLoop | null = null;
 let botRunner: BotRunner | null = null;
 let animationId: number | null = null;
 let currentArenaConfig: ArenaConfig | null = null;
+let currentSeed = 0;
+// Replay being watched (null during a live match) and the last finished match, for export
+let currentReplay: Replay | null = null;
+let lastReplay: Replay | null = null;
+// Balance for the next live match — picked on the rules screen, sent along with bot generation
+let currentRules: GameRules = cloneRules(CLASSIC_RULES);
 
-const botCodes: [string | null, string | null] = [null, null];
-const botStyles: [BotStyle | null, BotStyle | null] = [null, null];
-const botNames: [string, string] = ['Bot 1', 'Bot 2'];
-const botPersonalities: [string, string] = ['', ''];
-// P1 = Claude, P2 = OpenAI
-const botProviders: ['claude', 'openai'] = ['claude', 'openai'];
+// One entry per creation-screen slot (MIN_BOTS..MAX_BOTS); index = bot id
+const botCodes: Array<string | null> = [null, null];
+const botStyles: Array<BotStyle | null> = [null, null];
+const botNames: string[] = ['Bot 1', 'Bot 2'];
+const botPersonalities: string[] = ['', ''];
+const botSources: BotVersionSource[] = ['generated', 'generated'];
+// Library version each slot was loaded from or saved as — match results are credited to it
+const botLibraryRefs: Array<LibraryRef | null> = [null, null];
+// Bot file each slot was imported from — keeps its lineage for export and library saves
+const botFiles: Array<BotFile | null> = [null, null];
+// TypeScript source of slots written in the editor's TypeScript mode — botCodes holds what it compiled to
+const botTypeScript: Array<string | null> = [null, null];
+// Each bot's code when the last live match ended (evolved brains included), and how it finished
+let lastMatchCodes: Array<string | null> = [];
+let lastMatchResults: Array<keyof BotRecord> = [];
+
+// Odd players (P1, P3, ...) start on Claude, even players on OpenAI
+function defaultProvider(botId: number): string {
+  return botId % 2 === 0 ? 'claude' : 'openai';
+}
+
+/** Provider id picked in the bot's creation panel */
+function botProvider(botId: number): string {
+  const select = document.getElementById(`p${botId + 1}-provider`) as HTMLSelectElement | null;
+  return select?.value || defaultProvider(botId);
+}
+
+/** Model typed/picked in the bot's creation panel, else the provider's default */
+function botModel(botId: number): string {
+  const input = document.getElementById(`p${botId + 1}-model`) as HTMLInputElement | null;
+  return input?.value.trim() || (getProvider(botProvider(botId))?.model ?? '');
+}
+
+function botModelLabel(botId: number): string {
+  return `${providerName(botProvider(botId))} ${botModel(botId)}`;
+}
+
+/** Fill a panel's provider select; switching provider resets the model to its default */
+function bindProviderPicker(playerId: number) {
+  const select = document.getElementById(`p${playerId}-provider`) as HTMLSelectElement;
+  const modelInput = document.getElementById(`p${playerId}-model`) as HTMLInputElement;
+  const modelList = document.getElementById(`p${playerId}-models`)!;
+
+  for (const provider of PROVIDERS) select.add(new Option(provider.name, provider.id));
+  const showModels = () => {
+    const provider = getProvider(select.value)!;
+    modelInput.value = provider.model;
+    modelList.innerHTML = provider.models.map(m => `<option value="${m}"></option>`).join('');
+  };
+  select.value = defaultProvider(playerId - 1);
+  showModels();
+  select.addEventListener('change', showModels);
+}
+
+// What each bot's LLM does mid-match: rewrite its think() code, or only comment on the fight
+type BrainMode = 'evolve' | 'commentary';
+
+function botBrainMode(botId: number): BrainMode {
+  const select = document.getElementById(`p${botId + 1}-brain`) as HTMLSelectElement | null;
+  return select?.value === 'commentary' ? 'commentary' : 'evolve';
+}
+
+function botClass(botId: number): string {
+  return `p${botId + 1}`;
+}
+
+function botColor(botId: number): number {
+  return BOT_COLORS[botId % BOT_COLORS.length];
+}
+
+const TEAM_NAMES = ['ALPHA', 'BRAVO'];
+
+function isTeamMode(): boolean {
+  return (document.getElementById('match-mode') as HTMLSelectElement).value === 'teams';
+}
+
+/** First half of the slots is team ALPHA, second half BRAVO — they spawn on opposite sides of the ring */
+function buildTeamSetup(botCount: number): TeamSetup | null {
+  if (!isTeamMode()) return null;
+  const checked = (id: string) => (document.getElementById(id) as HTMLInputElement).checked;
+  return {
+    teams: Array.from({ length: botCount }, (_, i) => (i < botCount / 2 ? 0 : 1)),
+    friendlyFire: {
+      projectiles: checked('ff-projectiles'),
+      specials: checked('ff-specials'),
+      traps: checked('ff-traps'),
+    },
+  };
+}
+
+function teamSizeValid(botCount: number): boolean {
+  return TEAM_SIZES.some(size => size * 2 === botCount);
+}
 
 // Screens
 function showScreen(id: string) {
@@ -71,7 +191,8 @@ document.querySelectorAll('.btn-preset').forEach(btn => {
 });
 
 // Generate bot buttons
-for (const playerId of [1, 2]) {
+function bindBotPanel(playerId: number) {
+  bindProviderPicker(playerId);
   const btn = document.getElementById(`p${playerId}-generate`) as HTMLButtonElement;
   btn.addEventListener('click', async () => {
     const name = (document.getElementById(`p${playerId}-name`) as HTMLInputElement).value.trim();
@@ -82,12 +203,15 @@ for (const playerId of [1, 2]) {
     const statusEl = document.getElementById(`p${playerId}-status`)!;
     const codePeek = document.getElementById(`p${playerId}-code-peek`) as HTMLElement;
     const codeEl = document.getElementById(`p${playerId}-code`)!;
+    const reportEl = document.getElementById(`p${playerId}-report`)!;
 
     btn.disabled = true;
     btn.classList.add('generating');
-    const provider = botProviders[playerId - 1];
-    statusEl.textContent = `Generating via ${provider === 'claude' ? 'Claude Haiku 4.5' : 'GPT-4.1 Nano'}...`;
+    const provider = botProvider(playerId - 1);
+    const model = botModel(playerId - 1);
+    statusEl.textContent = `Generating via ${model}...`;
     statusEl.className = 'bot-status generating';
+    clearValidationReport(reportEl);
 
     try {
       // Check if we have a preset code for this personality
@@ -101,20 +225,40 @@ for (const playerId of [1, 2]) {
         }
       }
 
+      // Presets are known good; generated code comes back smoke-tested
+      let warnings = false;
+      const source: BotVersionSource = code ? 'preset' : 'generated';
       if (!code) {
-        const result = await generateBot(name, personality, provider);
+        const result = await generateBot(name, personality, provider, model, currentRules, (status) => {
+          statusEl.textContent = status;
+        });
+        showValidationReport(reportEl, result.report, result.repairs);
+        // Code that doesn't compile would only fail again when the battle starts
+        if (!result.report.runnable) throw new Error('generated code failed validation — try again');
         code = result.code;
         style = result.style;
+        warnings = !result.report.ok;
       }
 
+      // Slot was removed while generating
+      if (playerId > botCodes.length) return;
+
       botCodes[playerId - 1] = code;
       botStyles[playerId - 1] = style;
       botNames[playerId - 1] = name;
       botPersonalities[playerId - 1] = personality;
-      statusEl.textContent = `Ready! (${provider === 'claude' ? 'Claude' : 'OpenAI'})`;
-      statusEl.className = 'bot-status ready';
+      botSources[playerId - 1] = source;
+      botLibraryRefs[playerId - 1] = null;
+      botFiles[playerId - 1] = null;
+      botTypeScript[playerId - 1] = null;
+      statusEl.textContent = warnings
+        ? `Ready with warnings (${providerName(provider)})`
+        : `Ready! (${providerName(provider)})`;
+      statusEl.className = `bot-status ${warnings ? 'warning' : 'ready'}`;
       codeEl.textContent = code;
       codePeek.style.display = 'block';
+      document.getElementById(`p${playerId}-save`)!.hidden = false;
+      document.getElementById(`p${playerId}-export`)!.hidden = false;
     } catch (err: any) {
       statusEl.textContent = `Error: ${err.message}`;
       statusEl.className = 'bot-status error';
@@ -125,109 +269,391 @@ for (const playerId of [1, 2]) {
 
     updateBattleButton();
   });
+
+  document.getElementById(`p${playerId}-save`)!.addEventListener('click', () => saveSlotToLibrary(playerId - 1));
+  document.getElementById(`p${playerId}-export`)!.addEventListener('click', () => exportSlot(playerId - 1));
+  document.getElementById(`p${playerId}-edit`)!.addEventListener('click', () => editSlotCode(playerId - 1));
+  document.getElementById(`p${playerId}-import`)!.addEventListener('click', () => {
+    botFileTarget = playerId - 1;
+    botFileInput.click();
+  });
+
+  const panel = document.querySelector(`.bot-panel[data-player="${playerId}"]`) as HTMLElement;
+  panel.addEventListener('dragover', (e) => {
+    if (!e.dataTransfer?.types.includes('Files')) return;
+    e.preventDefault();
+    panel.classList.add('drop-target');
+  });
+  panel.addEventListener('dragleave', () => panel.classList.remove('drop-target'));
+  panel.addEventListener('drop', (e) => {
+    panel.classList.remove('drop-target');
+    const file = e.dataTransfer?.files[0];
+    if (!file) return;
+    e.preventDefault();
+    importIntoSlot(playerId - 1, file);
+  });
+}
+
+// Bot file import: the panel's IMPORT button picks the target slot, then opens the file picker
+const botFileInput = document.getElementById('bot-file') as HTMLInputElement;
+let botFileTarget = 0;
+botFileInput.addEventListener('change', () => {
+  const file = botFileInput.files?.[0];
+  botFileInput.value = '';
+  if (file) importIntoSlot(botFileTarget, file);
+});
+
+for (const playerId of [1, 2]) bindBotPanel(playerId);
+
+/** The slot's bot as the library stores it */
+function slotDraft(botId: number, code: string, source: BotVersionSource) {
+  return {
+    name: botNames[botId],
+    personality: botPersonalities[botId],
+    provider: botProvider(botId),
+    model: botModel(botId),
+    code,
+    style: botStyles[botId],
+    source,
+  };
+}
+
+function setSlotStatus(botId: number, text: string, state: 'ready' | 'warning' | 'error' | 'generating') {
+  const statusEl = document.getElementById(`p${botId + 1}-status`)!;
+  statusEl.textContent = text;
+  statusEl.className = `bot-status ${state}`;
+}
+
+/** Put a ready-made bot (from the library or a file) into a creation panel; the caller sets its origin */
+function loadIntoSlot(botId: number, bot: Omit<BotDraft, 'provider' | 'model'> & { provider: string | null; model: string | null }) {
+  const playerId = botId + 1;
+  (document.getElementById(`p${playerId}-name`) as HTMLInputElement).value = bot.name;
+  (document.getElementById(`p${playerId}-personality`) as HTMLTextAreaElement).value = bot.personality;
+  const providerSelect = document.getElementById(`p${playerId}-provider`) as HTMLSelectElement;
+  if (bot.provider && getProvider(bot.provider)) {
+    providerSelect.value = bot.provider;
+    providerSelect.dispatchEvent(new Event('change'));
+  }
+  if (bot.model) (document.getElementById(`p${playerId}-model`) as HTMLInputElement).value = bot.model;
+
+  botCodes[botId] = bot.code;
+  botStyles[botId] = bot.style;
+  botNames[botId] = bot.name;
+  botPersonalities[botId] = bot.personality;
+  botSources[botId] = bot.source;
+  botLibraryRefs[botId] = null;
+  botFiles[botId] = null;
+  botTypeScript[botId] = null;
+
+  document.getElementById(`p${playerId}-code`)!.textContent = bot.code;
+  (document.getElementById(`p${playerId}-code-peek`) as HTMLElement).style.display = 'block';
+  document.getElementById(`p${playerId}-save`)!.hidden = false;
+  document.getElementById(`p${playerId}-export`)!.hidden = false;
+  updateBattleButton();
+}
+
+async function saveSlotToLibrary(botId: number) {
+  const code = botCodes[botId];
+  if (!code) return;
+  try {
+    // An unchanged imported bot brings its whole lineage along
+    const file = botFiles[botId];
+    const ref = !botLibraryRefs[botId] && file?.lineage && file.code === code
+      ? await importToLibrary(file)
+      : await saveToLibrary(slotDraft(botId, code, botSources[botId]), botLibraryRefs[botId]);
+    botLibraryRefs[botId] = ref;
+    setSlotStatus(botId, `Saved to library as v${ref.version}`, 'ready');
+  } catch (err: any) {
+    setSlotStatus(botId, `Could not save: ${err.message}`, 'error');
+  }
+}
+
+/** Download the slot's bot as a .bot.json — with its library or imported lineage when it has one */
+async function exportSlot(botId: number) {
+  const code = botCodes[botId];
+  if (!code) return;
+  try {
+    const ref = botLibraryRefs[botId];
+    const libraryBot = ref ? await getLibraryBot(ref.botId) : null;
+    const imported = botFiles[botId];
+    const file = libraryBot
+      ? await botFileFromLibrary(libraryBot, ref!.version)
+      : imported && imported.code === code
+        ? imported
+        : await createBotFile(slotDraft(botId, code, botSources[botId]));
+    downloadBlob(new Blob([serializeBotFile(file)], { type: 'application/json' }), botFileName(file.name));
+  } catch (err: any) {
+    setSlotStatus(botId, `Could not export: ${err.message}`, 'error');
+  }
+}
+
+/** Open the slot's code (or a starter bot) in the editor; "use this code" skips generation */
+function editSlotCode(botId: number) {
+  const playerId = botId + 1;
+  const typescript = botTypeScript[botId];
+  const language = typescript !== null ? 'typescript' : 'javascript';
+  openCodeEditor(`CODE EDITOR — PLAYER ${playerId}`, typescript ?? botCodes[botId], language, {
+    rules: () => currentRules,
+    onUse: async (code, source) => {
+      showScreen('creation-screen');
+      if (code === botCodes[botId]) {
+        botTypeScript[botId] = source;
+        return;
+      }
+
+      const name = (document.getElementById(`p${playerId}-name`) as HTMLInputElement).value.trim() || `Bot ${playerId}`;
+      const personality = (document.getElementById(`p${playerId}-personality`) as HTMLTextAreaElement).value.trim();
+      // Saving an edited library bot adds a version parented on the one it came from
+      const ref = botLibraryRefs[botId];
+      loadIntoSlot(botId, { name, personality, provider: null, model: null, code, style: botStyles[botId], source: 'edited' });
+      botLibraryRefs[botId] = ref;
+      botTypeScript[botId] = source;
+
+      const reportEl = document.getElementById(`p${playerId}-report`)!;
+      setSlotStatus(botId, 'Checking...', 'generating');
+      const report = await runSmokeTest(code, currentRules);
+      // Slot was removed or changed while checking
+      if (botCodes[botId] !== code) return;
+      showValidationReport(reportEl, report, 0);
+      if (!report.runnable) {
+        botCodes[botId] = null;
+        setSlotStatus(botId, 'Error: code failed validation — fix it in the editor', 'error');
+        updateBattleButton();
+        return;
+      }
+      const origin = source !== null ? 'hand-written TypeScript' : 'hand-written';
+      setSlotStatus(botId, report.ok ? `Ready! (${origin})` : `Ready with warnings (${origin})`, report.ok ? 'ready' : 'warning');
+    },
+    onCancel: () => showScreen('creation-screen'),
+  });
+  showScreen('editor-screen');
+}
+
+/** Validate a dropped or picked .bot.json, smoke-test its code and load it into the slot */
+async function importIntoSlot(botId: number, blob: Blob) {
+  const reportEl = document.getElementById(`p${botId + 1}-report`)!;
+  clearValidationReport(reportEl);
+  setSlotStatus(botId, 'Importing...', 'generating');
+  try {
+    const file = await decodeBotFile(blob);
+    const report = await runSmokeTest(file.code, currentRules);
+    showValidationReport(reportEl, report, 0);
+    if (!report.runnable) throw new Error('imported code failed validation');
+    // Slot was removed while importing
+    if (botId >= botCodes.length) return;
+
+    loadIntoSlot(botId, { ...file, provider: file.generator?.provider ?? null, model: file.generator?.model ?? null, source: 'imported' });
+    botFiles[botId] = file;
+    setSlotStatus(botId, report.ok ? `Imported ${file.name}` : `Imported ${file.name} with warnings`, report.ok ? 'ready' : 'warning');
+  } catch (err: any) {
+    setSlotStatus(botId, `Import failed: ${err.message}`, 'error');
+  }
+}
+
+// Bot library
+document.getElementById('btn-open-library')!.addEventListener('click', () => {
+  openBotLibrary({
+    slotCount: () => botCodes.length,
+    onLoad: (bot, version, botId) => {
+      loadIntoSlot(botId, { ...bot, code: version.code, style: version.style, source: version.source });
+      botLibraryRefs[botId] = { botId: bot.id, version: version.version };
+      setSlotStatus(botId, `Loaded v${version.version} from library`, 'ready');
+      clearValidationReport(document.getElementById(`p${botId + 1}-report`)!);
+      showScreen('creation-screen');
+    },
+    onClose: () => showScreen('creation-screen'),
+  });
+  showScreen('library-screen');
+});
+
+// Extra free-for-all slots (P3..P8), cloned from the panel template
+function addBotSlot() {
+  if (botCodes.length >= MAX_BOTS) return;
+  const playerId = botCodes.length + 1;
+  const template = document.getElementById('bot-panel-template') as HTMLTemplateElement;
+  document.getElementById('creation-panels')!
+    .insertAdjacentHTML('beforeend', template.innerHTML.replaceAll('{n}', String(playerId)));
+
+  const presetSelect = document.getElementById(`p${playerId}-preset`) as HTMLSelectElement;
+  for (const [key, preset] of Object.entries(presetPersonalities)) {
+    presetSelect.add(new Option(preset.name, key));
+  }
+  presetSelect.addEventListener('change', () => {
+    const data = presetPersonalities[presetSelect.value];
+    if (!data) return;
+    (document.getElementById(`p${playerId}-name`) as HTMLInputElement).value = data.name;
+    (document.getElementById(`p${playerId}-personality`) as HTMLTextAreaElement).value = data.personality;
+  });
+
+  botCodes.push(null);
+  botStyles.push(null);
+  botNames.push(`Bot ${playerId}`);
+  botPersonalities.push('');
+  botSources.push('generated');
+  botLibraryRefs.push(null);
+  botFiles.push(null);
+  botTypeScript.push(null);
+  bindBotPanel(playerId);
+  updateSlotButtons();
+  updateBattleButton();
+}
+
+function removeBotSlot() {
+  if (botCodes.length <= MIN_BOTS) return;
+  const playerId = botCodes.length;
+  const panel = document.querySelector(`.bot-panel[data-player="${playerId}"]`)!;
+  panel.previousElementSibling?.remove(); // divider
+  panel.remove();
+
+  botCodes.pop();
+  botStyles.pop();
+  botNames.pop();
+  botPersonalities.pop();
+  botSources.pop();
+  botLibraryRefs.pop();
+  botFiles.pop();
+  botTypeScript.pop();
+  updateSlotButtons();
+  updateBattleButton();
+}
+
+function updateTeamLabels() {
+  const setup = buildTeamSetup(botCodes.length);
+  for (let p = 1; p <= botCodes.length; p++) {
+    const header = document.querySelector(`.bot-panel[data-player="${p}"] .panel-header`)!;
+    const team = setup?.teams[p - 1];
+    header.textContent = `PLAYER ${p}`;
+    if (team !== undefined) {
+      const label = document.createElement('span');
+      label.className = 'panel-team';
+      label.textContent = ` · ${TEAM_NAMES[team]}`;
+      header.appendChild(label);
+    }
+  }
+}
+
+document.getElementById('match-mode')!.addEventListener('change', () => {
+  document.getElementById('team-options')!.hidden = !isTeamMode();
+  updateBattleButton();
+});
+
+function updateSlotButtons() {
+  (document.getElementById('btn-add-bot') as HTMLButtonElement).disabled = botCodes.length >= MAX_BOTS;
+  (document.getElementById('btn-remove-bot') as HTMLButtonElement).disabled = botCodes.length <= MIN_BOTS;
 }
 
+document.getElementById('btn-add-bot')!.addEventListener('click', addBotSlot);
+document.getElementById('btn-remove-bot')!.addEventListener('click', removeBotSlot);
+
 function updateBattleButton() {
   const btn = document.getElementById('btn-battle') as HTMLButtonElement;
-  btn.disabled = !(botCodes[0] && botCodes[1]);
+  const teamsOk = !isTeamMode() || teamSizeValid(botCodes.length);
+  btn.disabled = !botCodes.every(code => code) || !teamsOk;
+  document.getElementById('team-hint')!.textContent = teamsOk
+    ? ''
+    : `Team battles need ${TEAM_SIZES.map(n => `${n}v${n}`).join(' or ')} (${TEAM_SIZES.map(n => n * 2).join(' or ')} bots)`;
+  updateTeamLabels();
 }
 
+// Rules editor
+document.getElementById('btn-edit-rules')!.addEventListener('click', () => {
+  openRulesEditor(currentRules, {
+    onApply: (rules) => {
+      currentRules = rules;
+      document.getElementById('rules-name')!.textContent = rules.name;
+      showScreen('creation-screen');
+    },
+    onCancel: () => showScreen('creation-screen'),
+  });
+  showScreen('rules-screen');
+});
+
 // Battle button
 document.getElementById('btn-battle')!.addEventListener('click', startBattle);
 
 async function startBattle() {
-  if (!botCodes[0] || !botCodes[1]) return;
+  if (!botCodes.every(code => code)) return;
+  const codes = botCodes as string[];
+  const names = [...botNames];
+  const teams = buildTeamSetup(codes.length);
+  if (teams && !teamSizeValid(codes.length)) return;
+  const rules = currentRules;
 
   showScreen('battle-screen');
   clearLog();
+  hideTransport();
+  currentReplay = null;
 
-  const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
-
-  // Initialize renderer
-  if (!sceneManager) {
-    sceneManager = new SceneManager(canvas);
-    arenaRenderer = new ArenaRenderer(sceneManager.scene);
-  }
+  // Match seed — typed in on the creation screen, or fresh each battle
+  const seedInput = document.getElementById('match-seed') as HTMLInputElement;
+  currentSeed = parseSeed(seedInput.value) ?? randomSeed();
 
   // Generate procedural arena
-  currentArenaConfig = generateArena();
-  addLogEntry(`Biome: ${currentArenaConfig.biome.toUpperCase()}`, 'system');
-
-  // Set biome visuals
-  sceneManager.setBiome(currentArenaConfig.biome);
-
-  // Clear old objects
-  botRenderer?.clear();
-  projectileRenderer?.clear();
-  pickupRenderer?.clear();
-  trapRenderer?.clear();
-  particleSystem?.clear();
-  thoughtRenderer?.clear();
-  evolutionManager?.dispose();
+  currentArenaConfig = generateArena(undefined, currentSeed, codes.length);
+  addLogEntry(`Biome: ${currentArenaConfig.biome.toUpperCase()} | Seed: ${currentSeed} | Rules: ${rules.name}`, 'system');
 
-  // Rebuild arena
-  arenaRenderer!.buildArena(currentArenaConfig);
+  setupBattleScene(currentArenaConfig, [...botStyles], names, teams, rules);
 
-  botRenderer = new BotRenderer(sceneManager.scene);
-  botRenderer.setTerrain(currentArenaConfig.terrain);
-  projectileRenderer = new ProjectileRenderer(sceneManager.scene);
-  pickupRenderer = new PickupRenderer(sceneManager.scene);
-  trapRenderer = new TrapRenderer(sceneManager.scene);
-  particleSystem = new ParticleSystem(sceneManager.scene);
-  thoughtRenderer = new ThoughtBubbleRenderer();
-
-  botRenderer.createBots([botStyles[0], botStyles[1]]);
-  setHUDNames(botNames[0], botNames[1]);
+  // Bots set to live evolution go to the code evolution manager, the rest only comment
+  const botConfigs: BotEvolutionConfig[] = names.map((name, id) => ({
+    id,
+    name,
+    personality: botPersonalities[id],
+    provider: botProvider(id),
+    model: botModel(id),
+  }));
+  const thoughtCallbacks: ThoughtCallbacks = {
+    onThoughtStart: (botId, provider) => {
+      thoughtRenderer?.startThought(botId, provider);
+    },
+    onThoughtUpdate: (botId, text) => {
+      thoughtRenderer?.updateText(botId, text);
+    },
+    onThoughtComplete: (botId, fullText, duration) => {
+      thoughtRenderer?.completeThought(botId, duration);
+      const provider = providerName(botProvider(botId)).toUpperCase();
+      addLogEntry(`[${provider}] ${names[botId]}: "${fullText}"`, botClass(botId));
+    },
+    onThoughtExpire: (_botId) => {
+      // Don't remove — persist until next thought replaces it
+    },
+  };
 
-  // Set up code evolution manager
   evolutionManager = new CodeEvolutionManager();
-  const botEvolutionConfigs: BotEvolutionConfig[] = [
-    { id: 0, name: botNames[0], personality: botPersonalities[0], provider: 'claude' },
-    { id: 1, name: botNames[1], personality: botPersonalities[1], provider: 'openai' },
-  ];
   evolutionManager.configure(
-    botEvolutionConfigs,
+    botConfigs.filter(bot => botBrainMode(bot.id) === 'evolve'),
     {
-      onCodeUpdate: async (botId, code) => {
-        const success = await botRunner?.hotSwapCode(botId, code);
-        if (success) {
-          const provider = botId === 0 ? 'CLAUDE' : 'OPENAI';
-          const cssClass = botId === 0 ? 'p1' : 'p2';
-          addLogEntry(`[${provider}] ${botNames[botId]}'s brain evolved!`, cssClass);
+      ...thoughtCallbacks,
+      onCodeUpdate: async (botId, code, resetMemory) => {
+        const result = await botRunner?.hotSwapCode(botId, code, resetMemory) ?? { ok: false, error: 'No match running' };
+        if (result.ok) {
+          gameLoop?.recordCodeSwap(botId, code, botRunner!.getMemory(botId));
+          const provider = providerName(botProvider(botId)).toUpperCase();
+          const reset = resetMemory ? ' (memory wiped)' : '';
+          addLogEntry(`[${provider}] ${names[botId]}'s brain evolved!${reset}`, botClass(botId));
+        } else {
+          addLogEntry(`${names[botId]}'s new brain was rejected: ${result.error}`, botClass(botId));
         }
-        return success ?? false;
-      },
-      onThoughtStart: (botId, provider) => {
-        thoughtRenderer?.startThought(botId, provider);
+        return result;
       },
-      onThoughtUpdate: (botId, text) => {
-        thoughtRenderer?.updateText(botId, text);
-      },
-      onThoughtComplete: (botId, fullText, duration) => {
-        thoughtRenderer?.completeThought(botId, duration);
-        const provider = botId === 0 ? 'CLAUDE' : 'OPENAI';
-        const cssClass = botId === 0 ? 'p1' : 'p2';
-        addLogEntry(`[${provider}] ${botNames[botId]}: "${fullText}"`, cssClass);
-      },
-      onThoughtExpire: (_botId) => {
-        // Don't remove — persist until next thought replaces it
+      onCodeRevert: async (botId, code, from, to) => {
+        const result = await botRunner?.hotSwapCode(botId, code) ?? { ok: false, error: 'No match running' };
+        if (result.ok) {
+          gameLoop?.recordCodeSwap(botId, code, botRunner!.getMemory(botId));
+          addLogEntry(`${names[botId]}'s v${from.version} brain did worse — rolled back to v${to.version}`, botClass(botId));
+        }
+        return result;
       },
     },
     (botId) => botRunner?.getCode(botId) ?? null,
+    (botId) => botRunner?.getMemory(botId) ?? {},
   );
 
-  // Init bot workers
-  botRunner = new BotRunner();
-  try {
-    await botRunner.initBot(0, botCodes[0]);
-    await botRunner.initBot(1, botCodes[1]);
-  } catch (err: any) {
-    addLogEntry(`Error initializing bots: ${err.message}`, 'system');
-    return;
-  }
+  thoughtManager = new ThoughtManager();
+  thoughtManager.configure(botConfigs.filter(bot => botBrainMode(bot.id) === 'commentary'), thoughtCallbacks);
 
-  // Start game loop
-  gameLoop = new GameLoop(
+  // The loop comes first: setting its arena builds the nav grid the bots are initialized with
+  const loop = new GameLoop(
     onTick,
     async (botId, state) => {
       return botRunner!.getAction(
@@ -238,11 +664,37 @@ async function startBattle() {
       );
     },
     onGameOver,
+    rules,
+  );
+  loop.state.arenaConfig = currentArenaConfig;
+
+  // Init bot workers
+  botRunner = new BotRunner(rules.cpu.hangMs);
+  botRunner.onDebug = (botId, output) => {
+    addDebugOutput(botId, gameLoop?.state.tick ?? 0, output);
+    debugDrawRenderer?.setShapes(botId, output.shapes, botColor(botId));
+  };
+  try {
+    for (let i = 0; i < codes.length; i++) {
+      await botRunner.initBot(i, codes[i], botSeed(currentSeed, i), loop.state.nav);
+    }
+  } catch (err: any) {
+    addLogEntry(`Error initializing bots: ${err.message}`, 'system');
+    return;
+  }
+
+  // Record the match so it can be exported from the win screen
+  loop.recorder = new ReplayRecorder(
+    currentSeed,
+    currentArenaConfig,
+    names.map((name, i) => ({ name, style: botStyles[i], code: codes[i] })),
+    teams,
+    rules,
   );
 
-  // Set arena config on game state before starting
-  gameLoop.state.arenaConfig = currentArenaConfig;
-  gameLoop.start(botNames[0], botNames[1]);
+  // Start game loop
+  gameLoop = loop;
+  loop.start(names, currentSeed, teams);
 
   // Show announcement
   setTimeout(() => showAnnouncement('BATTLE START!', '#ffeb3b', 1500), 300);
@@ -253,16 +705,123 @@ async function startBattle() {
   renderLoop();
 }
 
+/** Watch a recorded match: same renderers, but actions come from the replay instead of BotRunner */
+function startReplay(replay: Replay) {
+  if (replay.bots.length < MIN_BOTS || replay.bots.length > MAX_BOTS) return;
+
+  botRunner?.terminate();
+  evolutionManager?.dispose();
+  thoughtManager?.dispose();
+  gameLoop?.stop();
+
+  showScreen('battle-screen');
+  clearLog();
+  currentReplay = replay;
+  currentSeed = replay.seed;
+  currentArenaConfig = arenaFromReplay(replay);
+  const names = replay.bots.map(b => b.name);
+
+  addLogEntry(`REPLAY | Biome: ${currentArenaConfig?.biome.toUpperCase() ?? 'DEFAULT'} | Seed: ${currentSeed} | Rules: ${replay.rules.name}`, 'system');
+
+  setupBattleScene(currentArenaConfig, replay.bots.map(b => b.style), names, replay.teams, replay.rules);
+
+  const loop = new GameLoop(onTick, createReplayActionSource(replay), onGameOver, replay.rules);
+  loop.timeline = new ReplayTimeline(replay);
+  loop.state.arenaConfig = currentArenaConfig;
+  gameLoop = loop;
+
+  showTransport(loop.timeline.totalTicks, loop.timeline.markers, {
+    onTogglePause: () => {
+      if (loop.paused) loop.resume();
+      else loop.pause();
+      updateTransport(loop.state.tick, loop.paused);
+    },
+    onStepBack: () => {
+      loop.pause();
+      loop.stepBack();
+    },
+    onStepForward: () => {
+      loop.pause();
+      loop.stepForward();
+    },
+    onSpeed: (speed) => loop.setSpeed(speed),
+    onSeek: (tick) => loop.seek(tick),
+  });
+
+  loop.start(names, currentSeed, replay.teams);
+
+  setTimeout(() => showAnnouncement('REPLAY', '#ffeb3b', 1500), 300);
+
+  if (animationId) cancelAnimationFrame(animationId);
+  renderLoop();
+}
+
+function setupBattleScene(
+  arenaConfig: ArenaConfig | null,
+  styles: Array<BotStyle | null>,
+  names: string[],
+  teams: TeamSetup | null,
+  rules: GameRules,
+) {
+  const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
+
+  // Initialize renderer
+  if (!sceneManager) {
+    sceneManager = new SceneManager(canvas);
+    arenaRenderer = new ArenaRenderer(sceneManager.scene);
+  }
+
+  // Clear old objects
+  botRenderer?.clear();
+  projectileRenderer?.clear();
+  pickupRenderer?.clear();
+  trapRenderer?.clear();
+  particleSystem?.clear();
+  thoughtRenderer?.clear();
+  debugDrawRenderer?.clear();
+  evolutionManager?.dispose();
+  thoughtManager?.dispose();
+
+  // Set biome visuals and rebuild arena
+  if (arenaConfig) {
+    sceneManager.setBiome(arenaConfig.biome);
+    arenaRenderer!.buildArena(arenaConfig);
+  }
+
+  botRenderer = new BotRenderer(sceneManager.scene);
+  botRenderer.setTerrain(arenaConfig?.terrain ?? null);
+  projectileRenderer = new ProjectileRenderer(sceneManager.scene);
+  pickupRenderer = new PickupRenderer(sceneManager.scene);
+  trapRenderer = new TrapRenderer(sceneManager.scene);
+  particleSystem = new ParticleSystem(sceneManager.scene);
+  thoughtRenderer = new ThoughtBubbleRenderer();
+  debugDrawRenderer = new DebugDrawRenderer(sceneManager.scene);
+  debugDrawRenderer.setTerrain(arenaConfig?.terrain ?? null);
+  debugDrawRenderer.setVisible(isDebugVisible());
+
+  botRenderer.createBots(styles);
+  setHUDBots(names, teams?.teams, rules);
+  resetDebugConsole(names, visible => debugDrawRenderer?.setVisible(visible));
+}
+
 function onTick(state: GameState, events: GameEvent[]) {
-  // Feed events to evolution manager
+  // Feed events to the evolution and commentary managers
   evolutionManager?.processEvents(state, events);
+  thoughtManager?.processEvents(state, events);
+
+  // Replays have no evolution manager — surface the recorded hot-swaps instead
+  if (currentReplay) {
+    for (const swap of currentReplay.codeSwaps) {
+      if (swap.tick === state.tick - 1) {
+        addLogEntry(`${state.bots[swap.botId]?.name}'s brain evolved!`, botClass(swap.botId));
+      }
+    }
+  }
 
   // Process events for UI
   for (const event of events) {
     if (event.text) {
-      const cssClass = event.attacker !== undefined
-        ? (event.attacker === 0 ? 'p1' : 'p2')
-        : 'system';
+      const cssClass = event.attacker !== undefined ? botClass(event.attacker) : 'system';
       addLogEntry(event.text, cssClass);
     }
 
@@ -274,7 +833,7 @@ function onTick(state: GameState, events: GameEvent[]) {
 
     // Particles
     if (event.position && particleSystem) {
-      const color = event.attacker === 0 ? P1_COLOR : P2_COLOR;
+      const color = botColor(event.attacker ?? 0);
       if (event.type === 'melee_hit') {
         particleSystem.emit(event.position, color, 10);
         if (event.target !== undefined) botRenderer?.flashHit(event.target);
@@ -292,14 +851,14 @@ function onTick(state: GameState, events: GameEvent[]) {
     // New ability effects
     if (event.position && particleSystem) {
       if (event.type === 'dash_use') {
-        const color = event.attacker === 0 ? P1_COLOR : P2_COLOR;
+        const color = botColor(event.attacker ?? 0);
         particleSystem.emit(event.position, color, 8);
         if (event.attacker !== undefined) botRenderer?.flashDash(event.attacker);
       } else if (event.type === 'heal_use') {
         particleSystem.emit(event.position, 0x44ff44, 10);
         if (event.attacker !== undefined) botRenderer?.flashHeal(event.attacker);
       } else if (event.type === 'trap_place') {
-        const color = event.attacker === 0 ? P1_COLOR : P2_COLOR;
+        const color = botColor(event.attacker ?? 0);
         particleSystem.emit(event.position, color, 4);
       } else if (event.type === 'trap_trigger') {
         particleSystem.emitExplosion(event.position, 0xff8800);
@@ -318,47 +877,108 @@ function onTick(state: GameState, events: GameEvent[]) {
       spawnDamageNumber(event.position, event.damage, 'special', sceneManager.camera, sceneManager.renderer);
     }
 
-    // KO announcement
+    // KO announcement — a knocked-out bot's last debug drawings go with it
     if (event.type === 'ko') {
       showAnnouncement('K.O.!', '#ff6b6b', 2000);
+      if (event.target !== undefined) debugDrawRenderer?.setShapes(event.target, [], 0);
     }
+    if (event.type === 'double_ko') showAnnouncement('DOUBLE K.O.!', '#ffeb3b', 2500);
+  }
+
+  // Live think() timings for the debug panel — replays didn't run any code
+  if (!currentReplay && botRunner && state.tick % THINK_STATS_INTERVAL === 0) {
+    updateThinkStats(state.bots.map(b => botRunner!.profiler.stats(b.id)));
   }
 
   // Update HUD
   updateHUD(state.bots, state.tick);
+  if (gameLoop?.timeline) updateTransport(state.tick, gameLoop.paused);
 }
 
 function onGameOver(state: GameState) {
   evolutionManager?.dispose();
+  thoughtManager?.dispose();
+  const thinkStats = new Map<number, ThinkStats>();
+  if (!currentReplay && botRunner) {
+    for (const bot of state.bots) thinkStats.set(bot.id, botRunner.profiler.stats(bot.id));
+    updateThinkStats([...thinkStats.values()]);
+    gameLoop?.recorder?.recordFinalMemory(state.bots.map(b => botRunner!.getMemory(b.id)));
+    lastMatchCodes = state.bots.map(b => botRunner!.getCode(b.id));
+    lastMatchResults = state.bots.map(b => matchResult(state, b.id));
+    for (const bot of state.bots) {
+      const ref = botLibraryRefs[bot.id];
+      if (ref) recordLibraryResult(ref, lastMatchResults[bot.id]).catch(err => console.warn('Could not record result:', err));
+    }
+  }
 
   setTimeout(() => {
+    // Replay was scrubbed back before the win screen came up
+    if (gameLoop && gameLoop.state !== state) return;
+    if (!state.gameOver) return;
+
     const winScreen = document.getElementById('win-screen')!;
     const winTitle = document.getElementById('win-announcement')!;
     const winStats = document.getElementById('win-stats')!;
+    const winSeed = document.getElementById('win-seed')!;
 
-    if (state.winner !== null) {
+    if (state.teamSetup && state.winningTeam !== null) {
+      const firstMember = state.bots.find(b => b.team === state.winningTeam)!;
+      winTitle.textContent = `TEAM ${TEAM_NAMES[state.winningTeam]} WINS!`;
+      winTitle.style.color = BOT_CSS_COLORS[firstMember.id % BOT_CSS_COLORS.length];
+    } else if (state.winner !== null) {
       const winner = state.bots[state.winner];
       winTitle.textContent = `${winner.name} WINS!`;
-      winTitle.style.color = state.winner === 0 ? '#ff6b6b' : '#4ecdc4';
+      winTitle.style.color = BOT_CSS_COLORS[state.winner % BOT_CSS_COLORS.length];
     } else {
-      winTitle.textContent = 'DRAW!';
+      winTitle.textContent = state.getAliveBots().length ? 'DRAW!' : 'DOUBLE K.O. — DRAW!';
       winTitle.style.color = '#ffeb3b';
     }
 
-    const statsHTML = state.bots.map(bot => {
-      const provider = bot.id === 0 ? 'Claude Haiku 4.5' : 'GPT-4.1 Nano';
-      return `<div>
-        <strong style="color: ${bot.id === 0 ? '#ff6b6b' : '#4ecdc4'}">${bot.name}</strong>
-        <span style="opacity: 0.6; font-size: 0.8em">(${provider})</span><br>
-        HP: ${Math.max(0, Math.ceil(bot.hp))} | Damage Dealt: ${bot.damageDealt} | Damage Taken: ${bot.damageTaken}
-      </div>`;
-    }).join('<br>');
-    winStats.innerHTML = statsHTML;
+    // Names and model labels come from imported files — text nodes only
+    winStats.replaceChildren();
+    state.bots.forEach((bot, i) => {
+      if (i > 0) winStats.appendChild(document.createElement('br'));
+      const provider = currentReplay ? 'Replay' : botModelLabel(bot.id);
+      const name = document.createElement('strong');
+      name.style.color = BOT_CSS_COLORS[bot.id % BOT_CSS_COLORS.length];
+      name.textContent = bot.name;
+      const label = document.createElement('span');
+      label.style.opacity = '0.6';
+      label.style.fontSize = '0.8em';
+      label.textContent = `(${provider}${state.teamSetup ? ` · ${TEAM_NAMES[bot.team]}` : ''})`;
+      const row = document.createElement('div');
+      row.append(
+        name, ' ', label, document.createElement('br'),
+        `HP: ${Math.max(0, Math.ceil(bot.hp))} | Damage Dealt: ${bot.damageDealt} | Damage Taken: ${bot.damageTaken}`,
+      );
+      winStats.appendChild(row);
+    });
+    winSeed.textContent = `Seed: ${state.seed}`;
+    showEvolutionHistory(
+      document.getElementById('win-evolution')!,
+      state.bots,
+      !currentReplay && evolutionManager ? evolutionManager.getHistory() : new Map(),
+    );
+    showThinkReport(document.getElementById('win-profile')!, state.bots, thinkStats);
+
+    lastReplay = currentReplay ?? gameLoop?.recorder?.getReplay() ?? null;
+    (document.getElementById('btn-export-replay') as HTMLButtonElement).disabled = !lastReplay;
+    const saveButton = document.getElementById('btn-save-library') as HTMLButtonElement;
+    saveButton.disabled = !!currentReplay;
+    saveButton.textContent = 'SAVE BOTS TO LIBRARY';
 
     showScreen('win-screen');
   }, 2500);
 }
 
+function matchResult(state: GameState, botId: number): keyof BotRecord {
+  if (state.teamSetup && state.winningTeam !== null) {
+    return state.bots[botId].team === state.winningTeam ? 'wins' : 'losses';
+  }
+  if (state.winner !== null) return state.winner === botId ? 'wins' : 'losses';
+  return 'draws';
+}
+
 function renderLoop() {
   animationId = requestAnimationFrame(renderLoop);
 
@@ -404,6 +1024,7 @@ function renderLoop() {
 
   // Expire old thoughts
   evolutionManager?.update(performance.now());
+  thoughtManager?.update(performance.now());
 
   sceneManager.render();
 }
@@ -420,24 +1041,80 @@ function screenShake() {
 document.getElementById('btn-rematch')!.addEventListener('click', () => {
   botRunner?.terminate();
   evolutionManager?.dispose();
-  startBattle();
+  thoughtManager?.dispose();
+  if (currentReplay) {
+    startReplay(currentReplay);
+  } else {
+    startBattle();
+  }
+});
+
+// Save every bot of the last match; brains that evolved become a new version of their bot
+document.getElementById('btn-save-library')!.addEventListener('click', async () => {
+  const btn = document.getElementById('btn-save-library') as HTMLButtonElement;
+  btn.disabled = true;
+  try {
+    for (let botId = 0; botId < lastMatchCodes.length; botId++) {
+      const code = botCodes[botId];
+      if (!code) continue;
+      if (!botLibraryRefs[botId]) {
+        botLibraryRefs[botId] = await saveToLibrary(slotDraft(botId, code, botSources[botId]), null);
+        await recordLibraryResult(botLibraryRefs[botId]!, lastMatchResults[botId]);
+      }
+      const finalCode = lastMatchCodes[botId];
+      if (finalCode && finalCode !== code) {
+        await saveToLibrary(slotDraft(botId, finalCode, 'evolved'), botLibraryRefs[botId]);
+      }
+    }
+    btn.textContent = 'SAVED TO LIBRARY';
+  } catch (err: any) {
+    btn.disabled = false;
+    alert(`Could not save to the library: ${err.message}`);
+  }
+});
+
+// Replay export / import
+document.getElementById('btn-export-replay')!.addEventListener('click', async () => {
+  if (!lastReplay) return;
+  downloadBlob(await encodeReplayFile(lastReplay), `botwars-${lastReplay.seed}.bwreplay`);
+});
+
+const replayInput = document.getElementById('replay-file') as HTMLInputElement;
+for (const id of ['btn-import-replay', 'btn-load-replay']) {
+  document.getElementById(id)!.addEventListener('click', () => replayInput.click());
+}
+replayInput.addEventListener('change', async () => {
+  const file = replayInput.files?.[0];
+  replayInput.value = '';
+  if (!file) return;
+  try {
+    startReplay(await decodeReplayFile(file));
+  } catch (err: any) {
+    alert(`Could not load replay: ${err.message}`);
+  }
 });
 
 document.getElementById('btn-new-bots')!.addEventListener('click', () => {
   botRunner?.terminate();
   evolutionManager?.dispose();
+  thoughtManager?.dispose();
   gameLoop?.stop();
+  hideTransport();
   if (animationId) cancelAnimationFrame(animationId);
-  botCodes[0] = null;
-  botCodes[1] = null;
-  botStyles[0] = null;
-  botStyles[1] = null;
+  botCodes.fill(null);
+  botStyles.fill(null);
+  botLibraryRefs.fill(null);
+  botFiles.fill(null);
+  botTypeScript.fill(null);
 
   // Reset status
-  for (const p of [1, 2]) {
+  for (let p = 1; p <= botCodes.length; p++) {
     document.getElementById(`p${p}-status`)!.textContent = '';
     document.getElementById(`p${p}-status`)!.className = 'bot-status';
     (document.getElementById(`p${p}-code-peek`) as HTMLElement).style.display = 'none';
+    document.getElementById(`p${p}-save`)!.hidden = true;
+    document.getElementById(`p${p}-export`)!.hidden = true;
+    clearValidationReport(document.getElementById(`p${p}-report`)!);
   }
   updateBattleButton();
   showScreen('creation-screen');
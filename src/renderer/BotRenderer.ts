@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { P1_COLOR, P2_COLOR, BOT_RADIUS } from '../utils/constants';
+import { BOT_COLORS, BOT_RADIUS } from '../utils/constants';
 import { lerp } from '../utils/math';
 import type { BotStyle, TerrainData } from '../engine/types';
 import { DEFAULT_STYLE } from '../engine/types';
@@ -39,12 +39,9 @@ export class BotRenderer {
     this.terrain = terrain;
   }
 
-  createBots(styles?: [BotStyle | null, BotStyle | null]) {
+  createBots(styles: Array<BotStyle | null>) {
     this.clear();
-    this.bots = [
-      this.createMech(P1_COLOR, 0),
-      this.createMech(P2_COLOR, 1),
-    ];
+    this.bots = styles.map((_, i) => this.createMech(BOT_COLORS[i % BOT_COLORS.length], i));
   }
 
   private createMech(color: number, id: number): MechMesh {
@@ -216,6 +213,7 @@ export class BotRenderer {
       position: { x: number; y: number };
       facing: { x: number; y: number };
       isDefending: boolean;
+      alive: boolean;
       status: { burning: number; shielded: boolean };
     }>,
     prevPositions: Array<{ x: number; y: number }>,
@@ -236,14 +234,23 @@ export class BotRenderer {
       mech.group.position.z = interpY;
 
       // Terrain Y offset
-      if (this.terrain) {
-        mech.group.position.y = sampleTerrainHeight(this.terrain, interpX, interpY);
-      }
+      const groundY = this.terrain ? sampleTerrainHeight(this.terrain, interpX, interpY) : 0;
+      mech.group.position.y = groundY;
 
       // Face toward facing direction
       const faceAngle = Math.atan2(state.facing.x, state.facing.y);
       mech.group.rotation.y = faceAngle;
 
+      // Knocked out — fall over and go dark, stays on the field until the match ends
+      if (!state.alive) {
+        mech.group.rotation.x = -Math.PI / 2;
+        mech.group.position.y = groundY + 0.3;
+        (mech.shield.material as THREE.MeshBasicMaterial).opacity = 0;
+        (mech.energyCore.material as THREE.MeshStandardMaterial).emissiveIntensity = 0;
+        continue;
+      }
+      mech.group.rotation.x = 0;
+
       // Movement detection for walk cycle
       const dx = currPositions[i].x - prevPositions[i].x;
       const dy = currPositions[i].y - prevPositions[i].y;
@@ -272,10 +279,9 @@ export class BotRenderer {
       mech.torso.position.y = 1.6 + idleBob;
       mech.head.position.y = 2.2 + idleBob;
 
-      // Head tracking — look toward enemy
-      const enemyIdx = 1 - i;
-      const enemyState = botStates[enemyIdx];
-      if (enemyState) {
+      // Head tracking — look toward the nearest living enemy
+      const enemyIdx = this.nearestEnemy(i, botStates, currPositions);
+      if (enemyIdx !== -1) {
         const enemyWorldX = lerp(prevPositions[enemyIdx].x, currPositions[enemyIdx].x, alpha);
         const enemyWorldZ = lerp(prevPositions[enemyIdx].y, currPositions[enemyIdx].y, alpha);
         const toEnemyX = enemyWorldX - mech.group.position.x;
@@ -317,6 +323,26 @@ export class BotRenderer {
     }
   }
 
+  private nearestEnemy(
+    botId: number,
+    botStates: Array<{ alive: boolean }>,
+    positions: Array<{ x: number; y: number }>,
+  ): number {
+    let nearest = -1;
+    let nearestDist = Infinity;
+    for (let j = 0; j < botStates.length; j++) {
+      if (j === botId || !botStates[j].alive || !positions[j]) continue;
+      const dx = positions[j].x - positions[botId].x;
+      const dy = positions[j].y - positions[botId].y;
+      const dist = dx * dx + dy * dy;
+      if (dist < nearestDist) {
+        nearestDist = dist;
+        nearest = j;
+      }
+    }
+    return nearest;
+  }
+
   flashHit(botId: number) {
     const mech = this.bots[botId];
     if (!mech) return;
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+import type { TerrainData } from '../engine/types';
+import type { DebugShape } from '../bots/debugChannel';
+import { sampleTerrainHeight } from '../arena/ArenaGenerator';
+
+// Height above the ground the overlay floats at
+const OVERLAY_HEIGHT = 0.15;
+const CIRCLE_SEGMENTS = 32;
+
+/** Bots' debug.line/circle drawings from their latest tick, one line set per bot, drawn on top of everything */
+export class DebugDrawRenderer {
+  private scene: THREE.Scene;
+  private lines: Map<number, THREE.LineSegments> = new Map();
+  private terrain: TerrainData | null = null;
+  private visible = true;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+  }
+
+  setTerrain(terrain: TerrainData | null) {
+    this.terrain = terrain;
+  }
+
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    for (const lines of this.lines.values()) lines.visible = visible;
+  }
+
+  /** Replace what `botId` drew; shapes without a color get `defaultColor` */
+  setShapes(botId: number, shapes: DebugShape[], defaultColor: number) {
+    this.remove(botId);
+    if (!shapes.length) return;
+
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const color = new THREE.Color();
+    const segment = (ax: number, ay: number, bx: number, by: number) => {
+      positions.push(ax, this.groundY(ax, ay), ay, bx, this.groundY(bx, by), by);
+      colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+    };
+    for (const shape of shapes) {
+      color.set(defaultColor);
+      if (shape.color) color.setStyle(shape.color);
+      if (shape.kind === 'line') {
+        segment(shape.from.x, shape.from.y, shape.to.x, shape.to.y);
+      } else {
+        for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+          const a0 = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+          const a1 = ((i + 1) / CIRCLE_SEGMENTS) * Math.PI * 2;
+          const { center, radius } = shape;
+          segment(
+            center.x + Math.cos(a0) * radius, center.y + Math.sin(a0) * radius,
+            center.x + Math.cos(a1) * radius, center.y + Math.sin(a1) * radius,
+          );
+        }
+      }
+    }
+
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    const mat = new THREE.LineBasicMaterial({ vertexColors: true, depthTest: false, transparent: true, opacity: 0.9 });
+    const lines = new THREE.LineSegments(geo, mat);
+    lines.renderOrder = 999;
+    lines.visible = this.visible;
+    this.scene.add(lines);
+    this.lines.set(botId, lines);
+  }
+
+  clear() {
+    for (const botId of [...this.lines.keys()]) this.remove(botId);
+  }
+
+  private remove(botId: number) {
+    const lines = this.lines.get(botId);
+    if (!lines) return;
+    this.scene.remove(lines);
+    lines.geometry.dispose();
+    (lines.material as THREE.Material).dispose();
+    this.lines.delete(botId);
+  }
+
+  private groundY(x: number, y: number): number {
+    return (this.terrain ? sampleTerrainHeight(this.terrain, x, y) : 0) + OVERLAY_HEIGHT;
+  }
+}
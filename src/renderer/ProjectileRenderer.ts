@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import type { Projectile } from '../engine/types';
-import { P1_COLOR, P2_COLOR } from '../utils/constants';
+import { BOT_COLORS } from '../utils/constants';
 
 interface ProjectileMesh {
   id: number;
@@ -38,7 +38,7 @@ export class ProjectileRenderer {
       let pm = this.projectiles.get(state.id);
 
       if (!pm) {
-        const color = state.ownerId === 0 ? P1_COLOR : P2_COLOR;
+        const color = BOT_COLORS[state.ownerId % BOT_COLORS.length];
         const geo = new THREE.SphereGeometry(0.2, 8, 8);
         const mat = new THREE.MeshBasicMaterial({
           color,
@@ -1,7 +1,6 @@
-const CHARS_PER_SEC = 60;
+import { getProvider } from '../utils/providers';
 
-const CLAUDE_COLOR = '#7c3aed';
-const OPENAI_COLOR = '#10b981';
+const CHARS_PER_SEC = 60;
 
 interface ActiveTyping {
   botId: number;
@@ -27,16 +26,16 @@ export class ThoughtBubbleRenderer {
     this.container = container;
   }
 
-  startThought(botId: number, provider: 'claude' | 'openai') {
+  startThought(botId: number, providerId: string) {
     // Create a new log entry (don't remove old ones)
     const entryEl = document.createElement('div');
     entryEl.className = `thought-entry thought-p${botId + 1}`;
 
     const labelEl = document.createElement('span');
     labelEl.className = 'thought-entry-label';
-    const label = provider === 'claude' ? 'CLAUDE' : 'OPENAI';
-    labelEl.textContent = `[${label}] `;
-    labelEl.style.color = provider === 'claude' ? CLAUDE_COLOR : OPENAI_COLOR;
+    const provider = getProvider(providerId);
+    labelEl.textContent = `[${(provider?.name ?? providerId).toUpperCase()}] `;
+    if (provider) labelEl.style.color = provider.color;
     entryEl.appendChild(labelEl);
 
     const textEl = document.createElement('span');
@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import type { Trap } from '../engine/types';
-import { P1_COLOR, P2_COLOR } from '../utils/constants';
+import { BOT_COLORS } from '../utils/constants';
 
 interface TrapMesh {
   id: number;
@@ -39,7 +39,7 @@ export class TrapRenderer {
       let tm = this.traps.get(state.id);
 
       if (!tm) {
-        const color = state.ownerId === 0 ? P1_COLOR : P2_COLOR;
+        const color = BOT_COLORS[state.ownerId % BOT_COLORS.length];
 
         const geo = new THREE.CylinderGeometry(0.5, 0.5, 0.1, 6);
         const mat = new THREE.MeshStandardMaterial({
@@ -1,22 +1,71 @@
 import type { GameState } from '../engine/GameState';
-import type { GameEvent, ThoughtTriggerType } from '../engine/types';
-import { MAX_TICKS } from '../utils/constants';
+import type { BotMemory, GameEvent, HotSwapResult, ThoughtTriggerType } from '../engine/types';
+import type { GameRules } from '../engine/GameRules';
+import { TICK_RATE } from '../utils/constants';
 
 export interface BotEvolutionConfig {
   id: number;
   name: string;
   personality: string;
-  provider: 'claude' | 'openai';
+  /** Provider id from src/utils/providers.ts */
+  provider: string;
+  model: string;
 }
 
 export interface EvolutionCallbacks {
-  onCodeUpdate: (botId: number, code: string) => Promise<boolean>;
-  onThoughtStart: (botId: number, provider: 'claude' | 'openai') => void;
+  /** `resetMemory` — the model asked to start the new code from empty memory */
+  onCodeUpdate: (botId: number, code: string, resetMemory: boolean) => Promise<HotSwapResult>;
+  /** Roll back to an earlier version that performed better */
+  onCodeRevert: (botId: number, code: string, from: EvolutionVersion, to: EvolutionVersion) => Promise<HotSwapResult>;
+  onThoughtStart: (botId: number, provider: string) => void;
   onThoughtUpdate: (botId: number, text: string) => void;
   onThoughtComplete: (botId: number, fullText: string, duration: number) => void;
   onThoughtExpire: (botId: number) => void;
 }
 
+/** How a version did over the window after it was swapped in */
+export interface EvolutionPerformance {
+  ticks: number;
+  dealt: number;
+  taken: number;
+  /** (dealt - taken) per second */
+  netRate: number;
+}
+
+/**
+ * One entry in a bot's evolution timeline — version 0 is the code it started with.
+ * 'failed' entries are evolutions the runner refused; they never ran and share the
+ * version number of the code that kept running.
+ */
+export interface EvolutionVersion {
+  version: number;
+  kind: 'original' | 'evolution' | 'revert' | 'failed';
+  code: string;
+  /** The code it replaced (or, for failed swaps, would have replaced) */
+  previousCode: string;
+  /** Tick it was swapped in */
+  tick: number;
+  trigger: ThoughtTriggerType | null;
+  situation: string;
+  thought: string;
+  /** For reverts: the version whose code was restored */
+  restores: number | null;
+  /** Net rate over the window before the swap; null if the match was too young to judge */
+  baseline: EvolutionPerformance | null;
+  /** Filled in when the window closes, the next version replaces it, or the match ends */
+  performance: EvolutionPerformance | null;
+  /** Tick it was rolled back for doing worse, if it was */
+  revertedAt: number | null;
+  /** Why the runner refused the code (failed swaps only) */
+  error: string | null;
+}
+
+/** Cumulative damage counters at a tick */
+interface DamageSample {
+  dealt: number;
+  taken: number;
+}
+
 interface ActiveThought {
   botId: number;
   text: string;
@@ -32,9 +81,12 @@ interface PendingRequest {
 
 const MIN_EVOLUTION_INTERVAL = 5000; // 5s between evolution requests per bot
 const THOUGHT_DISPLAY_DURATION = 3000;
-const LOW_HP_THRESHOLD = 30;
+const LOW_HP_FRACTION = 0.3; // of the rules' max HP
 const BIG_DAMAGE_THRESHOLD = 8;
 const NEAR_END_TICKS = 400;
+const PERFORMANCE_WINDOW_TICKS = 100; // 5s judged after each swap — no further evolution meanwhile
+const MIN_BASELINE_TICKS = 100; // earlier swaps have nothing to compare against
+const REVERT_RATE_DROP = 0.01; // of the rules' max HP, in net damage/s worse than before → roll back
 
 const TRIGGER_PRIORITY: ThoughtTriggerType[] = [
   'match_start',
@@ -51,9 +103,27 @@ const TRIGGER_PRIORITY: ThoughtTriggerType[] = [
   'enemy_defending',
 ];
 
-function buildSituation(trigger: ThoughtTriggerType, state: GameState, botId: number): string {
+/** The newest entry whose code actually ran (skips failed swaps) */
+function runningVersion(versions: EvolutionVersion[] | undefined): EvolutionVersion | undefined {
+  for (let i = (versions?.length ?? 0) - 1; i >= 0; i--) {
+    if (versions![i].kind !== 'failed') return versions![i];
+  }
+  return undefined;
+}
+
+/** "+1.5/s" — net damage rate for thought bubbles and the history view */
+export function formatRate(netRate: number): string {
+  return `${netRate >= 0 ? '+' : ''}${netRate.toFixed(1)}/s`;
+}
+
+function buildSituation(trigger: ThoughtTriggerType, state: GameState, botId: number): string | null {
   const bot = state.bots[botId];
-  const enemy = state.bots[1 - botId];
+  const enemy = state.nearestEnemy(botId);
+  if (!enemy) return null;
+  const othersLeft = state.getAliveBots().filter(b => b.team !== bot.team).length - 1;
+  const alliesLeft = state.getAliveBots().filter(b => state.areAllies(bot, b)).length;
+  const crowdInfo = (othersLeft > 0 ? ` ${othersLeft} other opponent(s) still standing.` : '')
+    + (alliesLeft > 0 ? ` ${alliesLeft} teammate(s) still standing.` : '');
   const dist = Math.sqrt(
     (bot.position.x - enemy.position.x) ** 2 +
     (bot.position.y - enemy.position.y) ** 2,
@@ -64,7 +134,7 @@ function buildSituation(trigger: ThoughtTriggerType, state: GameState, botId: nu
   const enemyDefendingInfo = enemy.isDefending ? ` Enemy is DEFENDING.` : '';
   const enemyBurningInfo = enemy.status.burning > 0 ? ` Enemy is BURNING.` : '';
 
-  const base = `HP: ${Math.ceil(bot.hp)}/100, Energy: ${Math.ceil(bot.energy)}/100. Enemy "${enemy.name}" HP: ${Math.ceil(enemy.hp)}/100. Distance: ${dist.toFixed(1)}. ${cooldownInfo}${burningInfo}${enemyDefendingInfo}${enemyBurningInfo} Tick ${state.tick}/${MAX_TICKS}.`;
+  const base = `HP: ${Math.ceil(bot.hp)}/${state.rules.bot.hp}, Energy: ${Math.ceil(bot.energy)}/${state.rules.bot.energy}. Enemy "${enemy.name}" HP: ${Math.ceil(enemy.hp)}/${state.rules.bot.hp}. Distance: ${dist.toFixed(1)}. ${cooldownInfo}${burningInfo}${enemyDefendingInfo}${enemyBurningInfo} Tick ${state.tick}/${state.rules.match.maxTicks}.${crowdInfo}`;
 
   const pickupsNearby = state.pickups.filter(p => p.active).length;
   const pickupInfo = pickupsNearby > 0 ? ` ${pickupsNearby} pickup(s) on field.` : '';
@@ -101,35 +171,60 @@ export class CodeEvolutionManager {
   private bots: BotEvolutionConfig[] = [];
   private callbacks: EvolutionCallbacks | null = null;
   private getCode: ((botId: number) => string | null) | null = null;
+  private getMemory: ((botId: number) => BotMemory) | null = null;
   private activeThoughts: Map<number, ActiveThought> = new Map();
   private pendingRequests: Map<number, PendingRequest> = new Map();
   private lastEvolutionTime: Map<number, number> = new Map();
   private matchStartFired = false;
   private matchActive = false;
   private accumulatedTriggers: Map<number, ThoughtTriggerType[]> = new Map();
+  private history: Map<number, EvolutionVersion[]> = new Map();
+  /** damageLog[botId][tick] — cumulative damage, for performance windows */
+  private damageLog: Map<number, DamageSample[]> = new Map();
+  private reverting: Set<number> = new Set();
+  private lastState: GameState | null = null;
 
   configure(
     bots: BotEvolutionConfig[],
     callbacks: EvolutionCallbacks,
     getCode: (botId: number) => string | null,
+    getMemory: (botId: number) => BotMemory,
   ) {
     this.bots = bots;
     this.callbacks = callbacks;
     this.getCode = getCode;
+    this.getMemory = getMemory;
     this.activeThoughts.clear();
     this.pendingRequests.clear();
     this.lastEvolutionTime.clear();
     this.matchStartFired = false;
     this.matchActive = true;
     this.accumulatedTriggers.clear();
+    this.history.clear();
+    this.damageLog.clear();
+    this.reverting.clear();
+    this.lastState = null;
     for (const bot of bots) {
       this.accumulatedTriggers.set(bot.id, []);
+      this.damageLog.set(bot.id, []);
     }
   }
 
+  /** Each evolving bot's timeline, oldest first — bots that never tried to evolve have none */
+  getHistory(): Map<number, EvolutionVersion[]> {
+    return this.history;
+  }
+
   processEvents(state: GameState, events: GameEvent[]) {
     if (!this.matchActive) return;
     const now = performance.now();
+    this.lastState = state;
+
+    for (const bot of this.bots) {
+      const data = state.bots[bot.id];
+      if (data) this.damageLog.get(bot.id)![state.tick] = { dealt: data.damageDealt, taken: data.damageTaken };
+    }
+    this.judgeEvolutions(state);
 
     // Match start trigger
     if (!this.matchStartFired && state.tick <= 2) {
@@ -162,9 +257,11 @@ export class CodeEvolutionManager {
       }
 
       if (event.type === 'heal_use' && event.attacker !== undefined) {
-        // Notify the enemy that this bot healed
-        const enemyId = 1 - event.attacker;
-        this.accumulatedTriggers.get(enemyId)?.push('enemy_healed');
+        // Notify every opponent that this bot healed
+        const healer = state.bots[event.attacker];
+        for (const other of state.bots) {
+          if (other.team !== healer.team) this.accumulatedTriggers.get(other.id)?.push('enemy_healed');
+        }
       }
 
       // Line of sight transitions
@@ -179,18 +276,22 @@ export class CodeEvolutionManager {
     // Check persistent conditions
     for (const bot of this.bots) {
       const botData = state.bots[bot.id];
-      if (!botData) continue;
+      if (!botData?.alive) {
+        // KO'd bots are out of the match
+        this.accumulatedTriggers.get(bot.id)!.length = 0;
+        continue;
+      }
 
-      if (botData.hp <= LOW_HP_THRESHOLD) {
+      if (botData.hp <= state.rules.bot.hp * LOW_HP_FRACTION) {
         this.accumulatedTriggers.get(bot.id)?.push('low_hp');
       }
 
-      const enemy = state.bots[1 - bot.id];
+      const enemy = state.nearestEnemy(bot.id);
       if (enemy?.isDefending) {
         this.accumulatedTriggers.get(bot.id)?.push('enemy_defending');
       }
 
-      if (state.tick >= MAX_TICKS - NEAR_END_TICKS) {
+      if (state.tick >= state.rules.match.maxTicks - NEAR_END_TICKS) {
         this.accumulatedTriggers.get(bot.id)?.push('near_match_end');
       }
     }
@@ -207,8 +308,15 @@ export class CodeEvolutionManager {
         continue;
       }
 
-      // Don't start if already pending
-      if (this.pendingRequests.has(bot.id)) {
+      // Don't start if already pending, or while a rollback is swapping the old brain back in
+      if (this.pendingRequests.has(bot.id) || this.reverting.has(bot.id)) {
+        triggers.length = 0;
+        continue;
+      }
+
+      // Let the newest brain prove itself before replacing it
+      const latest = runningVersion(this.history.get(bot.id));
+      if (latest?.kind === 'evolution' && !latest.performance) {
         triggers.length = 0;
         continue;
       }
@@ -225,22 +333,28 @@ export class CodeEvolutionManager {
       }
       triggers.length = 0;
 
-      if (bestTrigger) {
+      const situation = bestTrigger && buildSituation(bestTrigger, state, bot.id);
+      if (situation) {
         this.lastEvolutionTime.set(bot.id, now);
-        const situation = buildSituation(bestTrigger, state, bot.id);
-        this.requestEvolution(bot, situation);
+        this.requestEvolution(bot, bestTrigger!, situation, state.rules);
       }
     }
   }
 
-  private async requestEvolution(bot: BotEvolutionConfig, situation: string) {
+  private async requestEvolution(
+    bot: BotEvolutionConfig,
+    trigger: ThoughtTriggerType,
+    situation: string,
+    rules: Readonly<GameRules>,
+  ) {
     if (!this.matchActive) return;
 
     const controller = new AbortController();
     this.pendingRequests.set(bot.id, { botId: bot.id, controller });
 
-    const endpoint = bot.provider === 'claude' ? '/api/evolve/claude' : '/api/evolve/openai';
+    const endpoint = `/api/evolve/${encodeURIComponent(bot.provider)}`;
     const currentCode = this.getCode?.(bot.id) ?? '';
+    const memory = this.getMemory?.(bot.id) ?? {};
 
     this.callbacks?.onThoughtStart(bot.id, bot.provider);
 
@@ -251,8 +365,11 @@ export class CodeEvolutionManager {
         body: JSON.stringify({
           botName: bot.name,
           personality: bot.personality,
+          model: bot.model,
           currentCode,
+          memory,
           situation,
+          rules,
         }),
         signal: controller.signal,
       });
@@ -265,16 +382,24 @@ export class CodeEvolutionManager {
       }
 
       const data = await res.json();
-      const { code, thought } = data;
+      const { code, thought, resetMemory } = data;
 
       if (!this.matchActive) return;
 
       // Hot-swap code if provided
       if (code) {
-        const success = await this.callbacks?.onCodeUpdate(bot.id, code);
-        if (success) {
-          const provider = bot.provider === 'claude' ? 'CLAUDE' : 'OPENAI';
-          console.log(`[${provider}] ${bot.name}'s brain evolved!`);
+        const previousCode = this.getCode?.(bot.id) ?? currentCode;
+        const result = await this.callbacks?.onCodeUpdate(bot.id, code, resetMemory === true);
+        if (!this.matchActive) return;
+        if (result?.ok) {
+          console.log(`[${bot.provider.toUpperCase()}] ${bot.name}'s brain evolved!`);
+          this.recordVersion(bot.id, previousCode, {
+            kind: 'evolution', code, trigger, situation, thought: thought ?? '', restores: null, error: null,
+          });
+        } else if (result) {
+          this.recordVersion(bot.id, previousCode, {
+            kind: 'failed', code, trigger, situation, thought: thought ?? '', restores: null, error: result.error,
+          });
         }
       }
 
@@ -309,7 +434,115 @@ export class CodeEvolutionManager {
     }
   }
 
+  /**
+   * Append a timeline entry; a successful swap closes the running version's window.
+   * The original code becomes v0 on the first entry.
+   */
+  private recordVersion(
+    botId: number,
+    previousCode: string,
+    entry: Pick<EvolutionVersion, 'kind' | 'code' | 'trigger' | 'situation' | 'thought' | 'restores' | 'error'>,
+  ) {
+    const tick = this.lastState?.tick ?? 0;
+    let versions = this.history.get(botId);
+    if (!versions) {
+      versions = [{
+        version: 0, kind: 'original', code: previousCode, previousCode: '', tick: 0, trigger: null, situation: '',
+        thought: '', restores: null, baseline: null, performance: null, revertedAt: null, error: null,
+      }];
+      this.history.set(botId, versions);
+    }
+    const current = runningVersion(versions)!;
+    if (entry.kind === 'failed') {
+      versions.push({
+        ...entry, version: current.version, previousCode, tick, baseline: null, performance: null, revertedAt: null,
+      });
+      return;
+    }
+    current.performance ??= this.measure(botId, current.tick, tick);
+
+    versions.push({
+      ...entry,
+      version: current.version + 1,
+      previousCode,
+      tick,
+      baseline: tick >= MIN_BASELINE_TICKS
+        ? this.measure(botId, Math.max(0, tick - PERFORMANCE_WINDOW_TICKS), tick)
+        : null,
+      performance: null,
+      revertedAt: null,
+    });
+  }
+
+  /** Close finished windows; roll back evolutions that did clearly worse than what they replaced */
+  private judgeEvolutions(state: GameState) {
+    for (const [botId, versions] of this.history) {
+      const current = runningVersion(versions)!;
+      if (current.performance || state.tick < current.tick + PERFORMANCE_WINDOW_TICKS) continue;
+      current.performance = this.measure(botId, current.tick, state.tick);
+
+      const worse = current.kind === 'evolution' && current.baseline
+        && current.performance.netRate < current.baseline.netRate - state.rules.bot.hp * REVERT_RATE_DROP;
+      if (worse && state.bots[botId]?.alive && !this.reverting.has(botId)) {
+        this.revert(botId, current, runningVersion(versions.slice(0, versions.indexOf(current)))!);
+      }
+    }
+  }
+
+  private async revert(botId: number, bad: EvolutionVersion, previous: EvolutionVersion) {
+    const bot = this.bots.find(b => b.id === botId);
+    if (!bot || !this.callbacks) return;
+
+    this.reverting.add(botId);
+    try {
+      const result = await this.callbacks.onCodeRevert(botId, previous.code, bad, previous);
+      if (!result.ok || !this.matchActive) return;
+
+      bad.revertedAt = this.lastState?.tick ?? bad.tick;
+      const restores = previous.version;
+      const text = `v${bad.version} made things worse (${formatRate(bad.performance!.netRate)} vs ${formatRate(bad.baseline!.netRate)} before) — back to v${restores}!`;
+      this.recordVersion(botId, bad.code, {
+        kind: 'revert', code: previous.code, trigger: null, situation: '', thought: text, restores, error: null,
+      });
+
+      this.callbacks.onThoughtStart(botId, bot.provider);
+      this.callbacks.onThoughtUpdate(botId, text);
+      this.activeThoughts.set(botId, {
+        botId,
+        text,
+        startTime: performance.now(),
+        duration: THOUGHT_DISPLAY_DURATION,
+        complete: true,
+      });
+      this.callbacks.onThoughtComplete(botId, text, THOUGHT_DISPLAY_DURATION);
+    } finally {
+      this.reverting.delete(botId);
+    }
+  }
+
+  /** Damage dealt/taken between two ticks, from the per-tick log */
+  private measure(botId: number, from: number, to: number): EvolutionPerformance {
+    const log = this.damageLog.get(botId) ?? [];
+    const sampleAt = (tick: number): DamageSample => {
+      for (let t = tick; t >= 0; t--) if (log[t]) return log[t];
+      return { dealt: 0, taken: 0 };
+    };
+    const start = sampleAt(from);
+    const end = sampleAt(to);
+    const ticks = Math.max(0, to - from);
+    const dealt = end.dealt - start.dealt;
+    const taken = end.taken - start.taken;
+    return { ticks, dealt, taken, netRate: ticks > 0 ? ((dealt - taken) * TICK_RATE) / ticks : 0 };
+  }
+
   dispose() {
+    // Close the windows still open so the history is complete
+    if (this.matchActive && this.lastState) {
+      for (const [botId, versions] of this.history) {
+        const current = runningVersion(versions)!;
+        current.performance ??= this.measure(botId, current.tick, this.lastState.tick);
+      }
+    }
     this.matchActive = false;
     for (const [, req] of this.pendingRequests) {
       req.controller.abort();
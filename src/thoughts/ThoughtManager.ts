@@ -1,16 +1,17 @@
 import type { GameState } from '../engine/GameState';
 import type { GameEvent, ThoughtTriggerType } from '../engine/types';
-import { MAX_TICKS } from '../utils/constants';
 
 export interface BotThoughtConfig {
   id: number;
   name: string;
   personality: string;
-  provider: 'claude' | 'openai';
+  /** Provider id from src/utils/providers.ts */
+  provider: string;
+  model: string;
 }
 
 export interface ThoughtCallbacks {
-  onThoughtStart: (botId: number, provider: 'claude' | 'openai') => void;
+  onThoughtStart: (botId: number, provider: string) => void;
   onThoughtUpdate: (botId: number, text: string) => void;
   onThoughtComplete: (botId: number, fullText: string, duration: number) => void;
   onThoughtExpire: (botId: number) => void;
@@ -31,7 +32,7 @@ interface PendingRequest {
 
 const MIN_THOUGHT_INTERVAL = 5000; // 5s between thoughts per bot
 const THOUGHT_DISPLAY_DURATION = 4000; // 4s display time
-const LOW_HP_THRESHOLD = 30;
+const LOW_HP_FRACTION = 0.3; // of the rules' max HP
 const BIG_DAMAGE_THRESHOLD = 8;
 const NEAR_END_TICKS = 400; // last 20 seconds
 
@@ -49,10 +50,15 @@ const TRIGGER_PRIORITY: ThoughtTriggerType[] = [
   'enemy_defending',
 ];
 
-function buildSituation(trigger: ThoughtTriggerType, state: GameState, botId: number): string {
+function buildSituation(trigger: ThoughtTriggerType, state: GameState, botId: number): string | null {
   const bot = state.bots[botId];
-  const enemy = state.bots[1 - botId];
-  const base = `HP: ${Math.ceil(bot.hp)}/100, Energy: ${Math.ceil(bot.energy)}/100. Enemy HP: ${Math.ceil(enemy.hp)}/100. Tick ${state.tick}/${MAX_TICKS}.`;
+  const enemy = state.nearestEnemy(botId);
+  if (!enemy) return null;
+  const othersLeft = state.getAliveBots().filter(b => b.team !== bot.team).length - 1;
+  const alliesLeft = state.getAliveBots().filter(b => state.areAllies(bot, b)).length;
+  const crowdInfo = (othersLeft > 0 ? ` ${othersLeft} other opponent(s) still standing.` : '')
+    + (alliesLeft > 0 ? ` ${alliesLeft} teammate(s) still standing.` : '');
+  const base = `HP: ${Math.ceil(bot.hp)}/${state.rules.bot.hp}, Energy: ${Math.ceil(bot.energy)}/${state.rules.bot.energy}. Enemy HP: ${Math.ceil(enemy.hp)}/${state.rules.bot.hp}. Tick ${state.tick}/${state.rules.match.maxTicks}.${crowdInfo}`;
 
   switch (trigger) {
     case 'match_start':
@@ -89,6 +95,7 @@ export class ThoughtManager {
   private pendingRequests: Map<number, PendingRequest> = new Map();
   private lastThoughtTime: Map<number, number> = new Map();
   private matchStartFired = false;
+  private matchActive = false;
   private accumulatedTriggers: Map<number, ThoughtTriggerType[]> = new Map();
 
   configure(bots: BotThoughtConfig[], callbacks: ThoughtCallbacks) {
@@ -98,6 +105,7 @@ export class ThoughtManager {
     this.pendingRequests.clear();
     this.lastThoughtTime.clear();
     this.matchStartFired = false;
+    this.matchActive = true;
     this.accumulatedTriggers.clear();
     for (const bot of bots) {
       this.accumulatedTriggers.set(bot.id, []);
@@ -105,6 +113,7 @@ export class ThoughtManager {
   }
 
   processEvents(state: GameState, events: GameEvent[]) {
+    if (!this.matchActive) return;
     const now = performance.now();
 
     // Match start trigger (first tick)
@@ -148,18 +157,22 @@ export class ThoughtManager {
     // Check persistent conditions
     for (const bot of this.bots) {
       const botData = state.bots[bot.id];
-      if (!botData) continue;
+      if (!botData?.alive) {
+        // KO'd bots are out of the match
+        this.accumulatedTriggers.get(bot.id)!.length = 0;
+        continue;
+      }
 
-      if (botData.hp <= LOW_HP_THRESHOLD) {
+      if (botData.hp <= state.rules.bot.hp * LOW_HP_FRACTION) {
         this.accumulatedTriggers.get(bot.id)?.push('low_hp');
       }
 
-      const enemy = state.bots[1 - bot.id];
+      const enemy = state.nearestEnemy(bot.id);
       if (enemy?.isDefending) {
         this.accumulatedTriggers.get(bot.id)?.push('enemy_defending');
       }
 
-      if (state.tick >= MAX_TICKS - NEAR_END_TICKS) {
+      if (state.tick >= state.rules.match.maxTicks - NEAR_END_TICKS) {
         this.accumulatedTriggers.get(bot.id)?.push('near_match_end');
       }
     }
@@ -194,9 +207,9 @@ export class ThoughtManager {
       }
       triggers.length = 0;
 
-      if (bestTrigger) {
+      const situation = bestTrigger && buildSituation(bestTrigger, state, bot.id);
+      if (situation) {
         this.lastThoughtTime.set(bot.id, now);
-        const situation = buildSituation(bestTrigger, state, bot.id);
         this.requestThought(bot, situation);
       }
     }
@@ -206,7 +219,7 @@ export class ThoughtManager {
     const controller = new AbortController();
     this.pendingRequests.set(bot.id, { botId: bot.id, controller });
 
-    const endpoint = bot.provider === 'claude' ? '/api/thought/claude' : '/api/thought/openai';
+    const endpoint = `/api/thought/${encodeURIComponent(bot.provider)}`;
 
     this.callbacks?.onThoughtStart(bot.id, bot.provider);
 
@@ -219,6 +232,7 @@ export class ThoughtManager {
         body: JSON.stringify({
           botName: bot.name,
           personality: bot.personality,
+          model: bot.model,
           situation,
         }),
         signal: controller.signal,
@@ -242,6 +256,7 @@ export class ThoughtManager {
         buffer = lines.pop()!;
 
         for (const line of lines) {
+          if (!this.matchActive) return;
           if (!line.startsWith('data: ')) continue;
           const data = line.slice(6).trim();
           if (data === '[DONE]') break;
@@ -257,7 +272,7 @@ export class ThoughtManager {
         }
       }
 
-      if (fullText) {
+      if (fullText && this.matchActive) {
         this.activeThoughts.set(bot.id, {
           botId: bot.id,
           text: fullText,
@@ -287,6 +302,7 @@ export class ThoughtManager {
   }
 
   dispose() {
+    this.matchActive = false;
     for (const [, req] of this.pendingRequests) {
       req.controller.abort();
     }
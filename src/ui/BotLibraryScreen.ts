@@ -0,0 +1,199 @@
+import type { LibraryBot, LibraryBotVersion } from '../bots/BotLibrary';
+import {
+  listLibraryBots, searchLibrary, getVersion, setLibraryHead, setLibraryTags, deleteLibraryBot,
+  parseTags, totalRecord, importToLibrary,
+} from '../bots/BotLibrary';
+import { botFileFromLibrary, serializeBotFile, decodeBotFile, botFileName, BOT_FILE_EXTENSION } from '../bots/BotFile';
+import { providerName } from '../utils/providers';
+import { downloadBlob } from '../utils/download';
+
+export interface BotLibraryHandlers {
+  /** Number of creation-screen slots a bot can be loaded into */
+  slotCount: () => number;
+  onLoad: (bot: LibraryBot, version: LibraryBotVersion, slot: number) => void;
+  onClose: () => void;
+}
+
+let handlers: BotLibraryHandlers | null = null;
+let bots: LibraryBot[] = [];
+let listenersBound = false;
+
+/** Fill the library screen from IndexedDB; the caller shows the screen */
+export async function openBotLibrary(libraryHandlers: BotLibraryHandlers) {
+  handlers = libraryHandlers;
+  bindListeners();
+
+  const slotSelect = document.getElementById('library-slot') as HTMLSelectElement;
+  const slot = slotSelect.value;
+  slotSelect.replaceChildren(...Array.from(
+    { length: handlers.slotCount() },
+    (_, i) => new Option(`Player ${i + 1}`, String(i)),
+  ));
+  if (Number(slot) < handlers.slotCount()) slotSelect.value = slot;
+
+  setStatus('Loading...');
+  try {
+    bots = await listLibraryBots();
+    setStatus('');
+  } catch (err: any) {
+    bots = [];
+    setStatus(`Could not open the library: ${err.message}`);
+  }
+  render();
+}
+
+function setStatus(text: string) {
+  document.getElementById('library-status')!.textContent = text;
+}
+
+function render() {
+  const query = (document.getElementById('library-search') as HTMLInputElement).value;
+  const shown = searchLibrary(bots, query);
+  const list = document.getElementById('library-list')!;
+  list.replaceChildren(...shown.map(botCard));
+  if (!bots.length) {
+    list.textContent = 'No saved bots yet — generate one and press SAVE TO LIBRARY.';
+  } else if (!shown.length) {
+    list.textContent = `No bots match "${query}".`;
+  }
+}
+
+function formatRecord(record: { wins: number; losses: number; draws: number }): string {
+  return `${record.wins}W ${record.losses}L ${record.draws}D`;
+}
+
+function versionLabel(bot: LibraryBot, v: LibraryBotVersion): string {
+  const origin = v.parent !== null ? `${v.source} from v${v.parent}` : v.source;
+  const date = new Date(v.savedAt).toLocaleDateString();
+  return `v${v.version} · ${origin} · ${formatRecord(v.record)} · ${date}${v.version === bot.head ? ' (current)' : ''}`;
+}
+
+function botCard(bot: LibraryBot): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'library-card';
+
+  const title = document.createElement('div');
+  title.className = 'library-name';
+  title.textContent = bot.name;
+  const meta = document.createElement('div');
+  meta.className = 'library-meta';
+  meta.textContent = [
+    `${providerName(bot.provider)} ${bot.model}`,
+    formatRecord(totalRecord(bot)),
+    `${bot.versions.length} version${bot.versions.length === 1 ? '' : 's'}`,
+    ...bot.tags.map(t => `#${t}`),
+  ].join(' · ');
+  const personality = document.createElement('div');
+  personality.className = 'library-personality';
+  personality.textContent = bot.personality;
+
+  const versionSelect = document.createElement('select');
+  versionSelect.className = 'pixel-input library-version';
+  for (const v of [...bot.versions].reverse()) {
+    versionSelect.add(new Option(versionLabel(bot, v), String(v.version), false, v.version === bot.head));
+  }
+  const selected = () => getVersion(bot, Number(versionSelect.value))!;
+
+  const codePeek = document.createElement('details');
+  codePeek.className = 'code-peek';
+  const codeSummary = document.createElement('summary');
+  codeSummary.textContent = 'Peek at code';
+  const code = document.createElement('pre');
+  code.className = 'code-block';
+  code.textContent = selected().code;
+  codePeek.append(codeSummary, code);
+  versionSelect.addEventListener('change', () => { code.textContent = selected().code; });
+
+  const tagsInput = document.createElement('input');
+  tagsInput.type = 'text';
+  tagsInput.className = 'pixel-input library-tags';
+  tagsInput.placeholder = 'Tags, comma separated...';
+  tagsInput.value = bot.tags.join(', ');
+  tagsInput.addEventListener('change', () => run(() => setLibraryTags(bot.id, parseTags(tagsInput.value))));
+
+  const load = button('LOAD', () => {
+    const slot = Number((document.getElementById('library-slot') as HTMLSelectElement).value);
+    handlers?.onLoad(bot, selected(), slot);
+  });
+  const rollback = button('MAKE CURRENT', () => run(() => setLibraryHead(bot.id, selected().version)));
+  const exportButton = button('EXPORT', () => run(async () => {
+    const file = await botFileFromLibrary(bot, selected().version);
+    downloadBlob(new Blob([serializeBotFile(file)], { type: 'application/json' }), botFileName(file.name));
+  }));
+  const remove = button('DELETE', () => {
+    if (confirm(`Delete ${bot.name} and all ${bot.versions.length} of its versions?`)) {
+      run(() => deleteLibraryBot(bot.id));
+    }
+  });
+  const actions = document.createElement('div');
+  actions.className = 'library-actions';
+  actions.append(load, rollback, exportButton, remove);
+
+  card.append(title, meta, personality, versionSelect, tagsInput, actions, codePeek);
+  return card;
+}
+
+function button(label: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement('button');
+  btn.className = 'btn-preset';
+  btn.textContent = label;
+  btn.addEventListener('click', onClick);
+  return btn;
+}
+
+/** Apply a change, then reload the list so every card reflects it */
+async function run(change: () => Promise<unknown>) {
+  try {
+    await change();
+    bots = await listLibraryBots();
+    setStatus('');
+    render();
+  } catch (err: any) {
+    setStatus(`Error: ${err.message}`);
+  }
+}
+
+/** Add .bot.json files as new library bots, lineage included */
+function importFiles(files: Iterable<File>) {
+  run(async () => {
+    for (const file of files) {
+      try {
+        await importToLibrary(await decodeBotFile(file));
+      } catch (err: any) {
+        throw new Error(`${file.name}: ${err.message}`);
+      }
+    }
+  });
+}
+
+function bindListeners() {
+  if (listenersBound) return;
+  listenersBound = true;
+
+  document.getElementById('library-search')!.addEventListener('input', render);
+  document.getElementById('btn-library-import')!.addEventListener('click', () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `${BOT_FILE_EXTENSION},.json,application/json`;
+    input.multiple = true;
+    input.addEventListener('change', () => importFiles(input.files ?? []));
+    input.click();
+  });
+
+  const list = document.getElementById('library-list')!;
+  list.addEventListener('dragover', (e) => {
+    if (!e.dataTransfer?.types.includes('Files')) return;
+    e.preventDefault();
+    list.classList.add('drop-target');
+  });
+  list.addEventListener('dragleave', () => list.classList.remove('drop-target'));
+  list.addEventListener('drop', (e) => {
+    list.classList.remove('drop-target');
+    if (!e.dataTransfer?.files.length) return;
+    e.preventDefault();
+    importFiles(e.dataTransfer.files);
+  });
+  document.getElementById('btn-library-back')!.addEventListener('click', () => {
+    handlers?.onClose();
+  });
+}
@@ -0,0 +1,219 @@
+import type { CodeProblem } from '../bots/codeCheck';
+import { scanCode, parseError } from '../bots/codeCheck';
+import type { BotLanguage } from '../bots/tsCompile';
+import { compileTypeScript, locateSyntaxError } from '../bots/compileTypeScript';
+
+const CHECK_DELAY_MS = 300;
+const INDENT = '  ';
+
+const KEYWORDS = new Set([
+  'break', 'case', 'catch', 'const', 'continue', 'default', 'do', 'else', 'false', 'for', 'function',
+  'if', 'in', 'let', 'new', 'null', 'of', 'return', 'switch', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'while',
+  // TypeScript
+  'any', 'as', 'boolean', 'enum', 'interface', 'keyof', 'never', 'number', 'readonly', 'string', 'type', 'unknown',
+]);
+// think()'s arguments, the globals bots lean on and the SDK's types
+const BOT_API = new Set([
+  'me', 'enemies', 'arena', 'memory', 'lib', 'Math', 'think', 'JSON', 'debug', 'console',
+  'Vec2', 'ActionName', 'StatusEffects', 'BotState', 'AllyState', 'TeamMessage', 'EnemyState', 'GameRules', 'NavGrid',
+  'ArenaState', 'BotAction', 'BotMemory', 'BotLib', 'BotDebug', 'BotConsole', 'ThinkFunction',
+]);
+
+// comment | string | number | identifier
+const TOKEN = /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|("(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\[\s\S])*`?)|(\b\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** JavaScript (or TypeScript) → HTML with token spans; good enough for think() code, not a full lexer */
+export function highlightJS(code: string): string {
+  let html = '';
+  let last = 0;
+  for (const match of code.matchAll(TOKEN)) {
+    html += escapeHTML(code.slice(last, match.index));
+    const [text, comment, string, number] = match;
+    const kind = comment ? 'comment'
+      : string ? 'string'
+      : number ? 'number'
+      : KEYWORDS.has(text) ? 'keyword'
+      : BOT_API.has(text) ? 'api'
+      : null;
+    html += kind ? `<span class="tok-${kind}">${escapeHTML(text)}</span>` : escapeHTML(text);
+    last = match.index! + text.length;
+  }
+  return html + escapeHTML(code.slice(last));
+}
+
+/**
+ * Editable think() pane: a transparent textarea over a highlighted <pre>, a
+ * line-number gutter, and problems (blocked patterns, syntax errors, and type
+ * errors for TypeScript) checked as you type and marked on their lines.
+ */
+export class CodeEditor {
+  /** Called after every check with the current problems (empty = ready to compile) */
+  onProblems: ((problems: CodeProblem[]) => void) | null = null;
+  /** Bot SDK TypeScript is checked against (see buildBotSdk) */
+  sdk = '';
+
+  private input: HTMLTextAreaElement;
+  private highlight: HTMLElement;
+  private gutter: HTMLElement;
+  private marks: HTMLElement;
+  private problemList: HTMLUListElement;
+  private problems: CodeProblem[] = [];
+  private checkTimer: ReturnType<typeof setTimeout> | null = null;
+  private checkRun = 0;
+  private lang: BotLanguage = 'javascript';
+  // Source of the last finished check, and the JavaScript it compiled to (null if it had problems)
+  private checkedCode: string | null = null;
+  private compiled: string | null = null;
+
+  constructor(container: HTMLElement) {
+    container.classList.add('code-editor');
+    container.innerHTML = `
+      <div class="code-editor-scroll">
+        <pre class="code-editor-gutter" aria-hidden="true"></pre>
+        <div class="code-editor-layers">
+          <div class="code-editor-marks" aria-hidden="true"></div>
+          <pre class="code-editor-highlight" aria-hidden="true"></pre>
+          <textarea class="code-editor-input" spellcheck="false" autocapitalize="off" autocomplete="off" wrap="off"></textarea>
+        </div>
+      </div>
+      <ul class="code-editor-problems"></ul>`;
+    this.input = container.querySelector('.code-editor-input')!;
+    this.highlight = container.querySelector('.code-editor-highlight')!;
+    this.gutter = container.querySelector('.code-editor-gutter')!;
+    this.marks = container.querySelector('.code-editor-marks')!;
+    this.problemList = container.querySelector('.code-editor-problems')!;
+
+    this.input.addEventListener('input', () => {
+      this.render();
+      this.scheduleCheck();
+    });
+    this.input.addEventListener('keydown', (e) => {
+      if (e.key !== 'Tab' || e.ctrlKey || e.metaKey || e.altKey) return;
+      e.preventDefault();
+      this.input.setRangeText(INDENT, this.input.selectionStart, this.input.selectionEnd, 'end');
+      this.input.dispatchEvent(new Event('input'));
+    });
+    this.problemList.addEventListener('click', (e) => {
+      const line = Number((e.target as HTMLElement).closest('li')?.dataset.line);
+      if (line) this.goToLine(line);
+    });
+  }
+
+  get value(): string {
+    return this.input.value;
+  }
+
+  set value(code: string) {
+    this.input.value = code;
+    this.render();
+    this.check();
+  }
+
+  get language(): BotLanguage {
+    return this.lang;
+  }
+
+  set language(language: BotLanguage) {
+    this.lang = language;
+    this.check();
+  }
+
+  getProblems(): CodeProblem[] {
+    return this.problems;
+  }
+
+  /** JavaScript for the code as it is now — TypeScript compiled — or null while it has problems */
+  async runnableCode(): Promise<string | null> {
+    const code = this.input.value;
+    if (this.checkTimer || this.checkedCode !== code) await this.check();
+    return this.checkedCode === code ? this.compiled : null;
+  }
+
+  focus() {
+    this.input.focus();
+  }
+
+  goToLine(line: number) {
+    const lines = this.input.value.split('\n');
+    const start = lines.slice(0, line - 1).reduce((n, l) => n + l.length + 1, 0);
+    this.input.focus();
+    this.input.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+  }
+
+  private render() {
+    const code = this.input.value;
+    // Trailing space keeps the <pre> as tall as the textarea when the code ends in a newline
+    this.highlight.innerHTML = `${highlightJS(code)} `;
+    const lineCount = code.split('\n').length;
+    this.gutter.textContent = Array.from({ length: lineCount }, (_, i) => i + 1).join('\n');
+  }
+
+  private scheduleCheck() {
+    if (this.checkTimer) clearTimeout(this.checkTimer);
+    this.checkTimer = setTimeout(() => this.check(), CHECK_DELAY_MS);
+  }
+
+  private async check() {
+    if (this.checkTimer) clearTimeout(this.checkTimer);
+    this.checkTimer = null;
+    const run = ++this.checkRun;
+    const code = this.input.value;
+
+    let problems = scanCode(code);
+    let compiled: string | null = code;
+    if (this.lang === 'typescript') {
+      // The first compile also loads the compiler, which takes a moment
+      const slow = setTimeout(() => this.showStatus('Checking types...'), CHECK_DELAY_MS);
+      const result = await compileTypeScript(code, this.sdk);
+      clearTimeout(slow);
+      if (run !== this.checkRun) return;
+      problems = [...problems, ...result.problems]
+        .sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || (a.column ?? 0) - (b.column ?? 0));
+      compiled = result.code;
+    } else {
+      const syntax = parseError(code);
+      if (syntax) {
+        this.showProblems([{ line: null, column: null, message: syntax }, ...problems]);
+        const located = await locateSyntaxError(code);
+        // Typed on meanwhile — a newer check owns the display
+        if (run !== this.checkRun) return;
+        if (located?.line) problems.unshift({ ...located, message: syntax });
+        else problems.unshift({ line: null, column: null, message: syntax });
+      }
+    }
+    this.checkedCode = code;
+    this.compiled = problems.length ? null : compiled;
+    this.showProblems(problems);
+  }
+
+  private showStatus(text: string) {
+    const item = document.createElement('li');
+    item.className = 'pending';
+    item.textContent = text;
+    this.problemList.replaceChildren(item);
+  }
+
+  private showProblems(problems: CodeProblem[]) {
+    this.problems = problems;
+    this.problemList.replaceChildren(...problems.map((p) => {
+      const item = document.createElement('li');
+      item.textContent = p.line !== null ? `Line ${p.line}${p.column ? `:${p.column}` : ''} — ${p.message}` : p.message;
+      if (p.line !== null) item.dataset.line = String(p.line);
+      return item;
+    }));
+
+    const lines = new Set(problems.map(p => p.line).filter((l): l is number => l !== null));
+    this.marks.replaceChildren(...[...lines].map((line) => {
+      const mark = document.createElement('div');
+      mark.className = 'code-editor-mark';
+      mark.style.top = `calc(${line - 1} * var(--editor-line-height) + var(--editor-padding))`;
+      return mark;
+    }));
+    this.onProblems?.(problems);
+  }
+}
@@ -0,0 +1,156 @@
+import type { GameRules } from '../engine/GameRules';
+import { CodeEditor } from './CodeEditor';
+import { presetPersonalities } from '../bots/presets';
+import { runSkirmish } from '../bots/runSkirmish';
+import type { SkirmishReport } from '../bots/skirmish';
+import type { BotLanguage } from '../bots/tsCompile';
+import { buildBotSdk } from '../bots/prompt';
+import { downloadBlob } from '../utils/download';
+import { TICK_RATE } from '../utils/constants';
+
+export interface CodeEditorHandlers {
+  /** Rules the skirmish is played with and the SDK documents */
+  rules: () => GameRules;
+  /** `code` is what runs (TypeScript compiled); `typescript` the source it came from, null for JavaScript */
+  onUse: (code: string, typescript: string | null) => void;
+  onCancel: () => void;
+}
+
+const SDK_FILE_NAME = 'botwars-bot.d.ts';
+
+/** Where an empty slot's editor starts */
+export const STARTER_CODE = `function think(me, enemies, arena, memory, lib) {
+  const target = enemies.find(e => e.visible) ?? enemies[0];
+  if (!target) return { move: { x: 0, y: 0 }, aim: me.facing, action: null };
+
+  const toward = lib.direction(me.position, target.position);
+  let action = null;
+  if (lib.inRange(me, target.position, 'melee', arena) && lib.canUse(me, 'melee', arena)) action = 'melee';
+  else if (target.visible && lib.canUse(me, 'ranged', arena)) action = 'ranged';
+
+  return { move: lib.steer(toward, me.position, arena), aim: toward, action };
+}
+`;
+
+/** STARTER_CODE with the SDK's types */
+export const STARTER_TYPESCRIPT = `function think(me: BotState, enemies: EnemyState[], arena: ArenaState, memory: BotMemory, lib: BotLib): BotAction {
+  const target = enemies.find(e => e.visible) ?? enemies[0];
+  if (!target) return { move: { x: 0, y: 0 }, aim: me.facing, action: null };
+
+  const toward = lib.direction(me.position, target.position);
+  let action: ActionName | null = null;
+  if (lib.inRange(me, target.position, 'melee', arena) && lib.canUse(me, 'melee', arena)) action = 'melee';
+  else if (target.visible && lib.canUse(me, 'ranged', arena)) action = 'ranged';
+
+  return { move: lib.steer(toward, me.position, arena), aim: toward, action };
+}
+`;
+
+const STARTERS: Record<BotLanguage, string> = { javascript: STARTER_CODE, typescript: STARTER_TYPESCRIPT };
+
+let editor: CodeEditor | null = null;
+let handlers: CodeEditorHandlers | null = null;
+let listenersBound = false;
+let skirmishRun = 0;
+
+/** Fill the editor screen with `code` (or a starter bot); the caller shows the screen */
+export function openCodeEditor(
+  title: string,
+  code: string | null,
+  language: BotLanguage,
+  editorHandlers: CodeEditorHandlers,
+) {
+  handlers = editorHandlers;
+  editor ??= new CodeEditor(document.getElementById('code-editor')!);
+  editor.sdk = buildBotSdk(handlers.rules());
+  editor.onProblems = (problems) => {
+    const blocked = problems.length > 0;
+    (document.getElementById('btn-editor-use') as HTMLButtonElement).disabled = blocked;
+    (document.getElementById('btn-editor-test') as HTMLButtonElement).disabled = blocked;
+  };
+  bindListeners();
+
+  document.getElementById('editor-title')!.textContent = title;
+  const opponent = document.getElementById('editor-opponent') as HTMLSelectElement;
+  if (!opponent.options.length) {
+    for (const [key, preset] of Object.entries(presetPersonalities)) opponent.add(new Option(preset.name, key));
+  }
+  skirmishRun++;
+  document.getElementById('editor-test-result')!.replaceChildren();
+  (document.getElementById('editor-language') as HTMLSelectElement).value = language;
+  editor.language = language;
+  editor.value = code ?? STARTERS[language];
+  editor.focus();
+}
+
+function showSkirmish(report: SkirmishReport) {
+  const el = document.getElementById('editor-test-result')!;
+  if (report.error) {
+    const item = document.createElement('li');
+    item.className = 'fail';
+    item.textContent = report.error;
+    el.replaceChildren(item);
+    return;
+  }
+  const count = (result: string) => report.matches.filter(m => m.result === result).length;
+  const summary = document.createElement('li');
+  summary.textContent = `vs ${report.opponent}: ${count('win')}W ${count('loss')}L ${count('draw')}D`;
+  el.replaceChildren(summary, ...report.matches.map((m) => {
+    const item = document.createElement('li');
+    item.className = m.result === 'win' ? 'pass' : m.result === 'loss' ? 'fail' : '';
+    item.textContent = `Seed ${m.seed}: ${m.result.toUpperCase()} after ${(m.ticks / TICK_RATE).toFixed(1)}s`
+      + ` — HP ${m.hp}, dealt ${m.dealt}, taken ${m.taken}`;
+    return item;
+  }));
+}
+
+function bindListeners() {
+  if (listenersBound) return;
+  listenersBound = true;
+
+  document.getElementById('btn-editor-test')!.addEventListener('click', async () => {
+    if (!editor || !handlers) return;
+    const btn = document.getElementById('btn-editor-test') as HTMLButtonElement;
+    const preset = (document.getElementById('editor-opponent') as HTMLSelectElement).value;
+    const run = ++skirmishRun;
+    btn.disabled = true;
+    const status = document.createElement('li');
+    status.textContent = 'Fighting...';
+    document.getElementById('editor-test-result')!.replaceChildren(status);
+    try {
+      const code = await editor.runnableCode();
+      if (!code) {
+        document.getElementById('editor-test-result')!.replaceChildren();
+        return;
+      }
+      const report = await runSkirmish(code, preset, handlers.rules());
+      // Editor was closed or reopened meanwhile
+      if (run === skirmishRun) showSkirmish(report);
+    } finally {
+      btn.disabled = editor.getProblems().length > 0;
+    }
+  });
+  document.getElementById('btn-editor-use')!.addEventListener('click', async () => {
+    if (!editor) return;
+    const btn = document.getElementById('btn-editor-use') as HTMLButtonElement;
+    btn.disabled = true;
+    const code = await editor.runnableCode();
+    btn.disabled = editor.getProblems().length > 0;
+    if (code) handlers?.onUse(code, editor.language === 'typescript' ? editor.value : null);
+  });
+  document.getElementById('editor-language')!.addEventListener('change', (e) => {
+    if (!editor) return;
+    const language = (e.target as HTMLSelectElement).value as BotLanguage;
+    const untouched = editor.value === STARTERS[editor.language];
+    editor.language = language;
+    // An untouched starter bot switches along; anything else is kept as written
+    if (untouched) editor.value = STARTERS[language];
+  });
+  document.getElementById('btn-editor-sdk')!.addEventListener('click', () => {
+    if (editor) downloadBlob(new Blob([editor.sdk], { type: 'text/plain' }), SDK_FILE_NAME);
+  });
+  document.getElementById('btn-editor-cancel')!.addEventListener('click', () => {
+    skirmishRun++;
+    handlers?.onCancel();
+  });
+}
@@ -0,0 +1,195 @@
+import type { BotDebugOutput, DebugLevel } from '../bots/debugChannel';
+import type { ThinkStats } from '../bots/ThinkProfiler';
+import { BOT_CSS_COLORS, DEBUG_CONSOLE_MAX_LINES } from '../utils/constants';
+
+// Battle screen debug panel: live think() timings for every bot, one console per
+// bot (debug.log, console.*, exceptions) and the toggle that also shows the 3D
+// debug-draw overlay.
+
+interface ConsoleLine {
+  tick: number;
+  level: DebugLevel;
+  text: string;
+  stack?: string;
+  /** Identical lines in a row are folded into one */
+  repeat: number;
+}
+
+const panel = () => document.getElementById('debug-console')!;
+const tabs = () => document.getElementById('debug-console-tabs')!;
+const content = () => document.getElementById('debug-console-content')!;
+const toggle = () => document.getElementById('btn-debug')!;
+const perf = () => document.getElementById('debug-console-perf')!;
+
+let lines: ConsoleLine[][] = [];
+let botNames: string[] = [];
+let thinkStats: ThinkStats[] = [];
+let selected = 0;
+let onToggle: ((visible: boolean) => void) | null = null;
+let listenersBound = false;
+
+/** Empty every bot's console for a new match; `toggled` hears when the overlay is shown or hidden */
+export function resetDebugConsole(names: string[], toggled: (visible: boolean) => void) {
+  bindListeners();
+  onToggle = toggled;
+  lines = names.map(() => []);
+  botNames = names;
+  thinkStats = [];
+  perf().replaceChildren();
+  perf().hidden = true;
+  selected = 0;
+  tabs().innerHTML = '';
+  names.forEach((name, botId) => {
+    const tab = document.createElement('button');
+    tab.className = 'debug-tab';
+    tab.textContent = name;
+    tab.style.color = BOT_CSS_COLORS[botId % BOT_CSS_COLORS.length];
+    tab.addEventListener('click', () => selectBot(botId));
+    tabs().appendChild(tab);
+  });
+  selectBot(0);
+}
+
+export function isDebugVisible(): boolean {
+  return !panel().hidden;
+}
+
+/** Add what `botId` logged on `tick` to its console */
+export function addDebugOutput(botId: number, tick: number, output: BotDebugOutput) {
+  const botLines = lines[botId];
+  if (!botLines) return;
+  const added: ConsoleLine[] = [];
+  const entries = output.dropped
+    ? [...output.logs, { level: 'warn' as const, text: `${output.dropped} more debug calls dropped (per-tick limit)` }]
+    : output.logs;
+
+  for (const entry of entries) {
+    const last = botLines[botLines.length - 1];
+    if (last && last.level === entry.level && last.text === entry.text && last.stack === entry.stack) {
+      last.repeat++;
+      last.tick = tick;
+      if (botId === selected && isDebugVisible()) updateLine(content().lastElementChild as HTMLElement | null, last);
+      continue;
+    }
+    const line: ConsoleLine = { tick, ...entry, repeat: 1 };
+    botLines.push(line);
+    added.push(line);
+  }
+  if (botLines.length > DEBUG_CONSOLE_MAX_LINES) botLines.splice(0, botLines.length - DEBUG_CONSOLE_MAX_LINES);
+
+  if (entries.some(e => e.level === 'error') && botId !== selected) {
+    tabs().children[botId]?.classList.add('has-error');
+  }
+  if (botId !== selected || !isDebugVisible() || !added.length) return;
+  const el = content();
+  const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 4;
+  for (const line of added) el.appendChild(renderLine(line));
+  while (el.childElementCount > DEBUG_CONSOLE_MAX_LINES) el.firstElementChild!.remove();
+  if (atBottom) el.scrollTop = el.scrollHeight;
+}
+
+/** Latest think() timings per bot, by bot id — replays have none, so the table stays hidden */
+export function updateThinkStats(stats: ThinkStats[]) {
+  thinkStats = stats;
+  if (isDebugVisible()) renderPerf();
+}
+
+function renderPerf() {
+  const el = perf();
+  el.hidden = !thinkStats.length;
+  if (!thinkStats.length) return;
+  const table = document.createElement('table');
+  const header = document.createElement('tr');
+  for (const label of ['', 'last', 'mean', 'p90', 'max', 'msg', 'late', 'hung', 'threw']) {
+    const th = document.createElement('th');
+    th.textContent = label;
+    header.appendChild(th);
+  }
+  table.appendChild(header);
+  thinkStats.forEach((stats, botId) => {
+    const row = document.createElement('tr');
+    const cells = [
+      botNames[botId] ?? `Bot ${botId}`,
+      stats.lastMs === null ? '–' : formatMs(stats.lastMs),
+      formatMs(stats.meanMs),
+      formatMs(stats.p90Ms),
+      formatMs(stats.maxMs),
+      `+${formatMs(stats.overheadMs)}`,
+      String(stats.timeouts + stats.skipped),
+      String(stats.hangs),
+      String(stats.exceptions),
+    ];
+    cells.forEach((text, i) => {
+      const td = document.createElement('td');
+      td.textContent = text;
+      if (i === 0) td.style.color = BOT_CSS_COLORS[botId % BOT_CSS_COLORS.length];
+      row.appendChild(td);
+    });
+    row.classList.toggle('over-budget', stats.timeouts + stats.skipped + stats.hangs > 0);
+    table.appendChild(row);
+  });
+  el.replaceChildren(table);
+}
+
+function formatMs(ms: number): string {
+  return ms < 10 ? ms.toFixed(2) : ms.toFixed(1);
+}
+
+function selectBot(botId: number) {
+  selected = botId;
+  [...tabs().children].forEach((tab, i) => {
+    tab.classList.toggle('active', i === botId);
+    if (i === botId) tab.classList.remove('has-error');
+  });
+  renderAll();
+}
+
+function renderAll() {
+  const el = content();
+  el.innerHTML = '';
+  for (const line of lines[selected] ?? []) el.appendChild(renderLine(line));
+  el.scrollTop = el.scrollHeight;
+}
+
+function renderLine(line: ConsoleLine): HTMLElement {
+  const el = document.createElement('div');
+  el.className = `debug-line ${line.level}`;
+  updateLine(el, line);
+  return el;
+}
+
+function updateLine(el: HTMLElement | null, line: ConsoleLine) {
+  if (!el) return;
+  el.textContent = `[${line.tick}] ${line.text}${line.repeat > 1 ? ` ×${line.repeat}` : ''}`;
+  if (line.stack) {
+    const stack = document.createElement('pre');
+    stack.className = 'debug-stack';
+    stack.textContent = line.stack;
+    el.appendChild(stack);
+  }
+}
+
+function setVisible(visible: boolean) {
+  panel().hidden = !visible;
+  toggle().classList.toggle('active', visible);
+  if (visible) {
+    renderPerf();
+    renderAll();
+  }
+  onToggle?.(visible);
+}
+
+function bindListeners() {
+  if (listenersBound) return;
+  listenersBound = true;
+
+  toggle().addEventListener('click', () => setVisible(!isDebugVisible()));
+
+  // Keyboard: D = debug overlay, on the battle screen only
+  document.addEventListener('keydown', (e) => {
+    if (e.code !== 'KeyD' || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (!document.getElementById('battle-screen')!.classList.contains('active')) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    setVisible(!isDebugVisible());
+  });
+}
@@ -0,0 +1,152 @@
+import type { EvolutionVersion } from '../thoughts/CodeEvolutionManager';
+import { formatRate } from '../thoughts/CodeEvolutionManager';
+import { diffLines } from '../utils/lineDiff';
+import type { DiffRow } from '../utils/lineDiff';
+import { BOT_CSS_COLORS, TICK_RATE } from '../utils/constants';
+
+// Unchanged lines kept around each change; longer unchanged runs collapse to one row
+const DIFF_CONTEXT = 2;
+
+/** Win-screen timeline of every brain each bot ran or tried to run; hidden when nobody evolved */
+export function showEvolutionHistory(
+  el: HTMLElement,
+  bots: Array<{ id: number; name: string }>,
+  history: Map<number, EvolutionVersion[]>,
+) {
+  el.replaceChildren();
+  for (const bot of bots) {
+    const versions = history.get(bot.id);
+    if (!versions?.length) continue;
+
+    const count = (kind: EvolutionVersion['kind']) => versions.filter(v => v.kind === kind).length;
+    const evolutions = count('evolution');
+    const details = document.createElement('details');
+    details.className = 'evolution-bot';
+    const summary = document.createElement('summary');
+    summary.style.color = BOT_CSS_COLORS[bot.id % BOT_CSS_COLORS.length];
+    summary.textContent = `${bot.name} — ${evolutions} evolution${evolutions === 1 ? '' : 's'}`
+      + (count('revert') ? `, ${count('revert')} rolled back` : '')
+      + (count('failed') ? `, ${count('failed')} rejected` : '');
+    details.appendChild(summary);
+
+    const list = document.createElement('ol');
+    for (const version of versions) list.appendChild(versionItem(version));
+    details.appendChild(list);
+    el.appendChild(details);
+  }
+  el.hidden = el.childElementCount === 0;
+}
+
+function versionItem(version: EvolutionVersion): HTMLLIElement {
+  const item = document.createElement('li');
+  item.className = `evolution-version ${version.kind}${version.revertedAt !== null ? ' reverted' : ''}`;
+
+  const parts = [seconds(version.tick)];
+  switch (version.kind) {
+    case 'original':
+      parts.push('v0 original');
+      break;
+    case 'evolution':
+      parts.push(`v${version.version}`, version.trigger ?? 'evolution');
+      break;
+    case 'revert':
+      parts.push(`v${version.version}`, `revert to v${version.restores}`);
+      break;
+    case 'failed':
+      parts.push(`rejected (v${version.version} kept running)`, version.trigger ?? 'evolution');
+      break;
+  }
+  if (version.performance) {
+    parts.push(`${formatRate(version.performance.netRate)} over ${seconds(version.performance.ticks)}`);
+  }
+  if (version.baseline) parts.push(`was ${formatRate(version.baseline.netRate)}`);
+  if (version.revertedAt !== null) parts.push(`ROLLED BACK at ${seconds(version.revertedAt)}`);
+
+  const header = document.createElement('div');
+  header.textContent = parts.join(' · ');
+  item.appendChild(header);
+
+  if (version.situation) item.appendChild(line('evolution-situation', `Situation: ${version.situation}`));
+  if (version.thought) item.appendChild(line('evolution-thought', `“${version.thought}”`));
+  if (version.error) item.appendChild(line('evolution-error', version.error));
+  if (version.kind !== 'original') item.appendChild(codeDiff(version.previousCode, version.code));
+  return item;
+}
+
+function seconds(ticks: number): string {
+  return `${(ticks / TICK_RATE).toFixed(1)}s`;
+}
+
+function line(className: string, text: string): HTMLDivElement {
+  const div = document.createElement('div');
+  div.className = className;
+  div.textContent = text;
+  return div;
+}
+
+/** Collapsed side-by-side diff: previous code on the left, new code on the right */
+function codeDiff(before: string, after: string): HTMLDetailsElement {
+  const rows = diffLines(before, after);
+  const added = rows.filter(r => r.right && r.kind !== 'same').length;
+  const removed = rows.filter(r => r.left && r.kind !== 'same').length;
+
+  const details = document.createElement('details');
+  details.className = 'evolution-diff';
+  const summary = document.createElement('summary');
+  summary.textContent = added || removed ? `Code diff (+${added} −${removed})` : 'Code diff (unchanged)';
+  details.appendChild(summary);
+
+  const table = document.createElement('table');
+  table.className = 'diff-table';
+  const visible = contextMask(rows);
+  for (let i = 0; i < rows.length; i++) {
+    if (visible[i]) {
+      table.appendChild(diffRow(rows[i]));
+      continue;
+    }
+    let hidden = 0;
+    while (i < rows.length && !visible[i]) {
+      hidden++;
+      i++;
+    }
+    i--;
+    const tr = document.createElement('tr');
+    tr.className = 'diff-skip';
+    const td = document.createElement('td');
+    td.colSpan = 4;
+    td.textContent = `… ${hidden} unchanged line${hidden === 1 ? '' : 's'}`;
+    tr.appendChild(td);
+    table.appendChild(tr);
+  }
+  details.appendChild(table);
+  return details;
+}
+
+/** Rows within DIFF_CONTEXT of a change; everything when nothing changed */
+function contextMask(rows: DiffRow[]): boolean[] {
+  const visible = rows.map(r => r.kind !== 'same');
+  if (!visible.includes(true)) return visible.map(() => true);
+  const near = [...visible];
+  visible.forEach((changed, i) => {
+    if (!changed) return;
+    for (let d = -DIFF_CONTEXT; d <= DIFF_CONTEXT; d++) {
+      if (i + d >= 0 && i + d < rows.length) near[i + d] = true;
+    }
+  });
+  return near;
+}
+
+function diffRow(row: DiffRow): HTMLTableRowElement {
+  const tr = document.createElement('tr');
+  tr.className = `diff-${row.kind}`;
+  for (const side of [row.left, row.right]) {
+    const num = document.createElement('td');
+    num.className = 'diff-num';
+    num.textContent = side ? String(side.line) : '';
+    const code = document.createElement('td');
+    code.className = 'diff-code';
+    code.textContent = side?.text ?? '';
+    tr.append(num, code);
+  }
+  return tr;
+}
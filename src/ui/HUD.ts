@@ -1,35 +1,75 @@
 import type { BotData } from '../engine/types';
-import { MAX_TICKS, TICK_RATE } from '../utils/constants';
+import type { GameRules } from '../engine/GameRules';
+import { CLASSIC_RULES } from '../engine/GameRules';
+import { TICK_RATE } from '../utils/constants';
+
+interface HUDBar {
+  root: HTMLElement;
+  hp: HTMLElement;
+  hpText: HTMLElement;
+  energy: HTMLElement;
+}
+
+let bars: HUDBar[] = [];
+let rules: Readonly<GameRules> = CLASSIC_RULES;
+
+/**
+ * Build one bar per bot — first half on the left of the timer, the rest on the right.
+ * In team battles team 0 goes left and every other team right.
+ */
+export function setHUDBots(names: string[], teams: number[] | undefined, matchRules: Readonly<GameRules>) {
+  rules = matchRules;
+  const left = document.getElementById('hud-left')!;
+  const right = document.getElementById('hud-right')!;
+  left.innerHTML = '';
+  right.innerHTML = '';
+  document.getElementById('hud')!.classList.toggle('crowded', names.length > 2);
+
+  const leftCount = Math.ceil(names.length / 2);
+  bars = names.map((name, i) => {
+    const onLeft = teams ? teams[i] === 0 : i < leftCount;
+    const root = document.createElement('div');
+    root.className = `hud-bar p${i + 1}-hud ${onLeft ? 'hud-left' : 'hud-right'}`;
+    root.innerHTML = `
+      <span class="hud-name"></span>
+      <div class="bar-container"><div class="bar hp-bar" style="width:100%"></div></div>
+      <span class="bar-text">${rules.bot.hp}</span>
+      <div class="bar-container energy-container"><div class="bar energy-bar" style="width:100%"></div></div>`;
+    root.querySelector('.hud-name')!.textContent = name;
+    (onLeft ? left : right).appendChild(root);
+    return {
+      root,
+      hp: root.querySelector('.hp-bar') as HTMLElement,
+      hpText: root.querySelector('.bar-text') as HTMLElement,
+      energy: root.querySelector('.energy-bar') as HTMLElement,
+    };
+  });
+}
 
 export function updateHUD(bots: BotData[], tick: number) {
-  for (let i = 0; i < 2; i++) {
+  for (let i = 0; i < bars.length; i++) {
     const bot = bots[i];
-    const prefix = i === 0 ? 'p1' : 'p2';
+    const bar = bars[i];
+    if (!bot) continue;
 
     // HP bar
-    const hpBar = document.getElementById(`hud-${prefix}-hp`) as HTMLElement;
-    const hpText = document.getElementById(`hud-${prefix}-hp-text`) as HTMLElement;
-    const hpPercent = Math.max(0, bot.hp);
-    hpBar.style.width = `${hpPercent}%`;
-    hpText.textContent = `${Math.max(0, Math.ceil(bot.hp))}`;
+    const hpPercent = Math.max(0, bot.hp) / rules.bot.hp * 100;
+    bar.hp.style.width = `${hpPercent}%`;
+    bar.hpText.textContent = `${Math.max(0, Math.ceil(bot.hp))}`;
 
     // HP bar color
-    hpBar.className = 'bar hp-bar';
-    if (hpPercent <= 25) hpBar.classList.add('low');
-    else if (hpPercent <= 50) hpBar.classList.add('medium');
+    bar.hp.className = 'bar hp-bar';
+    if (hpPercent <= 25) bar.hp.classList.add('low');
+    else if (hpPercent <= 50) bar.hp.classList.add('medium');
 
     // Energy bar
-    const energyBar = document.getElementById(`hud-${prefix}-energy`) as HTMLElement;
-    energyBar.style.width = `${bot.energy}%`;
+    bar.energy.style.width = `${bot.energy / rules.bot.energy * 100}%`;
+
+    bar.root.classList.toggle('ko', !bot.alive);
   }
 
   // Timer
   const timerEl = document.getElementById('hud-timer')!;
-  const secondsLeft = Math.ceil((MAX_TICKS - tick) / TICK_RATE);
+  const secondsLeft = Math.ceil((rules.match.maxTicks - tick) / TICK_RATE);
   timerEl.textContent = `${secondsLeft}s`;
 }
-
-export function setHUDNames(name1: string, name2: string) {
-  document.getElementById('hud-p1-name')!.textContent = name1;
-  document.getElementById('hud-p2-name')!.textContent = name2;
-}
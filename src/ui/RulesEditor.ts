@@ -0,0 +1,119 @@
+import type { GameRules, RuleGroup, RuleFieldSpec } from '../engine/GameRules';
+import { ALL_ACTIONS, RULE_FIELDS, RULE_PRESETS, cloneRules, normalizeRules } from '../engine/GameRules';
+
+export interface RulesEditorHandlers {
+  onApply: (rules: GameRules) => void;
+  onCancel: () => void;
+}
+
+const GROUP_LABELS: Record<RuleGroup, string> = {
+  match: 'Match',
+  bot: 'Bot',
+  melee: 'Melee',
+  ranged: 'Ranged',
+  special: 'Special',
+  defend: 'Defend',
+  dash: 'Dash',
+  heal: 'Heal',
+  trap: 'Trap',
+  movement: 'Movement',
+  regen: 'Regen',
+  burn: 'Burn',
+  pickups: 'Pickups',
+  cpu: 'CPU limit',
+};
+
+const CUSTOM_SUFFIX = ' (custom)';
+
+let draft: GameRules = cloneRules(RULE_PRESETS[0]);
+let handlers: RulesEditorHandlers | null = null;
+let listenersBound = false;
+
+/** Fill the rules screen with `rules`; the caller shows the screen */
+export function openRulesEditor(rules: GameRules, editorHandlers: RulesEditorHandlers) {
+  draft = cloneRules(rules);
+  handlers = editorHandlers;
+  bindListeners();
+  render();
+}
+
+function render() {
+  const presetSelect = document.getElementById('rules-preset') as HTMLSelectElement;
+  presetSelect.innerHTML = RULE_PRESETS
+    .map((p, i) => `<option value="${i}"${p.name === draft.name ? ' selected' : ''}>${p.name}</option>`)
+    .join('');
+  if (!RULE_PRESETS.some(p => p.name === draft.name)) {
+    presetSelect.add(new Option(draft.name, '', true, true));
+  }
+
+  const fields = document.getElementById('rules-fields')!;
+  fields.innerHTML = '';
+  for (const group of Object.keys(RULE_FIELDS) as RuleGroup[]) {
+    const fieldset = document.createElement('fieldset');
+    fieldset.className = 'rules-group';
+    fieldset.innerHTML = `<legend class="pixel-label">${GROUP_LABELS[group]}</legend>`;
+
+    const values = draft[group] as Record<string, number>;
+    for (const [key, spec] of Object.entries(RULE_FIELDS[group] as Record<string, RuleFieldSpec>)) {
+      const label = document.createElement('label');
+      label.className = 'rules-field';
+      label.innerHTML = `<span>${spec.label}</span>
+        <input type="number" class="pixel-input" data-group="${group}" data-key="${key}"
+          min="${spec.min}" max="${spec.max}" step="${spec.step}" value="${values[key]}" />`;
+      fieldset.appendChild(label);
+    }
+    fields.appendChild(fieldset);
+  }
+
+  const actions = document.getElementById('rules-actions')!;
+  actions.innerHTML = ALL_ACTIONS
+    .map(a => `<label class="pixel-label"><input type="checkbox" data-action="${a}"${draft.allowedActions.includes(a) ? ' checked' : ''} /> ${a}</label>`)
+    .join('');
+}
+
+function markCustom() {
+  if (!draft.name.endsWith(CUSTOM_SUFFIX)) draft.name += CUSTOM_SUFFIX;
+  const presetSelect = document.getElementById('rules-preset') as HTMLSelectElement;
+  const custom = Array.from(presetSelect.options).find(o => o.value === '');
+  if (custom) custom.text = draft.name;
+  else presetSelect.add(new Option(draft.name, '', true, true));
+  presetSelect.value = '';
+}
+
+function bindListeners() {
+  if (listenersBound) return;
+  listenersBound = true;
+
+  document.getElementById('rules-preset')!.addEventListener('change', (e) => {
+    const preset = RULE_PRESETS[Number((e.target as HTMLSelectElement).value)];
+    if (!preset) return;
+    draft = cloneRules(preset);
+    render();
+  });
+
+  document.getElementById('rules-fields')!.addEventListener('change', (e) => {
+    const input = e.target as HTMLInputElement;
+    const group = input.dataset.group as RuleGroup | undefined;
+    const key = input.dataset.key;
+    if (!group || !key) return;
+    (draft[group] as Record<string, number>)[key] = Number(input.value);
+    // Clamp through the same path replays and API requests use
+    Object.assign(draft[group], normalizeRules(draft)[group]);
+    input.value = String((draft[group] as Record<string, number>)[key]);
+    markCustom();
+  });
+
+  document.getElementById('rules-actions')!.addEventListener('change', (e) => {
+    if (!(e.target as HTMLInputElement).dataset.action) return;
+    draft.allowedActions = ALL_ACTIONS.filter(a =>
+      (document.querySelector(`#rules-actions input[data-action="${a}"]`) as HTMLInputElement).checked);
+    markCustom();
+  });
+
+  document.getElementById('btn-rules-apply')!.addEventListener('click', () => {
+    handlers?.onApply(normalizeRules(draft));
+  });
+  document.getElementById('btn-rules-cancel')!.addEventListener('click', () => {
+    handlers?.onCancel();
+  });
+}
@@ -0,0 +1,82 @@
+import type { ThinkStats } from '../bots/ThinkProfiler';
+import { BOT_CSS_COLORS, THINK_DEADLINE_MS, THINK_HISTOGRAM_EDGES } from '../utils/constants';
+
+/** Win-screen think() timing report: percentiles, budget misses and a latency histogram per bot; hidden without stats */
+export function showThinkReport(
+  el: HTMLElement,
+  bots: Array<{ id: number; name: string }>,
+  stats: Map<number, ThinkStats>,
+) {
+  el.replaceChildren();
+  for (const bot of bots) {
+    const botStats = stats.get(bot.id);
+    if (!botStats?.ticks) continue;
+
+    const missed = botStats.timeouts + botStats.skipped + botStats.hangs;
+    const section = document.createElement('div');
+    section.className = `profile-bot${missed ? ' over-budget' : ''}`;
+    const title = document.createElement('div');
+    title.className = 'profile-title';
+    title.style.color = BOT_CSS_COLORS[bot.id % BOT_CSS_COLORS.length];
+    title.textContent = `${bot.name} — ${percent(missed, botStats.ticks)} of ticks missed the ${THINK_DEADLINE_MS} ms budget`;
+    section.appendChild(title);
+
+    section.appendChild(line('profile-times', [
+      `p50 ${ms(botStats.p50Ms)}`,
+      `p90 ${ms(botStats.p90Ms)}`,
+      `p99 ${ms(botStats.p99Ms)}`,
+      `max ${ms(botStats.maxMs)}`,
+      `mean ${ms(botStats.meanMs)}`,
+      `messaging +${ms(botStats.overheadMs)}`,
+    ].join(' · ')));
+    section.appendChild(line('profile-faults', [
+      `${botStats.ticks} ticks`,
+      `${botStats.timeouts} late`,
+      `${botStats.skipped} skipped while busy`,
+      `${botStats.hangs} worker restart${botStats.hangs === 1 ? '' : 's'}`,
+      `${botStats.exceptions} exception${botStats.exceptions === 1 ? '' : 's'}`,
+    ].join(' · ')));
+    section.appendChild(histogram(botStats.histogram));
+    el.appendChild(section);
+  }
+  el.hidden = el.childElementCount === 0;
+}
+
+/** One bar per THINK_HISTOGRAM_EDGES bucket, scaled to the fullest */
+function histogram(counts: number[]): HTMLDivElement {
+  const chart = document.createElement('div');
+  chart.className = 'profile-histogram';
+  const most = Math.max(1, ...counts);
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  counts.forEach((count, i) => {
+    const column = document.createElement('div');
+    column.className = 'profile-column';
+    column.title = `${count} call${count === 1 ? '' : 's'} (${percent(count, total)})`;
+    const bar = document.createElement('div');
+    bar.className = `profile-bar${i >= THINK_HISTOGRAM_EDGES.length - 1 ? ' slow' : ''}`;
+    bar.style.height = `${(count / most) * 100}%`;
+    const label = document.createElement('div');
+    label.className = 'profile-label';
+    label.textContent = i < THINK_HISTOGRAM_EDGES.length
+      ? `≤${THINK_HISTOGRAM_EDGES[i]}`
+      : `>${THINK_HISTOGRAM_EDGES[THINK_HISTOGRAM_EDGES.length - 1]}`;
+    column.append(bar, label);
+    chart.appendChild(column);
+  });
+  return chart;
+}
+
+function ms(value: number): string {
+  return `${value < 10 ? value.toFixed(2) : value.toFixed(1)}ms`;
+}
+
+function percent(part: number, whole: number): string {
+  return whole ? `${((part / whole) * 100).toFixed(1)}%` : '0%';
+}
+
+function line(className: string, text: string): HTMLDivElement {
+  const div = document.createElement('div');
+  div.className = className;
+  div.textContent = text;
+  return div;
+}
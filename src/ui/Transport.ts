@@ -0,0 +1,93 @@
+import type { TimelineMarker } from '../engine/ReplayTimeline';
+import { PLAYBACK_SPEEDS } from '../utils/constants';
+
+export interface TransportHandlers {
+  onTogglePause: () => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+  onSpeed: (speed: number) => void;
+  onSeek: (tick: number) => void;
+}
+
+const el = () => document.getElementById('transport')!;
+const slider = () => document.getElementById('timeline-slider') as HTMLInputElement;
+
+let handlers: TransportHandlers | null = null;
+let dragging = false;
+let listenersBound = false;
+
+const MARKER_COLORS: Record<TimelineMarker['type'], string> = {
+  ko: '#ff5252',
+  special: '#ff00ff',
+  trap: '#ff8800',
+  evolution: '#7c3aed',
+};
+
+export function showTransport(totalTicks: number, markers: TimelineMarker[], transportHandlers: TransportHandlers) {
+  handlers = transportHandlers;
+  bindListeners();
+
+  const speedSelect = document.getElementById('transport-speed') as HTMLSelectElement;
+  speedSelect.innerHTML = PLAYBACK_SPEEDS
+    .map(s => `<option value="${s}"${s === 1 ? ' selected' : ''}>${s}x</option>`)
+    .join('');
+
+  slider().max = String(totalTicks);
+  slider().value = '0';
+
+  const markerContainer = document.getElementById('timeline-markers')!;
+  markerContainer.innerHTML = '';
+  for (const marker of markers) {
+    const m = document.createElement('button');
+    m.className = `timeline-marker ${marker.type}`;
+    m.style.left = `${(marker.tick / Math.max(1, totalTicks)) * 100}%`;
+    m.style.background = MARKER_COLORS[marker.type];
+    m.title = `${marker.tick}: ${marker.label}`;
+    m.addEventListener('click', () => handlers?.onSeek(marker.tick));
+    markerContainer.appendChild(m);
+  }
+
+  el().hidden = false;
+}
+
+export function hideTransport() {
+  el().hidden = true;
+  handlers = null;
+}
+
+export function updateTransport(tick: number, paused: boolean) {
+  if (!dragging) slider().value = String(tick);
+  document.getElementById('transport-tick')!.textContent = `${tick}/${slider().max}`;
+  document.getElementById('transport-play')!.textContent = paused ? '▶' : '❚❚';
+}
+
+function bindListeners() {
+  if (listenersBound) return;
+  listenersBound = true;
+
+  document.getElementById('transport-play')!.addEventListener('click', () => handlers?.onTogglePause());
+  document.getElementById('transport-back')!.addEventListener('click', () => handlers?.onStepBack());
+  document.getElementById('transport-fwd')!.addEventListener('click', () => handlers?.onStepForward());
+  document.getElementById('transport-speed')!.addEventListener('change', (e) => {
+    handlers?.onSpeed(Number((e.target as HTMLSelectElement).value));
+  });
+
+  const range = slider();
+  range.addEventListener('pointerdown', () => { dragging = true; });
+  range.addEventListener('pointerup', () => { dragging = false; });
+  range.addEventListener('input', () => handlers?.onSeek(Number(range.value)));
+
+  // Keyboard: space = play/pause, arrows = step
+  document.addEventListener('keydown', (e) => {
+    if (!handlers || el().hidden) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    if (e.code === 'Space') {
+      e.preventDefault();
+      handlers.onTogglePause();
+    } else if (e.code === 'ArrowLeft') {
+      handlers.onStepBack();
+    } else if (e.code === 'ArrowRight') {
+      handlers.onStepForward();
+    }
+  });
+}
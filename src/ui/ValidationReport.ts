@@ -0,0 +1,23 @@
+import type { SmokeReport } from '../bots/smokeTest';
+
+/** Show a generated bot's smoke-test results under its creation panel */
+export function showValidationReport(el: HTMLElement, report: SmokeReport, repairs: number) {
+  const passed = report.checks.filter(c => c.passed).length;
+  const summary = document.createElement('li');
+  summary.className = 'validation-summary';
+  summary.textContent = `${passed}/${report.checks.length} checks passed`
+    + (repairs ? ` after ${repairs} repair${repairs > 1 ? 's' : ''}` : '');
+
+  el.replaceChildren(summary, ...report.checks.map(check => {
+    const item = document.createElement('li');
+    item.className = check.passed ? 'pass' : 'fail';
+    item.textContent = `${check.passed ? '✓' : '✗'} ${check.name}${check.detail ? ` — ${check.detail}` : ''}`;
+    return item;
+  }));
+  el.hidden = false;
+}
+
+export function clearValidationReport(el: HTMLElement) {
+  el.replaceChildren();
+  el.hidden = true;
+}
@@ -1,25 +1,80 @@
 import type { BotStyle } from '../engine/types';
 import { DEFAULT_STYLE } from '../engine/types';
+import type { GameRules } from '../engine/GameRules';
+import { CLASSIC_RULES } from '../engine/GameRules';
+import { DEFAULT_PROVIDER_ID } from './providers';
+import { runSmokeTest } from '../bots/runSmokeTest';
+import type { SmokeReport } from '../bots/smokeTest';
+import { MAX_REPAIR_ATTEMPTS } from './constants';
 
+export interface GeneratedBot {
+  code: string;
+  style: BotStyle;
+  /** Smoke test of the returned code (after any repairs) */
+  report: SmokeReport;
+  /** Repair round trips it took */
+  repairs: number;
+}
+
+/**
+ * Generate a bot, smoke-test it, and send failures back to the model for up to
+ * MAX_REPAIR_ATTEMPTS repairs. Returns the best code seen, even if it never passed.
+ */
 export async function generateBot(
   name: string,
   personality: string,
-  provider: 'claude' | 'openai' = 'claude',
-): Promise<{ code: string; style: BotStyle }> {
-  const res = await fetch('/api/generate-bot', {
+  provider: string = DEFAULT_PROVIDER_ID,
+  model?: string,
+  rules: GameRules = CLASSIC_RULES,
+  onProgress?: (status: string) => void,
+): Promise<GeneratedBot> {
+  const data = await postJSON('/api/generate-bot', { name, personality, provider, model, rules }, 'Failed to generate bot');
+  let code: string = data.code;
+  onProgress?.('Testing code...');
+  let report = await runSmokeTest(code, rules);
+
+  let repairs = 0;
+  while (!report.ok && repairs < MAX_REPAIR_ATTEMPTS) {
+    repairs++;
+    onProgress?.(`Repairing code (attempt ${repairs}/${MAX_REPAIR_ATTEMPTS})...`);
+    let repaired: string;
+    try {
+      repaired = (await postJSON('/api/repair-bot', {
+        name, personality, provider, model, rules, code, error: report.error,
+      }, 'Failed to repair bot')).code;
+    } catch {
+      break;
+    }
+    const repairedReport = await runSmokeTest(repaired, rules);
+    // Never trade code for something that does worse
+    if (score(repairedReport) >= score(report)) {
+      code = repaired;
+      report = repairedReport;
+    }
+  }
+
+  return {
+    code,
+    style: data.style || DEFAULT_STYLE,
+    report,
+    repairs,
+  };
+}
+
+function score(report: SmokeReport): number {
+  return (report.runnable ? 1000 : 0) + report.checks.filter(c => c.passed).length;
+}
+
+async function postJSON(url: string, body: unknown, failure: string): Promise<any> {
+  const res = await fetch(url, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ name, personality, provider }),
+    body: JSON.stringify(body),
   });
 
   if (!res.ok) {
     const err = await res.json();
-    throw new Error(err.error || 'Failed to generate bot');
+    throw new Error(err.error || failure);
   }
-
-  const data = await res.json();
-  return {
-    code: data.code,
-    style: data.style || DEFAULT_STYLE,
-  };
+  return res.json();
 }
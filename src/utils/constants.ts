@@ -5,79 +5,58 @@ export const ARENA_HALF = ARENA_SIZE / 2;
 // Game
 export const TICK_RATE = 20;
 export const TICK_MS = 1000 / TICK_RATE; // 50ms
-export const MAX_TICKS = 2400; // 120 seconds
+// Balance values (HP, damage, cooldowns, match length...) live in engine/GameRules
+
+// Replay playback
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+export const SNAPSHOT_INTERVAL = 100; // ticks between seek snapshots
+
+// Free-for-all
+export const MIN_BOTS = 2;
+export const MAX_BOTS = 8;
+/** Longest bot name the creation screen accepts — imported files are held to it too */
+export const BOT_NAME_MAX_LENGTH = 16;
+export const SPAWN_RING_RADIUS = 12;
+
+// Team battles
+export const TEAM_SIZES = [2, 3];
+export const TEAM_MESSAGE_MAX_LENGTH = 64;
+/** Max size of a bot's `memory` object, in characters of JSON */
+export const BOT_MEMORY_MAX_SIZE = 8192;
+export const DEFAULT_FRIENDLY_FIRE = { projectiles: false, specials: false, traps: false };
+
+// Generated-code validation (see src/bots/smokeTest.ts)
+export const MAX_REPAIR_ATTEMPTS = 2;
+export const SMOKE_TEST_TIMEOUT_MS = 2000;
+
+// Code editor "test against preset" (see src/bots/skirmish.ts)
+export const SKIRMISH_MATCHES = 3; // one per seed
+export const SKIRMISH_TIMEOUT_MS = 15000;
+
+// TypeScript bots (see src/bots/tsCompile.ts) — the first compile also loads the compiler
+export const TYPESCRIPT_TIMEOUT_MS = 20000;
+
+// Bot debug output: debug.log/line/circle and console (see src/bots/debugChannel.ts)
+export const DEBUG_MAX_LOGS_PER_TICK = 10;
+export const DEBUG_MAX_SHAPES_PER_TICK = 32;
+export const DEBUG_LOG_MAX_LENGTH = 200;
+export const DEBUG_STACK_MAX_LINES = 6;
+/** Lines each bot keeps in the battle screen's debug console */
+export const DEBUG_CONSOLE_MAX_LINES = 200;
+
+// think() profiling (see src/bots/ThinkProfiler.ts)
+/** How long BotRunner waits for a think() answer before the bot idles that tick */
+export const THINK_DEADLINE_MS = 50;
+/** Upper edges of the think-time histogram buckets in ms — one more bucket holds everything slower */
+export const THINK_HISTOGRAM_EDGES = [1, 2, 5, 10, 20, THINK_DEADLINE_MS];
+/** Ticks between refreshes of the live profiler stats */
+export const THINK_STATS_INTERVAL = 10;
 
 // Bot
-export const BOT_HP = 1000;
-export const BOT_ENERGY = 100;
 export const BOT_RADIUS = 1.0;
-export const BOT_SPEED = 0.3; // units per tick
-export const ENERGY_REGEN = 1; // per tick
-export const BOT_FOV = 160; // degrees — field of view cone
-
-// Combat
-export const MELEE_DAMAGE = 9;
-export const MELEE_ENERGY = 12;
-export const MELEE_COOLDOWN = 10;
-export const MELEE_RANGE = 2.0;
-
-export const RANGED_DAMAGE = 8;
-export const RANGED_ENERGY = 14;
-export const RANGED_COOLDOWN = 15;
-export const RANGED_RANGE = 20.0;
-export const PROJECTILE_SPEED = 0.8;
-
-export const SPECIAL_DAMAGE = 12;
-export const SPECIAL_ENERGY = 40;
-export const SPECIAL_COOLDOWN = 50;
-export const SPECIAL_RANGE = 8.0;
-
-export const DEFEND_ENERGY_PER_TICK = 3;
-export const DEFEND_REDUCTION = 0.35; // takes 35% damage
-
-// Dash
-export const DASH_ENERGY = 15;
-export const DASH_COOLDOWN = 12;
-export const DASH_DISTANCE = 5;
-
-// Heal
-export const HEAL_AMOUNT = 15;
-export const HEAL_ENERGY = 30;
-export const HEAL_COOLDOWN = 40;
-
-// Trap
-export const TRAP_DAMAGE = 10;
-export const TRAP_ENERGY = 20;
-export const TRAP_COOLDOWN = 25;
-export const TRAP_RADIUS = 1.5;
-export const TRAP_MAX_PER_BOT = 2;
-export const TRAP_SLOW_DURATION = 30;
-export const TRAP_LIFETIME = 400;
-
-// Attack commitment
-export const MELEE_COMMIT_TICKS = 3;
-export const SPECIAL_COMMIT_TICKS = 4;
-export const COMMIT_SPEED_MULT = 0.15; // 15% speed during commitment
-
-// Out-of-combat regen
-export const OOC_REGEN_DELAY = 40; // ticks (2 sec) without combat
-export const OOC_REGEN_RATE = 2;   // HP per tick once active
-
-// Momentum
-export const MOMENTUM_BUILDUP = 0.12;
-export const MOMENTUM_DECAY = 0.5;
-export const MOMENTUM_MAX_BONUS = 0.5; // max 50% speed bonus
-
-// Status effects
-export const BURN_DAMAGE = 1;
-export const BURN_DURATION = 20;
-
-// Pickups
-export const PICKUP_INTERVAL = 100; // ticks (5 sec)
-export const MAX_PICKUPS = 3;
-export const HEALTH_PICKUP_AMOUNT = 20;
-export const ENERGY_PICKUP_AMOUNT = 30;
-export const PICKUP_RADIUS = 0.8;
+
+// Navigation grid handed to bots as arena.nav (see src/engine/NavGrid.ts)
+export const NAV_CELL_SIZE = 1;
 
 // Obstacles (fallback only — ArenaGenerator produces dynamic obstacles)
 export const DEFAULT_OBSTACLES = [
@@ -91,6 +70,11 @@ export const OBSTACLES = DEFAULT_OBSTACLES;
 // Colors
 export const P1_COLOR = 0xff6b6b;
 export const P2_COLOR = 0x4ecdc4;
+/** Per-slot colors, mirrored by --pN-color in style.css */
+export const BOT_COLORS = [
+  P1_COLOR, P2_COLOR, 0xffd93d, 0xb388ff, 0x6bff8f, 0xff9f43, 0x54a0ff, 0xff6bd6,
+];
+export const BOT_CSS_COLORS = BOT_COLORS.map(c => `#${c.toString(16).padStart(6, '0')}`);
 export const ENERGY_COLOR = 0x00fff5;
 export const ARENA_COLOR = 0x1a1a2e;
 export const WALL_COLOR = 0x00fff5;
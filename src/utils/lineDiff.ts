@@ -0,0 +1,92 @@
+// Line diff for the evolution history's side-by-side code view.
+
+/** One row of a side-by-side diff; a missing side is a blank cell */
+export interface DiffRow {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  /** 1-based line number and text in the old code */
+  left: { line: number; text: string } | null;
+  /** 1-based line number and text in the new code */
+  right: { line: number; text: string } | null;
+}
+
+// Past this many line pairs the LCS table gets too big — show a full replacement instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Longest-common-subsequence diff; neighbouring removals and additions are paired into 'changed' rows */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const ops = a.length * b.length > MAX_DIFF_CELLS ? replaceAll(a.length, b.length) : lcsOps(a, b);
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k] === '=') {
+      rows.push({ kind: 'same', left: { line: i + 1, text: a[i] }, right: { line: j + 1, text: b[j] } });
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+    // Gather one run of edits, then line removals up against additions
+    let removed = 0;
+    let added = 0;
+    while (k < ops.length && ops[k] !== '=') {
+      if (ops[k] === '-') removed++;
+      else added++;
+      k++;
+    }
+    for (let n = 0; n < Math.max(removed, added); n++) {
+      const left = n < removed ? { line: i + n + 1, text: a[i + n] } : null;
+      const right = n < added ? { line: j + n + 1, text: b[j + n] } : null;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    i += removed;
+    j += added;
+  }
+  return rows;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/** Edit script: '=' keep, '-' drop from a, '+' take from b */
+function lcsOps(a: string[], b: string[]): string[] {
+  const width = b.length + 1;
+  // table[i * width + j] = LCS length of a[i..] and b[j..]
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push('=');
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push('-');
+      i++;
+    } else {
+      ops.push('+');
+      j++;
+    }
+  }
+  while (i++ < a.length) ops.push('-');
+  while (j++ < b.length) ops.push('+');
+  return ops;
+}
+
+function replaceAll(removed: number, added: number): string[] {
+  return [...Array(removed).fill('-'), ...Array(added).fill('+')];
+}
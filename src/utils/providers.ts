@@ -0,0 +1,108 @@
+// LLM provider registry — shared by the browser (creation screen, thought log)
+// and vite.config.ts (API proxy), so keep it free of DOM and Node imports.
+
+/** Wire protocol the API proxy speaks to the provider ('mock' answers offline, see src/bots/mockProvider.ts) */
+export type ProviderApi = 'anthropic' | 'openai' | 'openai-compatible' | 'mock';
+
+export interface ProviderSpec {
+  id: string;
+  /** Display name on the creation screen and in the thought log */
+  name: string;
+  api: ProviderApi;
+  /** Default endpoint — null uses the SDK's own */
+  baseURL: string | null;
+  /** .env variable that overrides baseURL (e.g. a local server on another port) */
+  baseURLEnv: string;
+  /** Default model; any other model name can be typed in on the creation screen */
+  model: string;
+  /** Suggestions for the model field */
+  models: string[];
+  /** .env variable holding the API key */
+  apiKeyEnv: string;
+  /** Local servers usually accept any key */
+  apiKeyRequired: boolean;
+  /** Thought bubbles stream token by token; otherwise they arrive in one piece */
+  streaming: boolean;
+  /** Thought-log label color */
+  color: string;
+}
+
+export const PROVIDERS: readonly ProviderSpec[] = [
+  {
+    id: 'claude',
+    name: 'Claude',
+    api: 'anthropic',
+    baseURL: null,
+    baseURLEnv: 'ANTHROPIC_BASE_URL',
+    model: 'claude-haiku-4-5-20251001',
+    models: ['claude-haiku-4-5-20251001', 'claude-sonnet-4-5'],
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    apiKeyRequired: true,
+    streaming: true,
+    color: '#7c3aed',
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    api: 'openai',
+    baseURL: null,
+    baseURLEnv: 'OPENAI_BASE_URL',
+    model: 'gpt-4.1-nano',
+    models: ['gpt-4.1-nano', 'gpt-4.1-mini', 'gpt-4o-mini'],
+    apiKeyEnv: 'OPENAI_API_KEY',
+    apiKeyRequired: true,
+    streaming: true,
+    color: '#10b981',
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    api: 'openai-compatible',
+    baseURL: 'http://localhost:11434/v1',
+    baseURLEnv: 'OLLAMA_BASE_URL',
+    model: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5-coder', 'mistral'],
+    apiKeyEnv: 'OLLAMA_API_KEY',
+    apiKeyRequired: false,
+    streaming: true,
+    color: '#f59e0b',
+  },
+  {
+    id: 'llamacpp',
+    name: 'llama.cpp',
+    api: 'openai-compatible',
+    baseURL: 'http://localhost:8080/v1',
+    baseURLEnv: 'LLAMACPP_BASE_URL',
+    // llama-server answers with whatever model it was started with
+    model: 'default',
+    models: [],
+    apiKeyEnv: 'LLAMACPP_API_KEY',
+    apiKeyRequired: false,
+    streaming: true,
+    color: '#38bdf8',
+  },
+  {
+    id: 'mock',
+    name: 'Mock (offline)',
+    api: 'mock',
+    baseURL: null,
+    baseURLEnv: '',
+    model: 'mock',
+    models: [],
+    apiKeyEnv: '',
+    apiKeyRequired: false,
+    streaming: true,
+    color: '#9ca3af',
+  },
+];
+
+export const DEFAULT_PROVIDER_ID = 'claude';
+
+export function getProvider(id: string): ProviderSpec | undefined {
+  return PROVIDERS.find(p => p.id === id);
+}
+
+/** Display name for a provider id, falling back to the id itself */
+export function providerName(id: string): string {
+  return getProvider(id)?.name ?? id;
+}
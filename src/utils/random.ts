@@ -0,0 +1,52 @@
+/** Seedable PRNG (mulberry32). `state` can be read and restored for snapshots. */
+export class SeededRandom {
+  state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform float in [0, 1) — drop-in for Math.random() */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Uniform integer in [0, maxExclusive) */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+}
+
+/** Fresh match seed — the one place non-deterministic randomness is allowed */
+export function randomSeed(): number {
+  return (Math.random() * 2147483647) | 0;
+}
+
+/** Derive an independent stream seed so subsystems don't consume each other's numbers */
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Stream ids for deriveSeed
+export const SEED_STREAM_ARENA = 0;
+export const SEED_STREAM_PICKUPS = 1;
+const SEED_STREAM_BOT_BASE = 100;
+
+export function botSeed(matchSeed: number, botId: number): number {
+  return deriveSeed(matchSeed, SEED_STREAM_BOT_BASE + botId);
+}
+
+/** Parse a user-entered seed; returns null for blank or invalid input */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const value = Number(trimmed);
+  return value <= 0xffffffff ? value : null;
+}
@@ -1,9 +1,11 @@
 import { defineConfig, loadEnv } from 'vite';
 import type { Connect } from 'vite';
 import glsl from 'vite-plugin-glsl';
+import type { ProviderSpec } from './src/utils/providers';
+import type { MockConfig, MockSubject } from './src/bots/mockProvider';
 
 export default defineConfig(({ mode }) => {
-  // Load all env vars (ANTHROPIC_*, OPENAI_*, etc.)
+  // Load all env vars (API keys and base URLs named in src/utils/providers.ts)
   const env = loadEnv(mode, process.cwd(), '');
 
   return {
@@ -14,7 +16,7 @@ export default defineConfig(({ mode }) => {
         configureServer(server) {
           // ============================================
           // POST /api/generate-bot
-          // Generates bot think() + style via Claude or OpenAI
+          // Generates bot think() + style via the bot's provider and model
           // ============================================
           server.middlewares.use('/api/generate-bot', async (req, res) => {
             if (req.method !== 'POST') {
@@ -25,60 +27,20 @@ export default defineConfig(({ mode }) => {
 
             const body = await readBody(req);
             try {
-              const { name, personality, provider } = JSON.parse(body);
-              const { systemPrompt } = await import('./src/bots/prompt.ts');
-
-              if (provider === 'openai') {
-                // ---------- OpenAI GPT-4.1 Nano via Responses API ----------
-                const apiKey = env.OPENAI_API_KEY;
-                if (!apiKey) {
-                  sendJSON(res, 500, { error: 'OPENAI_API_KEY not set in .env' });
-                  return;
-                }
-
-                const { default: OpenAI } = await import('openai');
-                const openai = new OpenAI({ apiKey });
-
-                const response = await openai.responses.create({
-                  model: 'gpt-4.1-nano',
-                  instructions: systemPrompt,
-                  input: `Bot name: "${name}"\nPersonality/strategy: "${personality}"\n\nGenerate the think() function and STYLE JSON for this bot. Use the EXACT format specified (STYLE: then CODE:).`,
-                  max_output_tokens: 2048,
-                });
-
-                // Extract text from response
-                const text = extractOpenAIText(response);
-                const { code, style } = parseStyleAndCode(text);
-                sendJSON(res, 200, { code, style });
-
-              } else {
-                // ---------- Claude Opus 4.6 (default) ----------
-                const apiKey = env.ANTHROPIC_API_KEY;
-                if (!apiKey) {
-                  sendJSON(res, 500, { error: 'ANTHROPIC_API_KEY not set in .env' });
-                  return;
-                }
-
-                const { default: Anthropic } = await import('@anthropic-ai/sdk');
-                const anthropic = new Anthropic({ apiKey });
-
-                const response = await anthropic.messages.create({
-                  model: 'claude-haiku-4-5-20251001',
-                  max_tokens: 2048,
-                  system: systemPrompt,
-                  messages: [{
-                    role: 'user',
-                    content: `Bot name: "${name}"\nPersonality/strategy: "${personality}"\n\nGenerate the think() function and STYLE JSON for this bot. Use the EXACT format specified (STYLE: then CODE:).`,
-                  }],
-                });
-
-                const text = response.content
-                  .filter((b: any) => b.type === 'text')
-                  .map((b: any) => b.text)
-                  .join('');
-                const { code, style } = parseStyleAndCode(text);
-                sendJSON(res, 200, { code, style });
-              }
+              const { name, personality, provider, model, rules } = JSON.parse(body);
+              const target = await resolveTarget(env, provider, model);
+              const { buildSystemPrompt } = await import('./src/bots/prompt.ts');
+              const { normalizeRules } = await import('./src/engine/GameRules.ts');
+              const { parseStyleAndCode } = await import('./src/bots/responseParser.ts');
+
+              const text = await completeText(target, {
+                system: buildSystemPrompt(normalizeRules(rules)),
+                input: `Bot name: "${name}"\nPersonality/strategy: "${personality}"\n\nGenerate the think() function and STYLE JSON for this bot. Use the EXACT format specified (STYLE: then CODE:).`,
+                maxTokens: 2048,
+                subject: { task: 'generate', botName: name, personality },
+              });
+              const { code, style } = parseStyleAndCode(text);
+              sendJSON(res, 200, { code, style });
             } catch (err: any) {
               console.error('Generate bot error:', err);
               sendJSON(res, 500, { error: String(err.message || err) });
@@ -86,10 +48,10 @@ export default defineConfig(({ mode }) => {
           });
 
           // ============================================
-          // POST /api/evolve/claude
-          // Mid-match code evolution via Claude
+          // POST /api/repair-bot
+          // Fixes generated code that failed the client's smoke test
           // ============================================
-          server.middlewares.use('/api/evolve/claude', async (req, res) => {
+          server.middlewares.use('/api/repair-bot', async (req, res) => {
             if (req.method !== 'POST') {
               res.statusCode = 405;
               res.end('Method not allowed');
@@ -98,35 +60,53 @@ export default defineConfig(({ mode }) => {
 
             const body = await readBody(req);
             try {
-              const { botName, personality, currentCode, situation } = JSON.parse(body);
-              const apiKey = env.ANTHROPIC_API_KEY;
-              if (!apiKey) {
-                sendJSON(res, 500, { error: 'ANTHROPIC_API_KEY not set' });
-                return;
-              }
+              const { name, personality, provider, model, rules, code, error } = JSON.parse(body);
+              const target = await resolveTarget(env, provider, model);
+              const { buildSystemPrompt } = await import('./src/bots/prompt.ts');
+              const { normalizeRules } = await import('./src/engine/GameRules.ts');
+              const { parseStyleAndCode, repairInput } = await import('./src/bots/responseParser.ts');
+
+              const text = await completeText(target, {
+                system: buildSystemPrompt(normalizeRules(rules)),
+                input: repairInput(name, personality, code, error),
+                maxTokens: 2048,
+                subject: { task: 'repair', botName: name, personality, situation: error },
+              });
+              sendJSON(res, 200, { code: parseStyleAndCode(text).code });
+            } catch (err: any) {
+              console.error('Repair bot error:', err);
+              sendJSON(res, 500, { error: String(err.message || err) });
+            }
+          });
 
+          // ============================================
+          // POST /api/evolve/<provider>
+          // Mid-match code evolution
+          // ============================================
+          server.middlewares.use('/api/evolve', async (req, res) => {
+            if (req.method !== 'POST') {
+              res.statusCode = 405;
+              res.end('Method not allowed');
+              return;
+            }
+
+            const body = await readBody(req);
+            try {
+              const { botName, personality, model, currentCode, memory, situation, rules } = JSON.parse(body);
+              const target = await resolveTarget(env, providerFromPath(req.url), model);
               const { buildEvolutionPrompt } = await import('./src/bots/prompt.ts');
-              const { default: Anthropic } = await import('@anthropic-ai/sdk');
-              const anthropic = new Anthropic({ apiKey });
-
-              const response = await anthropic.messages.create({
-                model: 'claude-haiku-4-5-20251001',
-                max_tokens: 2048,
-                system: buildEvolutionPrompt(botName, personality),
-                messages: [{
-                  role: 'user',
-                  content: `Current think() code:\n\`\`\`javascript\n${currentCode}\n\`\`\`\n\nBattle situation: ${situation}`,
-                }],
+              const { normalizeRules } = await import('./src/engine/GameRules.ts');
+              const { evolutionInput, parseEvolutionResponse } = await import('./src/bots/responseParser.ts');
+
+              const text = await completeText(target, {
+                system: buildEvolutionPrompt(botName, personality, normalizeRules(rules)),
+                input: evolutionInput(currentCode, memory, situation),
+                maxTokens: 2048,
+                subject: { task: 'evolve', botName, personality, situation },
               });
-
-              const text = response.content
-                .filter((b: any) => b.type === 'text')
-                .map((b: any) => b.text)
-                .join('');
-              const parsed = parseEvolutionResponse(text);
-              sendJSON(res, 200, parsed);
+              sendJSON(res, 200, parseEvolutionResponse(text));
             } catch (err: any) {
-              console.error('Claude evolution error:', err);
+              console.error('Evolution error:', err);
               if (!res.headersSent) {
                 sendJSON(res, 500, { error: String(err.message || err) });
               }
@@ -134,10 +114,10 @@ export default defineConfig(({ mode }) => {
           });
 
           // ============================================
-          // POST /api/evolve/openai
-          // Mid-match code evolution via OpenAI
+          // POST /api/thought/<provider>
+          // Commentary-only thought bubble, streamed as SSE
           // ============================================
-          server.middlewares.use('/api/evolve/openai', async (req, res) => {
+          server.middlewares.use('/api/thought', async (req, res) => {
             if (req.method !== 'POST') {
               res.statusCode = 405;
               res.end('Method not allowed');
@@ -145,33 +125,30 @@ export default defineConfig(({ mode }) => {
             }
 
             const body = await readBody(req);
+            const upstream = abortOnClose(res);
             try {
-              const { botName, personality, currentCode, situation } = JSON.parse(body);
-              const apiKey = env.OPENAI_API_KEY;
-              if (!apiKey) {
-                sendJSON(res, 500, { error: 'OPENAI_API_KEY not set' });
-                return;
-              }
-
-              const { buildEvolutionPrompt } = await import('./src/bots/prompt.ts');
-              const { default: OpenAI } = await import('openai');
-              const openai = new OpenAI({ apiKey });
-
-              const response = await openai.responses.create({
-                model: 'gpt-4.1-nano',
-                instructions: buildEvolutionPrompt(botName, personality),
-                input: `Current think() code:\n\`\`\`javascript\n${currentCode}\n\`\`\`\n\nBattle situation: ${situation}`,
-                max_output_tokens: 2048,
+              const { botName, personality, model, situation } = JSON.parse(body);
+              const target = await resolveTarget(env, providerFromPath(req.url), model);
+              const { buildThoughtPrompt } = await import('./src/bots/prompt.ts');
+
+              const chunks = streamText(target, {
+                system: buildThoughtPrompt(botName, personality),
+                input: `Battle situation: ${situation}`,
+                maxTokens: 200,
+                signal: upstream.signal,
+                subject: { task: 'thought', botName, personality, situation },
               });
 
-              const text = extractOpenAIText(response);
-              const parsed = parseEvolutionResponse(text);
-              sendJSON(res, 200, parsed);
-            } catch (err: any) {
-              console.error('OpenAI evolution error:', err);
-              if (!res.headersSent) {
-                sendJSON(res, 500, { error: String(err.message || err) });
+              for await (const text of chunks) {
+                if (!res.headersSent) startSSE(res);
+                sendSSE(res, { text });
               }
+              if (!res.headersSent) startSSE(res);
+              endSSE(res);
+            } catch (err: any) {
+              if (upstream.signal.aborted) return;
+              console.error('Thought error:', err);
+              failSSE(res, err);
             }
           });
         },
@@ -196,67 +173,228 @@ function sendJSON(res: any, status: number, data: any) {
   res.end(JSON.stringify(data));
 }
 
-function parseStyleAndCode(text: string): { code: string; style: any } {
-  let code = text;
-  let style = null;
-
-  const codeSplit = text.split(/^CODE:\s*$/m);
-  if (codeSplit.length >= 2) {
-    const beforeCode = codeSplit[0];
-    const afterCode = codeSplit.slice(1).join('CODE:');
-
-    // Extract function from CODE section
-    const fnMatch = afterCode.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
-    code = fnMatch ? fnMatch[0] : afterCode.trim();
-
-    // Extract STYLE JSON from before CODE
-    const styleMatch = beforeCode.match(/STYLE:\s*\n?\s*(\{[\s\S]*?\})\s*$/m);
-    if (styleMatch) {
-      try {
-        style = JSON.parse(styleMatch[1]);
-      } catch {
-        // style parse failed, use default
-      }
-    }
-  } else {
-    // Fallback: no CODE: marker, extract function directly
-    const fnMatch = text.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
-    code = fnMatch ? fnMatch[0] : text;
+// --- LLM providers (see src/utils/providers.ts) ---
+
+interface LLMTarget {
+  spec: ProviderSpec;
+  model: string;
+  apiKey: string;
+  baseURL: string | undefined;
+  /** MOCK_LLM_* settings, only for the mock provider */
+  mock: MockConfig | null;
+}
+
+interface LLMRequest {
+  system: string;
+  input: string;
+  maxTokens: number;
+  signal?: AbortSignal;
+  /** What the prompt is for — only the mock provider looks at it */
+  subject: MockSubject;
+}
+
+/** `/claude` → `claude` (connect strips the mount path from req.url) */
+function providerFromPath(url: string | undefined): string {
+  return (url ?? '').split('?')[0].replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Look the provider up in the registry and pull its key and endpoint from .env.
+ * LLM_PROVIDER in .env overrides every bot's choice (e.g. LLM_PROVIDER=mock for offline runs).
+ */
+async function resolveTarget(env: Record<string, string>, providerId: unknown, model: unknown): Promise<LLMTarget> {
+  const { getProvider, DEFAULT_PROVIDER_ID } = await import('./src/utils/providers.ts');
+  const forced = env.LLM_PROVIDER?.trim();
+  if (forced) providerId = forced;
+  const spec = getProvider(typeof providerId === 'string' && providerId ? providerId : DEFAULT_PROVIDER_ID);
+  if (!spec) throw new Error(`Unknown provider "${providerId}"`);
+
+  const apiKey = env[spec.apiKeyEnv] ?? '';
+  if (spec.apiKeyRequired && !apiKey) throw new Error(`${spec.apiKeyEnv} not set in .env`);
+
+  const { mockConfigFromEnv } = await import('./src/bots/mockProvider.ts');
+  return {
+    spec,
+    // A forced provider ignores the model picked for another one
+    model: !forced && typeof model === 'string' && model.trim() ? model.trim() : spec.model,
+    // OpenAI-compatible local servers ignore the key, but the SDK insists on one
+    apiKey: apiKey || 'not-needed',
+    baseURL: env[spec.baseURLEnv] || spec.baseURL || undefined,
+    mock: spec.api === 'mock' ? mockConfigFromEnv(env) : null,
+  };
+}
+
+/** The mock's reply after its simulated latency; throws for simulated failures */
+async function mockText(target: LLMTarget, req: LLMRequest): Promise<string> {
+  const { mockReply } = await import('./src/bots/mockProvider.ts');
+  const reply = mockReply(req.subject, target.mock!);
+  await delay(reply.latencyMs, req.signal);
+  if (reply.fail) throw new Error('Mock provider failure (MOCK_LLM_FAILURE_RATE)');
+  return reply.text;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+async function completeText(target: LLMTarget, req: LLMRequest): Promise<string> {
+  const { spec, model, apiKey, baseURL } = target;
+
+  if (spec.api === 'mock') return mockText(target, req);
+
+  if (spec.api === 'anthropic') {
+    const { default: Anthropic } = await import('@anthropic-ai/sdk');
+    const anthropic = new Anthropic({ apiKey, baseURL });
+    const response = await anthropic.messages.create({
+      model,
+      max_tokens: req.maxTokens,
+      system: req.system,
+      messages: [{ role: 'user', content: req.input }],
+    }, { signal: req.signal });
+    return response.content
+      .filter((b: any) => b.type === 'text')
+      .map((b: any) => b.text)
+      .join('');
+  }
+
+  const { default: OpenAI } = await import('openai');
+  const openai = new OpenAI({ apiKey, baseURL });
+
+  if (spec.api === 'openai') {
+    // Responses API
+    const response = await openai.responses.create({
+      model,
+      instructions: req.system,
+      input: req.input,
+      max_output_tokens: req.maxTokens,
+    }, { signal: req.signal });
+    return extractOpenAIText(response);
   }
 
-  return { code, style };
+  // OpenAI-compatible servers (Ollama, llama.cpp, ...) only reliably speak Chat Completions
+  const response = await openai.chat.completions.create({
+    model,
+    max_tokens: req.maxTokens,
+    messages: [
+      { role: 'system', content: req.system },
+      { role: 'user', content: req.input },
+    ],
+  }, { signal: req.signal });
+  return response.choices[0]?.message?.content ?? '';
 }
 
-function parseEvolutionResponse(text: string): { code: string | null; thought: string } {
-  let thought = '';
-  let code: string | null = null;
+/** Text deltas as they arrive; providers without streaming yield the whole reply once */
+async function* streamText(target: LLMTarget, req: LLMRequest): AsyncGenerator<string> {
+  const { spec, model, apiKey, baseURL } = target;
 
-  // Extract THOUGHT section
-  const thoughtMatch = text.match(/THOUGHT:\s*\n?([\s\S]*?)(?=\nCODE:|$)/);
-  if (thoughtMatch) {
-    thought = thoughtMatch[1].trim();
+  if (!spec.streaming) {
+    const text = await completeText(target, req);
+    if (text) yield text;
+    return;
   }
 
-  // Extract CODE section (same pattern as parseStyleAndCode for CODE part)
-  const codeSplit = text.split(/^CODE:\s*$/m);
-  if (codeSplit.length >= 2) {
-    const afterCode = codeSplit.slice(1).join('CODE:');
-    const fnMatch = afterCode.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
-    code = fnMatch ? fnMatch[0] : null;
-  } else {
-    // Try finding a function even without explicit CODE: marker
-    const fnMatch = text.match(/function\s+think\s*\([^)]*\)\s*\{[\s\S]*\}/);
-    if (fnMatch) {
-      code = fnMatch[0];
+  if (spec.api === 'mock') {
+    // Word by word, like a real stream
+    const text = await mockText(target, req);
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      await delay(20, req.signal);
+      yield word;
     }
+    return;
   }
 
-  // If no thought extracted, use first line as fallback
-  if (!thought && !text.match(/THOUGHT:/)) {
-    thought = text.split('\n')[0].slice(0, 120);
+  if (spec.api === 'anthropic') {
+    const { default: Anthropic } = await import('@anthropic-ai/sdk');
+    const anthropic = new Anthropic({ apiKey, baseURL });
+    const stream = await anthropic.messages.create({
+      model,
+      max_tokens: req.maxTokens,
+      system: req.system,
+      messages: [{ role: 'user', content: req.input }],
+      stream: true,
+    }, { signal: req.signal });
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') yield event.delta.text;
+    }
+    return;
   }
 
-  return { code, thought };
+  const { default: OpenAI } = await import('openai');
+  const openai = new OpenAI({ apiKey, baseURL });
+
+  if (spec.api === 'openai') {
+    const stream = await openai.responses.create({
+      model,
+      instructions: req.system,
+      input: req.input,
+      max_output_tokens: req.maxTokens,
+      stream: true,
+    }, { signal: req.signal });
+    for await (const event of stream) {
+      if (event.type === 'response.output_text.delta') yield event.delta;
+    }
+    return;
+  }
+
+  const stream = await openai.chat.completions.create({
+    model,
+    max_tokens: req.maxTokens,
+    messages: [
+      { role: 'system', content: req.system },
+      { role: 'user', content: req.input },
+    ],
+    stream: true,
+  }, { signal: req.signal });
+  for await (const chunk of stream) {
+    const text = chunk.choices[0]?.delta?.content;
+    if (text) yield text;
+  }
+}
+
+// --- Server-sent events (thought streaming) ---
+
+function startSSE(res: any) {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+}
+
+/** One `data:` frame; ThoughtManager reads `{ text }` chunks */
+function sendSSE(res: any, data: unknown) {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function endSSE(res: any) {
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+/** Errors before the stream starts are plain JSON; after that, an error frame and [DONE] */
+function failSSE(res: any, err: any) {
+  if (!res.headersSent) {
+    sendJSON(res, 500, { error: String(err.message || err) });
+    return;
+  }
+  sendSSE(res, { error: String(err.message || err) });
+  endSSE(res);
+}
+
+/** Cancel the upstream LLM stream when the browser drops the request (e.g. match ended) */
+function abortOnClose(res: any): AbortController {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller;
 }
 
 function extractOpenAIText(response: any): string {